@@ -0,0 +1,93 @@
+// @vitest-environment jsdom
+import { act, cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import App from './App';
+import { setDefaultLiveTransport } from './services/geminiService';
+import { assistantReply, createScriptedTransport } from './services/live/scriptedTransport';
+import type { FakeCapture, FakePlayback } from './test/fakeAudio';
+
+// The microphone and speaker of the conversation App creates, once it has started
+const audio = vi.hoisted(() => ({ capture: null as FakeCapture | null, playback: null as FakePlayback | null }));
+
+vi.mock('./services/audio/audioCapture', async () => {
+  const { FakeCapture } = await import('./test/fakeAudio');
+  return {
+    MicrophoneCapture: class extends FakeCapture {
+      constructor() {
+        super();
+        audio.capture = this;
+      }
+    }
+  };
+});
+
+vi.mock('./services/audio/audioPlayback', async () => {
+  const { FakePlayback } = await import('./test/fakeAudio');
+  return {
+    RingBufferPlayback: class extends FakePlayback {
+      constructor() {
+        super();
+        audio.playback = this;
+      }
+    }
+  };
+});
+
+// jsdom has no IndexedDB
+vi.mock('./services/conversationStore', async importOriginal => ({
+  ...await importOriginal<typeof import('./services/conversationStore')>(),
+  listConversations: async () => [],
+  saveConversation: async () => {}
+}));
+
+beforeEach(() => {
+  vi.spyOn(console, 'debug').mockImplementation(() => {});
+  setDefaultLiveTransport(createScriptedTransport({
+    scripts: {
+      steps: [
+        { type: 'awaitClient', event: 'input', minAudioChunks: 2, transcriptIfSpoken: "What's our cash position?" },
+        ...assistantReply('You have forty thousand dollars in the bank.', 'audio'),
+        { type: 'awaitClient', event: 'input' }
+      ]
+    }
+  }));
+});
+
+afterEach(() => {
+  cleanup();
+  setDefaultLiveTransport(null);
+  audio.capture = null;
+  audio.playback = null;
+  vi.restoreAllMocks();
+});
+
+describe('App', () => {
+  it('moves through listening, speaking and back as the conversation runs', async () => {
+    render(<App />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Start conversation' }));
+    await screen.findByText('Connected. Listening...');
+    expect(screen.getByRole('button', { name: 'End conversation' })).toBeTruthy();
+
+    act(() => audio.capture!.emit(2, 0.3));
+    await screen.findByText('Speaking...');
+    expect(screen.getByText("What's our cash position?")).toBeTruthy();
+    expect(screen.getByText('You have forty thousand dollars in the bank.')).toBeTruthy();
+
+    act(() => audio.playback!.drain());
+    expect(screen.getByText('Listening...')).toBeTruthy();
+
+    fireEvent.click(screen.getByRole('button', { name: 'End conversation' }));
+    expect(screen.getByRole('button', { name: 'Start conversation' })).toBeTruthy();
+    expect(audio.capture!.stopped).toBe(true);
+  });
+
+  it('shows the spinner while connecting', () => {
+    render(<App />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Start conversation' }));
+    const button = screen.getByRole('button', { name: 'End conversation' }) as HTMLButtonElement;
+    expect(button.disabled).toBe(true);
+    expect(screen.getByText('Connecting...')).toBeTruthy();
+  });
+});
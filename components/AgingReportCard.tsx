@@ -0,0 +1,69 @@
+import React from 'react';
+import { AGING_BUCKETS, AgingBucket, AgingReport } from '../services/accountingReports';
+import { formatAmount } from '../services/ledgerView';
+import { ReportCardFrame } from './ReportCardFrame';
+
+interface AgingReportCardProps {
+  report: AgingReport & { report_type: string };
+  onClose?: () => void;
+}
+
+const BUCKET_LABELS: Record<AgingBucket, string> = {
+  current: 'Current',
+  days_1_30: '1–30',
+  days_31_60: '31–60',
+  days_61_90: '61–90',
+  over_90: '90+'
+};
+
+export const AgingReportCard: React.FC<AgingReportCardProps> = ({ report, onClose }) => {
+  const isReceivable = report.report_type.startsWith('Accounts Receivable');
+
+  return (
+    <ReportCardFrame
+      title={report.report_type}
+      subtitle={`As of ${report.as_of_date} · ${report.invoice_count} open ${isReceivable ? 'invoices' : 'bills'}`}
+      onClose={onClose}
+    >
+      <div className="mb-4 grid grid-cols-2 md:grid-cols-5 gap-2 text-sm">
+        {AGING_BUCKETS.map(bucket => (
+          <div key={bucket} className={`rounded p-2 ${bucket === 'over_90' && report.totals.over_90 > 0 ? 'bg-red-900/30' : 'bg-gray-800/50'}`}>
+            <p className="text-gray-400 text-xs">{BUCKET_LABELS[bucket]}</p>
+            <p className="text-white font-semibold tabular-nums">{formatAmount(report.totals[bucket])}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto max-h-80 overflow-y-auto">
+        <table className="w-full text-sm">
+          <thead className="sticky top-0 bg-gray-900">
+            <tr className="border-b border-gray-600 text-gray-300">
+              <th className="text-left py-2 px-3">{isReceivable ? 'Customer' : 'Supplier'}</th>
+              {AGING_BUCKETS.map(bucket => <th key={bucket} className="text-right py-2 px-3">{BUCKET_LABELS[bucket]}</th>)}
+              <th className="text-right py-2 px-3">Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.parties.map(row => (
+              <tr key={row.party} className="border-b border-gray-700/50 text-gray-200 tabular-nums">
+                <td className="py-2 px-3">{row.party}</td>
+                {AGING_BUCKETS.map(bucket => (
+                  <td key={bucket} className={`py-2 px-3 text-right ${bucket !== 'current' && row[bucket] > 0 ? 'text-amber-300' : ''}`}>
+                    {row[bucket] ? formatAmount(row[bucket]) : '–'}
+                  </td>
+                ))}
+                <td className="py-2 px-3 text-right font-semibold">{formatAmount(row.total)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="mt-3 text-sm text-gray-300">
+        Total outstanding {formatAmount(report.totals.total)}
+        {report.overdue_percent !== null && ` · ${report.overdue_percent}% overdue`}
+        {` · weighted average ${report.weighted_average_days_overdue} days overdue`}
+      </p>
+    </ReportCardFrame>
+  );
+};
@@ -0,0 +1,29 @@
+import React from 'react';
+import { BalanceSheet } from '../services/accountingReports';
+import { formatAmount } from '../services/ledgerView';
+import { BalanceCheck, ReportCardFrame } from './ReportCardFrame';
+import { StatementSection } from './StatementSection';
+
+interface BalanceSheetCardProps {
+  report: BalanceSheet & { as_of_date: string };
+  onClose?: () => void;
+}
+
+export const BalanceSheetCard: React.FC<BalanceSheetCardProps> = ({ report, onClose }) => (
+  <ReportCardFrame title="Balance Sheet" subtitle={`As of ${report.as_of_date}`} onClose={onClose}>
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <div>
+        <StatementSection section={report.assets} />
+      </div>
+      <div>
+        <StatementSection section={report.liabilities} />
+        <StatementSection section={report.equity} />
+        <div className="flex justify-between text-sm font-semibold text-white border-t border-gray-500 pt-1">
+          <span>Total Liabilities and Equity</span>
+          <span className="tabular-nums">{formatAmount(report.total_liabilities_and_equity)}</span>
+        </div>
+      </div>
+    </div>
+    <BalanceCheck isBalanced={report.is_balanced} difference={report.difference} label="Assets equal liabilities plus equity" />
+  </ReportCardFrame>
+);
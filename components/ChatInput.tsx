@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { ResponseModality } from '../services/geminiService';
+
+interface ChatInputProps {
+  onSend: (text: string) => void;
+  responseModality: ResponseModality;
+  onResponseModalityChange: (modality: ResponseModality) => void;
+  // The reply modality can only change between conversations
+  isModalityLocked: boolean;
+}
+
+export const ChatInput: React.FC<ChatInputProps> = ({ onSend, responseModality, onResponseModalityChange, isModalityLocked }) => {
+  const [text, setText] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim()) return;
+    onSend(text);
+    setText('');
+  };
+
+  const modalityButtonClasses = (modality: ResponseModality) =>
+    `px-3 py-1 text-xs transition-colors disabled:cursor-not-allowed ${
+      responseModality === modality ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-400 hover:text-white disabled:hover:text-gray-400'
+    }`;
+
+  return (
+    <form onSubmit={handleSubmit} className="w-full flex flex-col space-y-2">
+      <div className="flex items-center justify-end space-x-2 text-xs text-gray-400">
+        <span>Replies as</span>
+        <div className="flex rounded overflow-hidden border border-gray-700" title={isModalityLocked ? 'End the conversation to change how the assistant replies' : undefined}>
+          <button type="button" className={modalityButtonClasses('audio')} disabled={isModalityLocked} onClick={() => onResponseModalityChange('audio')}>
+            Voice
+          </button>
+          <button type="button" className={modalityButtonClasses('text')} disabled={isModalityLocked} onClick={() => onResponseModalityChange('text')}>
+            Text
+          </button>
+        </div>
+      </div>
+      <div className="flex space-x-2">
+        <input
+          type="text"
+          value={text}
+          onChange={e => setText(e.target.value)}
+          placeholder="Type a question, an account name or a list of cash flows..."
+          className="flex-grow bg-gray-800/50 border border-gray-700 rounded-lg px-4 py-2 text-gray-100 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          aria-label="Message the assistant"
+        />
+        <button
+          type="submit"
+          disabled={!text.trim()}
+          className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 disabled:text-gray-500 text-white rounded-lg px-4 py-2 transition-colors"
+        >
+          Send
+        </button>
+      </div>
+    </form>
+  );
+};
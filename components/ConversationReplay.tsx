@@ -0,0 +1,38 @@
+import React from 'react';
+import { StoredConversation } from '../services/conversationStore';
+import { TranscriptView } from './TranscriptView';
+import { ExportMenu } from './ExportMenu';
+import { ToolResultCard } from './ToolResultCard';
+
+interface ConversationReplayProps {
+  conversation: StoredConversation;
+  onExit: () => void;
+}
+
+// Read-only view of a saved conversation, rendered with the same components as the live session
+export const ConversationReplay: React.FC<ConversationReplayProps> = ({ conversation, onExit }) => {
+  const toolResults = conversation.transcript.flatMap(entry => entry.kind === 'tool_result' && !entry.error ? [entry] : []);
+
+  return (
+    <div className="w-full flex flex-col space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-white">{conversation.title}</h2>
+          <p className="text-sm text-gray-400">{new Date(conversation.startedAt).toLocaleString()}</p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <ExportMenu conversation={conversation} />
+          <button onClick={onExit} className="text-sm bg-gray-700 hover:bg-gray-600 text-white rounded px-3 py-2 transition-colors">
+            Back to live conversation
+          </button>
+        </div>
+      </div>
+
+      <TranscriptView transcript={conversation.transcript} statusMessage="Saved conversation" isUsingTools={false} />
+
+      {toolResults.map(entry => (
+        <ToolResultCard key={entry.id} toolName={entry.name} result={entry.result} />
+      ))}
+    </div>
+  );
+};
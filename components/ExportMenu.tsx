@@ -0,0 +1,70 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ConversationExportFormat, ExportableConversation, exportConversation } from '../services/export';
+
+interface ExportMenuProps {
+  conversation: ExportableConversation;
+  disabled?: boolean;
+}
+
+const EXPORT_OPTIONS: { format: ConversationExportFormat; label: string }[] = [
+  { format: 'markdown', label: 'Markdown (.md)' },
+  { format: 'json', label: 'JSON (.json)' },
+  { format: 'html', label: 'HTML report (.html)' },
+  { format: 'pdf', label: 'Print / Save as PDF' }
+];
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ conversation, disabled = false }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const closeOnOutsideClick = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', closeOnOutsideClick);
+    return () => document.removeEventListener('mousedown', closeOnOutsideClick);
+  }, [isOpen]);
+
+  const handleExport = (format: ConversationExportFormat) => {
+    setIsOpen(false);
+    try {
+      exportConversation(conversation, format);
+      setExportError(null);
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : 'Export failed.');
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={disabled}
+        className="text-sm bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded px-3 py-2 transition-colors"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        Export
+      </button>
+      {isOpen && (
+        <div role="menu" className="absolute right-0 mt-1 w-52 bg-gray-800 border border-gray-700 rounded shadow-lg z-20">
+          {EXPORT_OPTIONS.map(option => (
+            <button
+              key={option.format}
+              role="menuitem"
+              onClick={() => handleExport(option.format)}
+              className="block w-full text-left text-sm text-gray-200 hover:bg-gray-700 px-3 py-2"
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+      {exportError && <p className="absolute right-0 mt-1 w-64 text-xs text-red-400">{exportError}</p>}
+    </div>
+  );
+};
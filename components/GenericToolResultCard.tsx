@@ -0,0 +1,45 @@
+import React from 'react';
+import { formatToolName } from '../services/export/exportTypes';
+import { ReportCardFrame } from './ReportCardFrame';
+
+interface GenericToolResultCardProps {
+  toolName: string;
+  result: unknown;
+  onClose?: () => void;
+}
+
+const formatLabel = (key: string) => key.replace(/_/g, ' ').replace(/^\w/, letter => letter.toUpperCase());
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const renderValue = (value: unknown): React.ReactNode => {
+  if (value === null || value === undefined) return <span className="text-gray-500 italic">none</span>;
+  if (typeof value !== 'object') return String(value);
+  if (Array.isArray(value) && value.every(item => typeof item !== 'object')) return value.join(', ');
+  // Nested tables and lists stay collapsed so the headline figures remain readable
+  return (
+    <details>
+      <summary className="cursor-pointer text-gray-400">{Array.isArray(value) ? `${value.length} items` : 'Details'}</summary>
+      <pre className="text-xs text-gray-300 whitespace-pre-wrap mt-1">{JSON.stringify(value, null, 2)}</pre>
+    </details>
+  );
+};
+
+// Fallback card for tools without a dedicated renderer: the result's fields as a labelled list
+export const GenericToolResultCard: React.FC<GenericToolResultCardProps> = ({ toolName, result, onClose }) => (
+  <ReportCardFrame title={formatToolName(toolName)} onClose={onClose}>
+    {isPlainObject(result) ? (
+      <dl className="grid grid-cols-[max-content_1fr] gap-x-6 gap-y-2 text-sm">
+        {Object.entries(result).map(([key, value]) => (
+          <React.Fragment key={key}>
+            <dt className="text-gray-400">{formatLabel(key)}</dt>
+            <dd className="text-gray-100 tabular-nums break-words">{renderValue(value)}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+    ) : (
+      <div className="text-sm text-gray-100">{renderValue(result)}</div>
+    )}
+  </ReportCardFrame>
+);
@@ -0,0 +1,90 @@
+import React, { useMemo, useState } from 'react';
+import { conversationMatches, StoredConversation } from '../services/conversationStore';
+
+interface HistorySidebarProps {
+  conversations: StoredConversation[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  onDelete: (id: string) => void;
+  onClearAll: () => void;
+  onClose: () => void;
+  // The last storage read or write that failed, including autosaves
+  error?: string | null;
+}
+
+export const HistorySidebar: React.FC<HistorySidebarProps> = ({ conversations, selectedId, onSelect, onDelete, onClearAll, onClose, error }) => {
+  const [query, setQuery] = useState('');
+  const filtered = useMemo(() => conversations.filter(conversation => conversationMatches(conversation, query)), [conversations, query]);
+
+  const handleClearAll = () => {
+    if (window.confirm('Delete every saved conversation? This cannot be undone.')) {
+      onClearAll();
+    }
+  };
+
+  return (
+    <aside className="fixed inset-y-0 left-0 z-20 w-80 bg-gray-800 border-r border-gray-700 shadow-xl flex flex-col">
+      <div className="flex items-center justify-between p-4 border-b border-gray-700">
+        <h2 className="text-lg font-semibold text-white">Conversation History</h2>
+        <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors" aria-label="Close history">
+          <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
+            <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="p-4 border-b border-gray-700">
+        <input
+          type="search"
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder="Search transcripts and tools..."
+          className="w-full bg-gray-900 border border-gray-700 rounded px-3 py-2 text-sm text-gray-100 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          aria-label="Search conversations"
+        />
+      </div>
+
+      {error && (
+        <p role="alert" className="mx-4 mt-4 bg-red-500/20 border border-red-500 text-red-300 text-sm p-3 rounded-lg">{error}</p>
+      )}
+
+      <ul className="flex-grow overflow-y-auto">
+        {filtered.length === 0 && (
+          <li className="p-4 text-sm text-gray-500 italic">{conversations.length === 0 ? 'No saved conversations yet.' : 'No conversations match your search.'}</li>
+        )}
+        {filtered.map(conversation => {
+          const toolCount = conversation.transcript.filter(entry => entry.kind === 'tool_call').length;
+          return (
+            <li key={conversation.id} className={`group border-b border-gray-700/50 ${conversation.id === selectedId ? 'bg-blue-900/30' : 'hover:bg-gray-700/40'}`}>
+              <div className="flex items-start p-3">
+                <button onClick={() => onSelect(conversation.id)} className="flex-grow text-left">
+                  <p className="text-sm text-gray-100 line-clamp-2">{conversation.title}</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {new Date(conversation.startedAt).toLocaleString()} · {conversation.transcript.length} entries{toolCount > 0 ? ` · ${toolCount} tool calls` : ''}
+                  </p>
+                </button>
+                <button
+                  onClick={() => onDelete(conversation.id)}
+                  className="ml-2 text-gray-500 hover:text-red-400 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                  aria-label={`Delete ${conversation.title}`}
+                >
+                  <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                    <path fillRule="evenodd" d="M9 2a1 1 0 00-.894.553L7.382 4H4a1 1 0 000 2v10a2 2 0 002 2h8a2 2 0 002-2V6a1 1 0 100-2h-3.382l-.724-1.447A1 1 0 0011 2H9zM7 8a1 1 0 012 0v6a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v6a1 1 0 102 0V8a1 1 0 00-1-1z" clipRule="evenodd" />
+                  </svg>
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {conversations.length > 0 && (
+        <div className="p-4 border-t border-gray-700">
+          <button onClick={handleClearAll} className="w-full text-sm text-red-400 hover:text-red-300 border border-red-500/30 hover:bg-red-900/20 rounded py-2 transition-colors">
+            Clear all history
+          </button>
+        </div>
+      )}
+    </aside>
+  );
+};
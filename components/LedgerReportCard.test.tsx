@@ -0,0 +1,18 @@
+// @vitest-environment jsdom
+import { cleanup, render, screen } from '@testing-library/react';
+import { afterEach, describe, expect, it } from 'vitest';
+import { LedgerReportCard } from './LedgerReportCard';
+
+afterEach(cleanup);
+
+describe('LedgerReportCard', () => {
+  it('fills in the fields a saved result is missing', () => {
+    render(<LedgerReportCard ledgerData={{ entries: [{ postingDate: '2025-01-05', account: 'Cash', debit: '100.00', credit: 0, voucherNo: 'JV-001' }] }} />);
+
+    expect(screen.getByText('General Ledger Report')).toBeTruthy();
+    expect(screen.getByText('All dates - All dates')).toBeTruthy();
+    expect(screen.getByText('All accounts')).toBeTruthy();
+    expect(screen.getByText('JV-001')).toBeTruthy();
+    expect(screen.queryByText('Total Debits')).toBeNull();
+  });
+});
@@ -0,0 +1,83 @@
+import React, { useMemo } from 'react';
+import { exportLedgerCsv } from '../services/export';
+import { LedgerEntry } from '../services/tools/generalLedger';
+import { SavedLedgerReport, formatAmount, normalizeLedgerEntry } from '../services/ledgerView';
+import { LedgerTable } from './LedgerTable';
+
+interface LedgerReportCardProps {
+  ledgerData: SavedLedgerReport;
+  // Omitted when the card is shown read-only, e.g. in a reopened conversation
+  onClose?: () => void;
+  onVoucherSelect?: (entry: LedgerEntry) => void;
+}
+
+export const LedgerReportCard: React.FC<LedgerReportCardProps> = ({ ledgerData, onClose, onVoucherSelect }) => {
+  const entries = useMemo(() => (ledgerData.entries ?? []).map(normalizeLedgerEntry), [ledgerData]);
+  const summaryAmount = (value: unknown) => formatAmount(Number(value) || 0);
+
+  return (
+    <div className="w-full bg-blue-900/20 border border-blue-500/30 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-blue-400 font-semibold flex items-center">
+          <svg className="w-5 h-5 mr-2" fill="currentColor" viewBox="0 0 20 20">
+            <path fillRule="evenodd" d="M3 4a1 1 0 011-1h12a1 1 0 011 1v2a1 1 0 01-1 1H4a1 1 0 01-1-1V4zM3 10a1 1 0 011-1h6a1 1 0 011 1v6a1 1 0 01-1 1H4a1 1 0 01-1-1v-6zM14 9a1 1 0 00-1 1v6a1 1 0 001 1h2a1 1 0 001-1v-6a1 1 0 00-1-1h-2z" clipRule="evenodd" />
+          </svg>
+          {ledgerData.report_type ?? 'General Ledger Report'}
+        </h3>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => exportLedgerCsv(ledgerData)}
+            className="text-xs bg-blue-800/60 hover:bg-blue-700 text-blue-100 rounded px-2 py-1 transition-colors"
+          >
+            Export CSV
+          </button>
+          {onClose && (
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-white transition-colors"
+              aria-label="Close report"
+            >
+              <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
+                <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+              </svg>
+            </button>
+          )}
+        </div>
+      </div>
+      
+      <div className="mb-4 grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+        <div className="bg-gray-800/50 rounded p-3">
+          <p className="text-gray-400">Total Entries</p>
+          <p className="text-white font-semibold">{ledgerData.total_entries ?? entries.length}</p>
+        </div>
+        <div className="bg-gray-800/50 rounded p-3">
+          <p className="text-gray-400">Date Range</p>
+          <p className="text-white font-semibold">{ledgerData.date_range?.from ?? 'All dates'} - {ledgerData.date_range?.to ?? 'All dates'}</p>
+        </div>
+        <div className="bg-gray-800/50 rounded p-3">
+          <p className="text-gray-400">Account Filter</p>
+          <p className="text-white font-semibold">{ledgerData.account_filter ?? 'All accounts'}</p>
+        </div>
+      </div>
+      
+      <LedgerTable entries={entries} onVoucherSelect={onVoucherSelect} />
+      
+      {ledgerData.summary && (
+        <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-4 text-sm border-t border-gray-600 pt-4">
+          <div className="bg-green-900/20 border border-green-500/30 rounded p-3">
+            <p className="text-green-400">Total Debits</p>
+            <p className="text-white font-semibold">{summaryAmount(ledgerData.summary.total_debits)}</p>
+          </div>
+          <div className="bg-red-900/20 border border-red-500/30 rounded p-3">
+            <p className="text-red-400">Total Credits</p>
+            <p className="text-white font-semibold">{summaryAmount(ledgerData.summary.total_credits)}</p>
+          </div>
+          <div className="bg-blue-900/20 border border-blue-500/30 rounded p-3">
+            <p className="text-blue-400">Net Balance</p>
+            <p className="text-white font-semibold">{summaryAmount(ledgerData.summary.net_balance)}</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
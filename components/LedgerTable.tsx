@@ -0,0 +1,176 @@
+import React, { useMemo, useState } from 'react';
+import { LedgerEntry } from '../services/tools/generalLedger';
+import {
+  EMPTY_LEDGER_FILTERS,
+  LedgerFilters,
+  LedgerRow,
+  LedgerSort,
+  LedgerSortKey,
+  buildLedgerRows,
+  filterLedgerEntries,
+  formatAmount,
+  formatPostingDate,
+  sortLedgerEntries,
+  totalLedgerEntries
+} from '../services/ledgerView';
+
+interface LedgerTableProps {
+  entries: LedgerEntry[];
+  // When provided, voucher numbers become buttons that ask the assistant about that voucher
+  onVoucherSelect?: (entry: LedgerEntry) => void;
+}
+
+const ROW_HEIGHT = 36;
+const VIEWPORT_HEIGHT = 384;
+const OVERSCAN_ROWS = 8;
+const GRID_COLUMNS = 'grid grid-cols-[6.5rem_minmax(8rem,1fr)_7rem_7rem_7.5rem_7rem_7rem]';
+
+const COLUMNS: { key: LedgerSortKey; label: string; numeric?: boolean }[] = [
+  { key: 'postingDate', label: 'Date' },
+  { key: 'account', label: 'Account' },
+  { key: 'debit', label: 'Debit', numeric: true },
+  { key: 'credit', label: 'Credit', numeric: true },
+  { key: 'balance', label: 'Balance', numeric: true },
+  { key: 'voucherType', label: 'Voucher Type' },
+  { key: 'voucherNo', label: 'Voucher No' }
+];
+
+const filterInputClass = 'bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-blue-500';
+
+export const LedgerTable: React.FC<LedgerTableProps> = ({ entries, onVoucherSelect }) => {
+  const [sort, setSort] = useState<LedgerSort>({ key: 'postingDate', direction: 'asc' });
+  const [filters, setFilters] = useState<LedgerFilters>(EMPTY_LEDGER_FILTERS);
+  const [groupByAccount, setGroupByAccount] = useState(false);
+  const [scrollTop, setScrollTop] = useState(0);
+
+  const filteredEntries = useMemo(() => filterLedgerEntries(entries, filters), [entries, filters]);
+  const rows = useMemo(
+    () => buildLedgerRows(sortLedgerEntries(filteredEntries, sort), groupByAccount),
+    [filteredEntries, sort, groupByAccount]
+  );
+  const totals = useMemo(() => totalLedgerEntries(filteredEntries), [filteredEntries]);
+
+  // Only the rows in (or near) the viewport are mounted; spacers keep the scrollbar honest
+  const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const lastRow = Math.min(rows.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN_ROWS);
+  const visibleRows = rows.slice(firstRow, lastRow);
+
+  const toggleSort = (key: LedgerSortKey) => {
+    setSort(current => current.key === key
+      ? { key, direction: current.direction === 'asc' ? 'desc' : 'asc' }
+      : { key, direction: 'asc' });
+  };
+
+  const updateFilter = (field: keyof LedgerFilters) => (event: React.ChangeEvent<HTMLInputElement>) => {
+    const value = event.target.value;
+    setFilters(current => ({ ...current, [field]: value }));
+  };
+
+  const hasFilters = Object.values(filters).some(value => value !== '');
+
+  const renderRow = (row: LedgerRow) => {
+    if (row.type === 'group') {
+      return (
+        <div key={row.key} className={`${GRID_COLUMNS} items-center bg-gray-800/70 text-blue-300 font-semibold`} style={{ height: ROW_HEIGHT }}>
+          <div className="px-3 col-span-7 truncate">{row.account} <span className="text-gray-400 font-normal">({row.totals.count} entries)</span></div>
+        </div>
+      );
+    }
+    if (row.type === 'subtotal') {
+      return (
+        <div key={row.key} className={`${GRID_COLUMNS} items-center border-b border-gray-600 text-gray-300 italic`} style={{ height: ROW_HEIGHT }}>
+          <div className="px-3 col-span-2 truncate">Subtotal</div>
+          <div className="px-3 text-right text-green-400">{formatAmount(row.totals.debit)}</div>
+          <div className="px-3 text-right text-red-400">{formatAmount(row.totals.credit)}</div>
+          <div className="px-3 text-right text-blue-400">{formatAmount(row.totals.net)}</div>
+          <div className="col-span-2" />
+        </div>
+      );
+    }
+
+    const { entry } = row;
+    return (
+      <div key={row.key} className={`${GRID_COLUMNS} items-center border-b border-gray-700/50 hover:bg-gray-800/30 text-gray-200`} style={{ height: ROW_HEIGHT }}>
+        <div className="px-3 truncate">{formatPostingDate(entry.postingDate)}</div>
+        <div className="px-3 truncate" title={entry.account}>{entry.account}</div>
+        <div className="px-3 text-right text-green-400 tabular-nums">{formatAmount(entry.debit)}</div>
+        <div className="px-3 text-right text-red-400 tabular-nums">{formatAmount(entry.credit)}</div>
+        <div className="px-3 text-right text-blue-400 tabular-nums">{formatAmount(entry.balance)}</div>
+        <div className="px-3 truncate">{entry.voucherType}</div>
+        <div className="px-3 truncate">
+          {onVoucherSelect && entry.voucherNo !== 'N/A' ? (
+            <button
+              onClick={() => onVoucherSelect(entry)}
+              className="text-blue-300 hover:text-blue-200 underline decoration-dotted"
+              title="Ask the assistant about this voucher"
+            >
+              {entry.voucherNo}
+            </button>
+          ) : entry.voucherNo}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="w-full space-y-3">
+      <div className="flex flex-wrap items-end gap-2 text-sm">
+        <input type="search" value={filters.text} onChange={updateFilter('text')} placeholder="Search account or voucher" className={`${filterInputClass} flex-grow min-w-[12rem]`} aria-label="Search account or voucher" />
+        <label className="flex flex-col text-xs text-gray-400">
+          From
+          <input type="date" value={filters.dateFrom} onChange={updateFilter('dateFrom')} className={filterInputClass} />
+        </label>
+        <label className="flex flex-col text-xs text-gray-400">
+          To
+          <input type="date" value={filters.dateTo} onChange={updateFilter('dateTo')} className={filterInputClass} />
+        </label>
+        <input type="number" value={filters.minAmount} onChange={updateFilter('minAmount')} placeholder="Min amount" className={`${filterInputClass} w-28`} aria-label="Minimum amount" />
+        <input type="number" value={filters.maxAmount} onChange={updateFilter('maxAmount')} placeholder="Max amount" className={`${filterInputClass} w-28`} aria-label="Maximum amount" />
+        <label className="flex items-center space-x-2 text-gray-300 px-2 py-1">
+          <input type="checkbox" checked={groupByAccount} onChange={event => setGroupByAccount(event.target.checked)} />
+          <span>Group by account</span>
+        </label>
+        {hasFilters && (
+          <button onClick={() => setFilters(EMPTY_LEDGER_FILTERS)} className="text-gray-400 hover:text-white px-2 py-1">
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <div className="min-w-[50rem] text-sm">
+          <div className={`${GRID_COLUMNS} border-b border-gray-600`} role="row">
+            {COLUMNS.map(column => (
+              <button
+                key={column.key}
+                onClick={() => toggleSort(column.key)}
+                className={`py-2 px-3 text-gray-300 hover:text-white ${column.numeric ? 'text-right' : 'text-left'}`}
+                aria-sort={sort.key === column.key ? (sort.direction === 'asc' ? 'ascending' : 'descending') : 'none'}
+              >
+                {column.label}
+                {sort.key === column.key && <span className="ml-1">{sort.direction === 'asc' ? '▲' : '▼'}</span>}
+              </button>
+            ))}
+          </div>
+
+          <div
+            className="overflow-y-auto"
+            style={{ maxHeight: VIEWPORT_HEIGHT }}
+            onScroll={event => setScrollTop(event.currentTarget.scrollTop)}
+          >
+            <div style={{ height: rows.length * ROW_HEIGHT, position: 'relative' }}>
+              <div style={{ transform: `translateY(${firstRow * ROW_HEIGHT}px)` }}>
+                {visibleRows.map(renderRow)}
+              </div>
+            </div>
+            {rows.length === 0 && <p className="text-center text-gray-400 py-6">No entries match the current filters.</p>}
+          </div>
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-400">
+        Showing {totals.count} of {entries.length} entries · Debits {formatAmount(totals.debit)} · Credits {formatAmount(totals.credit)} · Net {formatAmount(totals.net)}
+      </p>
+    </div>
+  );
+};
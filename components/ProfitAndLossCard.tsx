@@ -0,0 +1,26 @@
+import React from 'react';
+import { ProfitAndLoss } from '../services/accountingReports';
+import { formatAmount } from '../services/ledgerView';
+import { ReportCardFrame } from './ReportCardFrame';
+import { StatementSection } from './StatementSection';
+
+interface ProfitAndLossCardProps {
+  report: ProfitAndLoss & { date_range: { from: string; to: string } };
+  onClose?: () => void;
+}
+
+export const ProfitAndLossCard: React.FC<ProfitAndLossCardProps> = ({ report, onClose }) => (
+  <ReportCardFrame title="Profit and Loss" subtitle={`${report.date_range.from} – ${report.date_range.to}`} onClose={onClose}>
+    <StatementSection section={report.revenue} />
+    <StatementSection section={report.cost_of_goods_sold} />
+    <div className="flex justify-between text-sm font-semibold text-blue-300 mb-4">
+      <span>Gross Profit{report.gross_margin_percent !== null && ` (${report.gross_margin_percent}%)`}</span>
+      <span className="tabular-nums">{formatAmount(report.gross_profit)}</span>
+    </div>
+    <StatementSection section={report.operating_expenses} />
+    <div className={`flex justify-between font-semibold border-t border-gray-500 pt-2 ${report.net_profit >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+      <span>Net {report.net_profit >= 0 ? 'Profit' : 'Loss'}{report.net_margin_percent !== null && ` (${report.net_margin_percent}%)`}</span>
+      <span className="tabular-nums">{formatAmount(report.net_profit)}</span>
+    </div>
+  </ReportCardFrame>
+);
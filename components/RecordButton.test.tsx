@@ -0,0 +1,52 @@
+// @vitest-environment jsdom
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AssistantState } from '../types';
+import { RecordButton } from './RecordButton';
+
+afterEach(cleanup);
+
+const renderPushToTalk = (props: { isMuted?: boolean; isTalking?: boolean } = {}) => {
+  const handlers = { onClick: vi.fn(), onTalkStart: vi.fn(), onTalkEnd: vi.fn(), onToggleMute: vi.fn() };
+  render(<RecordButton state={AssistantState.LISTENING} isConversationActive isPushToTalk {...props} {...handlers} />);
+  return handlers;
+};
+
+describe('RecordButton', () => {
+  it('starts a turn while held and ends it on release', () => {
+    const { onTalkStart, onTalkEnd, onClick } = renderPushToTalk();
+
+    fireEvent.pointerDown(screen.getByLabelText('Hold to talk'));
+    expect(onTalkStart).toHaveBeenCalledTimes(1);
+    fireEvent.pointerUp(screen.getByLabelText('Hold to talk'));
+    expect(onTalkEnd).toHaveBeenCalledTimes(1);
+    expect(onClick).not.toHaveBeenCalled();
+    expect(screen.getByText('Hold Space or the button to talk')).toBeTruthy();
+  });
+
+  it('shows a held turn and hangs up from the side button', () => {
+    const { onClick } = renderPushToTalk({ isTalking: true });
+
+    expect(screen.getByLabelText('Hold to talk').getAttribute('aria-pressed')).toBe('true');
+    fireEvent.click(screen.getByLabelText('End conversation'));
+    expect(onClick).toHaveBeenCalled();
+  });
+
+  it('disables talking while muted', () => {
+    const { onToggleMute } = renderPushToTalk({ isMuted: true });
+
+    expect((screen.getByLabelText('Hold to talk') as HTMLButtonElement).disabled).toBe(true);
+    expect(screen.getByText('Muted')).toBeTruthy();
+    fireEvent.click(screen.getByLabelText('Unmute microphone'));
+    expect(onToggleMute).toHaveBeenCalled();
+  });
+
+  it('offers mute alongside hanging up in hands-free mode', () => {
+    const onToggleMute = vi.fn();
+    render(<RecordButton state={AssistantState.LISTENING} isConversationActive onClick={vi.fn()} onToggleMute={onToggleMute} />);
+
+    expect(screen.queryByLabelText('Hold to talk')).toBeNull();
+    fireEvent.click(screen.getByLabelText('Mute microphone'));
+    expect(onToggleMute).toHaveBeenCalled();
+  });
+});
@@ -1,20 +1,34 @@
 import React from 'react';
 import { AssistantState } from '../types';
+import { PUSH_TO_TALK_KEY } from '../hooks/usePushToTalkKey';
 
 interface RecordButtonProps {
   state: AssistantState;
   isConversationActive: boolean;
+  // Starts or ends the conversation
   onClick: () => void;
+  isPushToTalk?: boolean;
+  isMuted?: boolean;
+  isTalking?: boolean;
+  onTalkStart?: () => void;
+  onTalkEnd?: () => void;
+  onToggleMute?: () => void;
 }
 
-const MicIcon = () => (
-  <svg width="24" height="24" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg" className="h-8 w-8">
+const MicIcon = ({ className = "h-8 w-8" }: { className?: string }) => (
+  <svg width="24" height="24" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg" className={className}>
     <path d="M12 1a3 3 0 0 0-3 3v8a3 3 0 0 0 6 0V4a3 3 0 0 0-3-3zM19 10v2a7 7 0 0 1-14 0v-2H3v2a9 9 0 0 0 8 8.94V23h2v-2.06A9 9 0 0 0 21 12v-2h-2z" fill="currentColor"/>
   </svg>
 );
 
-const HangUpIcon = () => (
-    <svg width="24" height="24" viewBox="0 0 24 24" fill="currentColor" xmlns="http://www.w3.org/2000/svg" className="h-8 w-8">
+const MicOffIcon = ({ className = "h-8 w-8" }: { className?: string }) => (
+  <svg width="24" height="24" viewBox="0 0 24 24" fill="currentColor" xmlns="http://www.w3.org/2000/svg" className={className}>
+    <path d="M19 11h-1.7c0 .74-.16 1.43-.43 2.05l1.23 1.23c.56-.98.9-2.09.9-3.28zm-4.02.17c0-.06.02-.11.02-.17V5c0-1.66-1.34-3-3-3S9 3.34 9 5v.18l5.98 5.99zM4.27 3L3 4.27l6.01 6.01V11c0 1.66 1.33 3 2.99 3 .22 0 .44-.03.65-.08l1.66 1.66c-.71.33-1.5.52-2.31.52-2.76 0-5.3-2.1-5.3-5.1H5c0 3.41 2.72 6.23 6 6.72V21h2v-3.28c.91-.13 1.77-.45 2.54-.9L19.73 21 21 19.73 4.27 3z"/>
+  </svg>
+);
+
+const HangUpIcon = ({ className = "h-8 w-8" }: { className?: string }) => (
+    <svg width="24" height="24" viewBox="0 0 24 24" fill="currentColor" xmlns="http://www.w3.org/2000/svg" className={className}>
         <path d="M6.62 10.79c1.44 2.83 3.76 5.14 6.59 6.59l2.2-2.2c.27-.27.67-.36 1.02-.24c1.12.37 2.33.57 3.57.57c.55 0 1 .45 1 1V20c0 .55-.45 1-1 1c-9.39 0-17-7.61-17-17c0-.55.45-1 1-1h3.5c.55 0 1 .45 1 1c0 1.25.2 2.45.57 3.57c.11.35.03.74-.25 1.02l-2.2 2.2z"/>
     </svg>
 );
@@ -27,10 +41,23 @@ const LoadingSpinner = () => (
     </svg>
 );
 
-export const RecordButton: React.FC<RecordButtonProps> = ({ state, isConversationActive, onClick }) => {
+const sideButtonClasses = "rounded-full h-12 w-12 flex items-center justify-center transition-colors focus:outline-none focus:ring-4 focus:ring-opacity-50 shadow";
+
+export const RecordButton: React.FC<RecordButtonProps> = ({
+  state,
+  isConversationActive,
+  onClick,
+  isPushToTalk = false,
+  isMuted = false,
+  isTalking = false,
+  onTalkStart,
+  onTalkEnd,
+  onToggleMute
+}) => {
   const baseClasses = "relative rounded-full h-24 w-24 flex items-center justify-center transition-all duration-300 ease-in-out focus:outline-none focus:ring-4 focus:ring-opacity-50 shadow-lg";
   
   const isProcessing = state === AssistantState.PROCESSING;
+  const isReconnecting = state === AssistantState.RECONNECTING;
 
   if (!isConversationActive) {
       return (
@@ -40,9 +67,70 @@ export const RecordButton: React.FC<RecordButtonProps> = ({ state, isConversatio
       );
   }
 
-  return (
-    <button onClick={onClick} className={`${baseClasses} bg-red-600 hover:bg-red-700 text-white focus:ring-red-400`} disabled={isProcessing} aria-label="End conversation">
-      {isProcessing ? <LoadingSpinner /> : <HangUpIcon />}
+  if (isReconnecting) {
+      // Still clickable so the user can give up on the reconnect and hang up
+      return (
+        <button onClick={onClick} className={`${baseClasses} bg-amber-600 hover:bg-amber-700 text-white focus:ring-amber-400`} aria-label="Reconnecting, click to end conversation">
+          <LoadingSpinner />
+        </button>
+      );
+  }
+
+  const muteButton = (
+    <button
+      onClick={onToggleMute}
+      className={`${sideButtonClasses} ${isMuted ? 'bg-yellow-600 hover:bg-yellow-700 focus:ring-yellow-400' : 'bg-gray-700 hover:bg-gray-600 focus:ring-gray-400'} text-white`}
+      aria-pressed={isMuted}
+      aria-label={isMuted ? 'Unmute microphone' : 'Mute microphone'}
+    >
+      {isMuted ? <MicOffIcon className="h-6 w-6" /> : <MicIcon className="h-6 w-6" />}
     </button>
   );
+
+  if (!isPushToTalk) {
+    return (
+      <div className="flex items-center space-x-6">
+        {muteButton}
+        <button onClick={onClick} className={`${baseClasses} bg-red-600 hover:bg-red-700 text-white focus:ring-red-400`} disabled={isProcessing} aria-label="End conversation">
+          {isProcessing ? <LoadingSpinner /> : <HangUpIcon />}
+        </button>
+        {/* Keeps the hang-up button centred */}
+        <div className="h-12 w-12" />
+      </div>
+    );
+  }
+
+  // Push-to-talk: the big button is held for each turn and hanging up moves to the side
+  const talkColour = isMuted
+    ? 'bg-gray-600 text-gray-300 cursor-not-allowed'
+    : isTalking
+      ? 'bg-green-600 text-white ring-4 ring-green-400 scale-110'
+      : 'bg-blue-600 hover:bg-blue-700 text-white focus:ring-blue-400';
+
+  return (
+    <div className="flex flex-col items-center space-y-2">
+      <div className="flex items-center space-x-6">
+        {muteButton}
+        <button
+          onPointerDown={onTalkStart}
+          onPointerUp={onTalkEnd}
+          onPointerLeave={onTalkEnd}
+          onPointerCancel={onTalkEnd}
+          onContextMenu={e => e.preventDefault()}
+          className={`${baseClasses} ${talkColour} select-none touch-none`}
+          disabled={isProcessing || isMuted}
+          aria-pressed={isTalking}
+          aria-label="Hold to talk"
+        >
+          {isProcessing ? <LoadingSpinner /> : isMuted ? <MicOffIcon /> : <MicIcon />}
+        </button>
+        <button onClick={onClick} className={`${sideButtonClasses} bg-red-600 hover:bg-red-700 text-white focus:ring-red-400`} aria-label="End conversation">
+          <HangUpIcon className="h-6 w-6" />
+        </button>
+      </div>
+      <p className="text-xs text-gray-400">
+        {isMuted ? 'Muted' : isTalking ? 'Listening to you...' : `Hold ${PUSH_TO_TALK_KEY} or the button to talk`}
+      </p>
+    </div>
+  );
 };
\ No newline at end of file
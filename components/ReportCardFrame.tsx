@@ -0,0 +1,46 @@
+import React from 'react';
+import { formatAmount } from '../services/ledgerView';
+
+interface ReportCardFrameProps {
+  title: string;
+  subtitle?: string;
+  // Omitted when the card is shown read-only, e.g. in a reopened conversation
+  onClose?: () => void;
+  children: React.ReactNode;
+}
+
+// Shared chrome for the accounting statement cards
+export const ReportCardFrame: React.FC<ReportCardFrameProps> = ({ title, subtitle, onClose, children }) => (
+  <div className="w-full bg-indigo-900/20 border border-indigo-500/30 rounded-lg p-4">
+    <div className="flex items-start justify-between mb-4">
+      <div>
+        <h3 className="text-indigo-300 font-semibold">{title}</h3>
+        {subtitle && <p className="text-xs text-gray-400 mt-1">{subtitle}</p>}
+      </div>
+      {onClose && (
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-white transition-colors"
+          aria-label={`Close ${title}`}
+        >
+          <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
+            <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+          </svg>
+        </button>
+      )}
+    </div>
+    {children}
+  </div>
+);
+
+interface BalanceCheckProps {
+  isBalanced: boolean;
+  difference: number;
+  label: string;
+}
+
+export const BalanceCheck: React.FC<BalanceCheckProps> = ({ isBalanced, difference, label }) => (
+  <p className={`mt-3 text-sm ${isBalanced ? 'text-green-400' : 'text-red-400'}`}>
+    {isBalanced ? `✓ ${label}` : `✗ Out of balance by ${formatAmount(difference)}`}
+  </p>
+);
@@ -0,0 +1,128 @@
+import React from 'react';
+import { RegisteredTool, ToolPolicy } from '../services/toolRegistry';
+import { TOOL_POLICY_LABELS, resolveToolPolicy } from '../services/toolConfirmation';
+import { formatToolName } from '../services/export/exportTypes';
+import {
+  VOICE_DETECTION_LABELS,
+  VOICE_DURATION_RANGES,
+  VOICE_SENSITIVITY_LABELS,
+  VoiceActivitySettings,
+  VoiceDetectionMode,
+  VoiceSensitivity
+} from '../services/voiceActivity';
+
+interface SettingsPanelProps {
+  tools: RegisteredTool[];
+  toolPolicies: Record<string, ToolPolicy>;
+  onToolPoliciesChange: (policies: Record<string, ToolPolicy>) => void;
+  voiceActivity: VoiceActivitySettings;
+  onVoiceActivityChange: (settings: VoiceActivitySettings) => void;
+  onClose: () => void;
+}
+
+const POLICIES: ToolPolicy[] = ['auto', 'confirm', 'deny'];
+const DETECTION_MODES: VoiceDetectionMode[] = ['server', 'client', 'pushToTalk'];
+const SENSITIVITIES: VoiceSensitivity[] = ['low', 'medium', 'high'];
+
+const SELECT_CLASS = "bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ tools, toolPolicies, onToolPoliciesChange, voiceActivity, onVoiceActivityChange, onClose }) => {
+  const setVoiceActivity = (partial: Partial<VoiceActivitySettings>) => onVoiceActivityChange({ ...voiceActivity, ...partial });
+
+  const setPolicy = (tool: RegisteredTool, policy: ToolPolicy) => {
+    const next = { ...toolPolicies };
+    // Store only real overrides, so a tool keeps following its default when that changes
+    if (policy === (tool.policy ?? 'auto')) {
+      delete next[tool.name];
+    } else {
+      next[tool.name] = policy;
+    }
+    onToolPoliciesChange(next);
+  };
+
+  return (
+    <aside className="fixed inset-y-0 right-0 z-20 w-96 bg-gray-800 border-l border-gray-700 shadow-xl flex flex-col">
+      <div className="flex items-center justify-between p-4 border-b border-gray-700">
+        <h2 className="text-lg font-semibold text-white">Settings</h2>
+        <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors" aria-label="Close settings">
+          <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
+            <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex-grow overflow-y-auto">
+        <section className="p-4">
+          <h3 className="text-sm font-semibold text-gray-200">Tool permissions</h3>
+          <p className="text-xs text-gray-400 mt-1 mb-3">Choose which tools the assistant may run on its own, which need your approval, and which it may not use.</p>
+          <ul className="space-y-2">
+            {tools.map(tool => (
+              <li key={tool.name} className="flex items-center justify-between space-x-3">
+                <span className="text-sm text-gray-100" title={tool.description}>{formatToolName(tool.name)}</span>
+                <select
+                  value={resolveToolPolicy(tool, toolPolicies)}
+                  onChange={e => setPolicy(tool, e.target.value as ToolPolicy)}
+                  className={SELECT_CLASS}
+                  aria-label={`Permission for ${formatToolName(tool.name)}`}
+                >
+                  {POLICIES.map(policy => <option key={policy} value={policy}>{TOOL_POLICY_LABELS[policy]}</option>)}
+                </select>
+              </li>
+            ))}
+          </ul>
+        </section>
+
+        <section className="p-4 border-t border-gray-700">
+          <h3 className="text-sm font-semibold text-gray-200">Voice detection</h3>
+          <p className="text-xs text-gray-400 mt-1 mb-3">How the assistant tells when you start and stop talking. With push to talk, hold Space or the microphone button while you speak. Changes take full effect from the next conversation.</p>
+          <div className="space-y-3">
+            <label className="flex items-center justify-between space-x-3">
+              <span className="text-sm text-gray-100">Turn taking</span>
+              <select
+                value={voiceActivity.detection}
+                onChange={e => setVoiceActivity({ detection: e.target.value as VoiceDetectionMode })}
+                className={SELECT_CLASS}
+              >
+                {DETECTION_MODES.map(mode => <option key={mode} value={mode}>{VOICE_DETECTION_LABELS[mode]}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center justify-between space-x-3">
+              <span className="text-sm text-gray-100">Sensitivity</span>
+              <select
+                value={voiceActivity.sensitivity}
+                onChange={e => setVoiceActivity({ sensitivity: e.target.value as VoiceSensitivity })}
+                className={SELECT_CLASS}
+              >
+                {SENSITIVITIES.map(sensitivity => <option key={sensitivity} value={sensitivity}>{VOICE_SENSITIVITY_LABELS[sensitivity]}</option>)}
+              </select>
+            </label>
+            <label className="block">
+              <span className="flex justify-between text-sm text-gray-100">
+                Silence before your turn ends <span className="text-gray-400">{voiceActivity.silenceDurationMs} ms</span>
+              </span>
+              <input
+                type="range"
+                {...VOICE_DURATION_RANGES.silenceDurationMs}
+                value={voiceActivity.silenceDurationMs}
+                onChange={e => setVoiceActivity({ silenceDurationMs: Number(e.target.value) })}
+                className="w-full accent-blue-500"
+              />
+            </label>
+            <label className="block">
+              <span className="flex justify-between text-sm text-gray-100">
+                Speech before your turn starts <span className="text-gray-400">{voiceActivity.minSpeechMs} ms</span>
+              </span>
+              <input
+                type="range"
+                {...VOICE_DURATION_RANGES.minSpeechMs}
+                value={voiceActivity.minSpeechMs}
+                onChange={e => setVoiceActivity({ minSpeechMs: Number(e.target.value) })}
+                className="w-full accent-blue-500"
+              />
+            </label>
+          </div>
+        </section>
+      </div>
+    </aside>
+  );
+};
@@ -0,0 +1,26 @@
+import React from 'react';
+import { ReportSection } from '../services/accountingReports';
+import { formatAmount } from '../services/ledgerView';
+
+interface StatementSectionProps {
+  section: ReportSection;
+}
+
+// One block of a P&L or balance sheet: account lines followed by the section total
+export const StatementSection: React.FC<StatementSectionProps> = ({ section }) => (
+  <div className="mb-4">
+    <h4 className="text-sm font-semibold text-gray-300 border-b border-gray-600 pb-1 mb-1">{section.title}</h4>
+    {section.lines.length === 0 ? (
+      <p className="text-sm text-gray-500 py-1">No activity</p>
+    ) : section.lines.map(line => (
+      <div key={line.account} className="flex justify-between text-sm text-gray-200 py-0.5">
+        <span>{line.account_number ? `${line.account_number} · ` : ''}{line.account}</span>
+        <span className="tabular-nums">{formatAmount(line.amount)}</span>
+      </div>
+    ))}
+    <div className="flex justify-between text-sm font-semibold text-white border-t border-gray-700 mt-1 pt-1">
+      <span>Total {section.title}</span>
+      <span className="tabular-nums">{formatAmount(section.total)}</span>
+    </div>
+  </div>
+);
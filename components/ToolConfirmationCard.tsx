@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { PendingToolConfirmation } from '../services/liveConversation';
+import { JsonSchema } from '../services/toolRegistry';
+import { formatToolName } from '../services/export/exportTypes';
+
+interface ToolConfirmationCardProps {
+  confirmation: PendingToolConfirmation;
+  onApprove: (args?: Record<string, unknown>) => void;
+  onReject: () => void;
+}
+
+type Draft = Record<string, string | boolean>;
+
+const isStructured = (schema?: JsonSchema) => schema?.type === 'array' || schema?.type === 'object';
+
+// Every argument the schema knows about, then any extra ones the model sent
+const fieldNames = (confirmation: PendingToolConfirmation) => {
+  const declared = Object.keys(confirmation.parameters.properties ?? {});
+  return [...declared, ...Object.keys(confirmation.args).filter(name => !declared.includes(name))];
+};
+
+const toDraft = (confirmation: PendingToolConfirmation): Draft =>
+  Object.fromEntries(fieldNames(confirmation).map(name => {
+    const schema = confirmation.parameters.properties?.[name];
+    const value = confirmation.args[name];
+    if (schema?.type === 'boolean') return [name, value === true];
+    if (value === undefined) return [name, ''];
+    return [name, isStructured(schema) || typeof value === 'object' ? JSON.stringify(value) : String(value)];
+  }));
+
+// Turns the edited strings back into typed arguments; empty optional fields are left out
+const fromDraft = (confirmation: PendingToolConfirmation, draft: Draft): { args?: Record<string, unknown>; error?: string } => {
+  const args: Record<string, unknown> = {};
+  for (const [name, raw] of Object.entries(draft)) {
+    const schema = confirmation.parameters.properties?.[name];
+    if (typeof raw === 'boolean') {
+      args[name] = raw;
+      continue;
+    }
+    if (raw.trim() === '') continue;
+    if (schema?.type === 'number' || schema?.type === 'integer') {
+      const value = Number(raw);
+      if (!Number.isFinite(value)) return { error: `${name} must be a number` };
+      args[name] = value;
+    } else if (isStructured(schema) || (!schema && typeof confirmation.args[name] === 'object')) {
+      try {
+        args[name] = JSON.parse(raw);
+      } catch {
+        return { error: `${name} must be valid JSON` };
+      }
+    } else {
+      args[name] = raw;
+    }
+  }
+  return { args };
+};
+
+const formatValue = (value: unknown) =>
+  value === undefined ? <span className="text-gray-500 italic">not set</span> : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+// Shown while a tool call waits for the user; the model gets the decision as the call's result
+export const ToolConfirmationCard: React.FC<ToolConfirmationCardProps> = ({ confirmation, onApprove, onReject }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState<Draft>(() => toDraft(confirmation));
+  const [error, setError] = useState<string | null>(null);
+  const title = formatToolName(confirmation.toolName);
+
+  const approve = () => {
+    if (!isEditing) {
+      onApprove();
+      return;
+    }
+    const parsed = fromDraft(confirmation, draft);
+    if (parsed.error) {
+      setError(parsed.error);
+      return;
+    }
+    onApprove(parsed.args);
+  };
+
+  const renderInput = (name: string) => {
+    const schema = confirmation.parameters.properties?.[name];
+    const value = draft[name];
+    const inputClasses = 'w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm text-gray-100 focus:outline-none focus:ring-2 focus:ring-amber-500';
+    const setValue = (next: string | boolean) => {
+      setDraft(current => ({ ...current, [name]: next }));
+      setError(null);
+    };
+
+    if (typeof value === 'boolean') {
+      return <input type="checkbox" checked={value} onChange={e => setValue(e.target.checked)} aria-label={name} />;
+    }
+    if (schema?.enum) {
+      return (
+        <select value={value} onChange={e => setValue(e.target.value)} className={inputClasses} aria-label={name}>
+          <option value="">—</option>
+          {schema.enum.map(option => <option key={option} value={option}>{option}</option>)}
+        </select>
+      );
+    }
+    if (isStructured(schema)) {
+      return <textarea value={value} onChange={e => setValue(e.target.value)} rows={2} className={`${inputClasses} font-mono`} aria-label={name} />;
+    }
+    const isNumeric = schema?.type === 'number' || schema?.type === 'integer';
+    return <input type={isNumeric ? 'number' : 'text'} value={value} onChange={e => setValue(e.target.value)} className={inputClasses} aria-label={name} />;
+  };
+
+  return (
+    <div className="w-full bg-amber-900/20 border border-amber-500/40 rounded-lg p-4" role="alertdialog" aria-label={`Confirm ${title}`}>
+      <div className="mb-3">
+        <h3 className="text-amber-300 font-semibold">Run {title}?</h3>
+        <p className="text-xs text-gray-400 mt-1">{confirmation.description}</p>
+      </div>
+
+      <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-2 text-sm mb-3">
+        {fieldNames(confirmation).map(name => (
+          <React.Fragment key={name}>
+            <dt className="font-mono text-gray-400 pt-1">{name}</dt>
+            <dd className="text-gray-100 break-all">{isEditing ? renderInput(name) : formatValue(confirmation.args[name])}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+
+      {error && <p className="text-sm text-red-400 mb-3">{error}</p>}
+
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-gray-400">Or say “yes” or “no”.</p>
+        <div className="flex space-x-2">
+          <button
+            onClick={onReject}
+            className="px-3 py-1 text-sm rounded bg-gray-700 hover:bg-gray-600 text-gray-100 transition-colors"
+          >
+            Reject
+          </button>
+          {!isEditing && (
+            <button
+              onClick={() => setIsEditing(true)}
+              className="px-3 py-1 text-sm rounded bg-gray-700 hover:bg-gray-600 text-gray-100 transition-colors"
+            >
+              Edit
+            </button>
+          )}
+          <button
+            onClick={approve}
+            className="px-3 py-1 text-sm rounded bg-amber-600 hover:bg-amber-700 text-white transition-colors"
+          >
+            {isEditing ? 'Run with changes' : 'Approve'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
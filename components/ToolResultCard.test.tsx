@@ -0,0 +1,59 @@
+// @vitest-environment jsdom
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ToolResultCard, registerToolResultRenderer } from './ToolResultCard';
+
+afterEach(cleanup);
+
+const isConversion = (result: unknown): result is { amount: number; currency: string } =>
+  typeof result === 'object' && result !== null
+  && typeof (result as Record<string, unknown>).amount === 'number'
+  && typeof (result as Record<string, unknown>).currency === 'string';
+
+describe('ToolResultCard', () => {
+  it('lists the fields of results from tools without their own card', () => {
+    render(<ToolResultCard toolName="budget_tracker" result={{ category: 'marketing', status: 'Over Budget' }} />);
+    expect(screen.getByText('Budget Tracker')).toBeTruthy();
+    expect(screen.getByText('Status')).toBeTruthy();
+    expect(screen.getByText('Over Budget')).toBeTruthy();
+  });
+
+  it('uses the renderer registered for the tool', () => {
+    const onClose = vi.fn();
+    registerToolResultRenderer('currency_converter', isConversion, ({ result, onClose }) => (
+      <button onClick={onClose}>{`${result.amount} ${result.currency}`}</button>
+    ));
+
+    render(<ToolResultCard toolName="currency_converter" result={{ amount: 12, currency: 'EUR' }} onClose={onClose} />);
+    fireEvent.click(screen.getByText('12 EUR'));
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it('falls back to the field list when the result does not fit the registered card', () => {
+    render(<ToolResultCard toolName="fetch_balance_sheet" result={{ as_of_date: '2025-03-31', assets: 'not a section' }} />);
+    expect(screen.getByText('Fetch Balance Sheet')).toBeTruthy();
+    expect(screen.getByText('As of date')).toBeTruthy();
+  });
+
+  it('shows a ledger result without a date range or summary as a field list', () => {
+    render(<ToolResultCard toolName="fetch_general_ledger_report" result={{ report_type: 'General Ledger Report', entries: [] }} />);
+    expect(screen.getByText('Fetch General Ledger Report')).toBeTruthy();
+    expect(screen.getByText('Report type')).toBeTruthy();
+  });
+
+  it('asks about a ledger voucher through the follow-up callback', () => {
+    const onFollowUp = vi.fn();
+    const ledger = {
+      report_type: 'General Ledger Report',
+      total_entries: 1,
+      date_range: { from: '2025-01-01', to: '2025-01-31' },
+      account_filter: 'All accounts',
+      summary: { total_debits: 100, total_credits: 0, net_balance: 100 },
+      entries: [{ postingDate: '2025-01-05', account: 'Cash', debit: 100, credit: 0, balance: 100, voucherType: 'Journal Entry', voucherNo: 'JV-001' }]
+    };
+
+    render(<ToolResultCard toolName="fetch_general_ledger_report" result={ledger} onFollowUp={onFollowUp} />);
+    fireEvent.click(screen.getByText('JV-001'));
+    expect(onFollowUp).toHaveBeenCalledWith(expect.stringContaining('voucher JV-001'));
+  });
+});
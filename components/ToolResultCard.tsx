@@ -0,0 +1,86 @@
+import React from 'react';
+import { LedgerEntry } from '../services/tools/generalLedger';
+import { AgingReport, BalanceSheet, ProfitAndLoss, ReportSection, TrialBalance } from '../services/accountingReports';
+import { LedgerReportResult, isLedgerReport } from '../services/export/exportTypes';
+import { LedgerReportCard } from './LedgerReportCard';
+import { TrialBalanceCard } from './TrialBalanceCard';
+import { AgingReportCard } from './AgingReportCard';
+import { ProfitAndLossCard } from './ProfitAndLossCard';
+import { BalanceSheetCard } from './BalanceSheetCard';
+import { GenericToolResultCard } from './GenericToolResultCard';
+
+export interface ToolResultRendererProps<TResult = unknown> {
+  // A successful result of the tool the renderer is registered for
+  result: TResult;
+  // Omitted when the card is shown read-only, e.g. in a reopened conversation
+  onClose?: () => void;
+  // Sends a follow-up question to the assistant, e.g. about a row of the result
+  onFollowUp?: (text: string) => void;
+}
+
+export type ToolResultRenderer<TResult = unknown> = React.FC<ToolResultRendererProps<TResult>>;
+
+// Results reopened from history may predate the current shape, so every renderer
+// states what it can draw and anything else falls back to the generic card
+export type ToolResultGuard<TResult> = (result: unknown) => result is TResult;
+
+type DatedResult = { date_range: { from: string; to: string } };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isSection = (value: unknown): value is ReportSection =>
+  isRecord(value) && Array.isArray(value.lines) && typeof value.total === 'number';
+
+const hasDateRange = (result: Record<string, unknown>) =>
+  isRecord(result.date_range) && typeof result.date_range.from === 'string' && typeof result.date_range.to === 'string';
+
+const isTrialBalance = (result: unknown): result is TrialBalance & DatedResult =>
+  isRecord(result) && hasDateRange(result) && Array.isArray(result.rows) && isRecord(result.totals);
+
+const isAgingReport = (result: unknown): result is AgingReport & { report_type: string } =>
+  isRecord(result) && typeof result.report_type === 'string' && typeof result.as_of_date === 'string'
+  && Array.isArray(result.parties) && isRecord(result.totals);
+
+const isProfitAndLoss = (result: unknown): result is ProfitAndLoss & DatedResult =>
+  isRecord(result) && hasDateRange(result)
+  && isSection(result.revenue) && isSection(result.cost_of_goods_sold) && isSection(result.operating_expenses);
+
+const isBalanceSheet = (result: unknown): result is BalanceSheet & { as_of_date: string } =>
+  isRecord(result) && typeof result.as_of_date === 'string'
+  && isSection(result.assets) && isSection(result.liabilities) && isSection(result.equity);
+
+const voucherQuestion = (entry: LedgerEntry) =>
+  `Tell me about voucher ${entry.voucherNo} (${entry.voucherType}) posted to ${entry.account}${entry.postingDate ? ` on ${entry.postingDate}` : ''}. What does it record and is anything unusual about it?`;
+
+const LedgerRenderer: ToolResultRenderer<LedgerReportResult> = ({ result, onClose, onFollowUp }) => (
+  <LedgerReportCard ledgerData={result} onClose={onClose} onVoucherSelect={onFollowUp && (entry => onFollowUp(voucherQuestion(entry)))} />
+);
+
+// Draws the result with the renderer when the guard accepts it, otherwise returns null
+type RegisteredRenderer = (props: ToolResultRendererProps) => React.ReactElement | null;
+
+const guarded = <TResult,>(isResult: ToolResultGuard<TResult>, Renderer: ToolResultRenderer<TResult>): RegisteredRenderer =>
+  ({ result, ...props }) => isResult(result) ? <Renderer result={result} {...props} /> : null;
+
+const renderers = new Map<string, RegisteredRenderer>([
+  ['fetch_general_ledger_report', guarded(isLedgerReport, LedgerRenderer)],
+  ['fetch_trial_balance', guarded(isTrialBalance, ({ result, onClose }) => <TrialBalanceCard report={result} onClose={onClose} />)],
+  ['fetch_ar_aging', guarded(isAgingReport, ({ result, onClose }) => <AgingReportCard report={result} onClose={onClose} />)],
+  ['fetch_ap_aging', guarded(isAgingReport, ({ result, onClose }) => <AgingReportCard report={result} onClose={onClose} />)],
+  ['fetch_profit_and_loss', guarded(isProfitAndLoss, ({ result, onClose }) => <ProfitAndLossCard report={result} onClose={onClose} />)],
+  ['fetch_balance_sheet', guarded(isBalanceSheet, ({ result, onClose }) => <BalanceSheetCard report={result} onClose={onClose} />)]
+]);
+
+// Gives a tool its own result card; tools without one, or results the guard rejects, get the generic field list
+export const registerToolResultRenderer = <TResult,>(toolName: string, isResult: ToolResultGuard<TResult>, renderer: ToolResultRenderer<TResult>) => {
+  renderers.set(toolName, guarded(isResult, renderer));
+};
+
+interface ToolResultCardProps extends ToolResultRendererProps {
+  toolName: string;
+}
+
+// Picks the result card for a tool by its name
+export const ToolResultCard: React.FC<ToolResultCardProps> = ({ toolName, ...props }) =>
+  renderers.get(toolName)?.(props) ?? <GenericToolResultCard toolName={toolName} result={props.result} onClose={props.onClose} />;
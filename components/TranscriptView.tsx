@@ -0,0 +1,93 @@
+import React, { useEffect, useRef } from 'react';
+import { TranscriptEntry } from '../types';
+import { splitInterruptedAnswer } from '../services/assistantGeneration';
+
+interface TranscriptViewProps {
+  transcript: TranscriptEntry[];
+  statusMessage: string;
+  isUsingTools: boolean;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const formatToolName = (name: string) => name.replace(/_/g, ' ').toUpperCase();
+
+const TurnBubble: React.FC<{ entry: Extract<TranscriptEntry, { kind: 'user' | 'assistant' }> }> = ({ entry }) => {
+  const isUser = entry.kind === 'user';
+  const interrupted = entry.kind === 'assistant' ? splitInterruptedAnswer(entry) : null;
+  return (
+    <div className={`flex ${isUser ? 'justify-end' : 'justify-start'}`}>
+      <div className={`max-w-[80%] rounded-lg px-3 py-2 ${isUser ? 'bg-blue-600/30' : 'bg-gray-700/50'}`}>
+        <p className={`text-xs mb-1 ${isUser ? 'text-gray-400' : 'text-blue-400'}`}>
+          {isUser ? 'You' : 'Assistant'}{entry.source === 'voice' ? ' (spoken)' : ''} · {formatTime(entry.timestamp)}
+          {interrupted && <span className="text-amber-400"> · interrupted</span>}
+        </p>
+        {interrupted ? (
+          <p className="text-gray-100 whitespace-pre-wrap">
+            {interrupted.heard}
+            {interrupted.unheard && (
+              <span className="text-gray-500 line-through" title="Not played before you interrupted">{interrupted.heard ? ' ' : ''}{interrupted.unheard}</span>
+            )}
+          </p>
+        ) : (
+          <p className="text-gray-100 whitespace-pre-wrap">{entry.text}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const ToolEntryRow: React.FC<{ entry: Extract<TranscriptEntry, { kind: 'tool_call' | 'tool_result' }> }> = ({ entry }) => {
+  const isCall = entry.kind === 'tool_call';
+  const isError = entry.kind === 'tool_result' && !!entry.error;
+  const label = isCall ? 'Called' : isError ? 'Failed' : 'Result from';
+  const payload = isCall ? entry.args : entry.result;
+
+  return (
+    <details className={`text-sm rounded px-3 py-2 border ${isError ? 'bg-red-900/20 border-red-500/30' : 'bg-green-900/20 border-green-500/30'}`}>
+      <summary className={`cursor-pointer ${isError ? 'text-red-300' : 'text-green-300'}`}>
+        {isCall ? '📊' : isError ? '⚠️' : '✅'} {label} {formatToolName(entry.name)}
+        <span className="text-xs text-gray-500 ml-2">
+          {formatTime(entry.timestamp)}
+          {entry.kind === 'tool_result' && !!entry.durationMs && ` · ${entry.durationMs} ms`}
+        </span>
+        {isError && entry.kind === 'tool_result' && <span className="block text-xs text-red-200 mt-1">{entry.error}</span>}
+      </summary>
+      <pre className="mt-2 text-xs text-green-200 whitespace-pre-wrap max-h-48 overflow-y-auto">{JSON.stringify(payload, null, 2)}</pre>
+    </details>
+  );
+};
+
+export const TranscriptView: React.FC<TranscriptViewProps> = ({ transcript, statusMessage, isUsingTools }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Keep the latest turn in view
+  useEffect(() => {
+    if (containerRef.current) {
+      containerRef.current.scrollTop = containerRef.current.scrollHeight;
+    }
+  }, [transcript, statusMessage]);
+
+  return (
+    <div className="w-full bg-gray-800/50 rounded-lg border border-gray-700 shadow-inner flex flex-col">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-700 text-sm">
+        <span className="text-blue-400 italic">{statusMessage || 'Transcript'}</span>
+        {isUsingTools && (
+          <span className="flex items-center text-yellow-400">
+            <span className="animate-spin rounded-full h-4 w-4 border-b-2 border-yellow-400 mr-2"></span>
+            Processing with financial tools...
+          </span>
+        )}
+      </div>
+      <div ref={containerRef} className="h-96 overflow-y-auto p-4 space-y-3">
+        {transcript.length === 0 && <p className="text-gray-500 italic">Start talking or type a question to begin.</p>}
+        {transcript.map(entry =>
+          entry.kind === 'user' || entry.kind === 'assistant'
+            ? <TurnBubble key={entry.id} entry={entry} />
+            : <ToolEntryRow key={entry.id} entry={entry} />
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import React from 'react';
+import { TrialBalance } from '../services/accountingReports';
+import { formatAmount } from '../services/ledgerView';
+import { BalanceCheck, ReportCardFrame } from './ReportCardFrame';
+
+interface TrialBalanceCardProps {
+  report: TrialBalance & { date_range: { from: string; to: string } };
+  onClose?: () => void;
+}
+
+export const TrialBalanceCard: React.FC<TrialBalanceCardProps> = ({ report, onClose }) => (
+  <ReportCardFrame title="Trial Balance" subtitle={`${report.date_range.from} – ${report.date_range.to} · ${report.rows.length} accounts`} onClose={onClose}>
+    <div className="overflow-x-auto max-h-96 overflow-y-auto">
+      <table className="w-full text-sm">
+        <thead className="sticky top-0 bg-gray-900">
+          <tr className="border-b border-gray-600 text-gray-300">
+            <th className="text-left py-2 px-3">Account</th>
+            <th className="text-right py-2 px-3">Opening</th>
+            <th className="text-right py-2 px-3">Debit</th>
+            <th className="text-right py-2 px-3">Credit</th>
+            <th className="text-right py-2 px-3">Closing Dr</th>
+            <th className="text-right py-2 px-3">Closing Cr</th>
+          </tr>
+        </thead>
+        <tbody>
+          {report.rows.map(row => (
+            <tr key={row.account} className="border-b border-gray-700/50 text-gray-200 tabular-nums">
+              <td className="py-2 px-3">{row.account_number ? `${row.account_number} · ` : ''}{row.account}</td>
+              <td className="py-2 px-3 text-right">{formatAmount(row.opening_balance)}</td>
+              <td className="py-2 px-3 text-right text-green-400">{formatAmount(row.debit)}</td>
+              <td className="py-2 px-3 text-right text-red-400">{formatAmount(row.credit)}</td>
+              <td className="py-2 px-3 text-right">{row.closing_debit ? formatAmount(row.closing_debit) : ''}</td>
+              <td className="py-2 px-3 text-right">{row.closing_credit ? formatAmount(row.closing_credit) : ''}</td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr className="border-t border-gray-500 font-semibold text-white tabular-nums">
+            <td className="py-2 px-3">Total</td>
+            <td />
+            <td className="py-2 px-3 text-right">{formatAmount(report.totals.debit)}</td>
+            <td className="py-2 px-3 text-right">{formatAmount(report.totals.credit)}</td>
+            <td className="py-2 px-3 text-right">{formatAmount(report.totals.closing_debit)}</td>
+            <td className="py-2 px-3 text-right">{formatAmount(report.totals.closing_credit)}</td>
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+    <BalanceCheck isBalanced={report.is_balanced} difference={report.difference} label="Debits equal credits" />
+  </ReportCardFrame>
+);
@@ -0,0 +1,101 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { TranscriptEntry } from '../types';
+import {
+  clearConversations,
+  deleteConversation,
+  deriveConversationTitle,
+  getConversation,
+  listConversations,
+  saveConversation,
+  StoredConversation
+} from '../services/conversationStore';
+
+// Debounce for autosave; transcription updates arrive many times per second
+const AUTOSAVE_DELAY_MS = 1000;
+
+export const describeStorageFailure = (failure: string) => `${failure}. Your browser may be out of storage space or blocking it.`;
+
+export const useConversationHistory = () => {
+  const [conversations, setConversations] = useState<StoredConversation[]>([]);
+  // Set when loading the list or an autosave fails, which happens without the user asking;
+  // cleared by the next autosave that succeeds
+  const [error, setError] = useState<string | null>(null);
+
+  const fail = useCallback((failure: string, e: unknown) => {
+    console.error(`${failure}:`, e);
+    setError(describeStorageFailure(failure));
+  }, []);
+
+  const refresh = useCallback(async () => {
+    try {
+      setConversations(await listConversations());
+    } catch (e) {
+      fail('Could not load the conversation history', e);
+    }
+  }, [fail]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const save = useCallback(async (conversation: StoredConversation) => {
+    try {
+      await saveConversation(conversation);
+      setError(null);
+    } catch (e) {
+      fail('Could not save the conversation', e);
+      return;
+    }
+    await refresh();
+  }, [fail, refresh]);
+
+  const remove = useCallback(async (id: string) => {
+    await deleteConversation(id);
+    await refresh();
+  }, [refresh]);
+
+  const clearAll = useCallback(async () => {
+    await clearConversations();
+    await refresh();
+  }, [refresh]);
+
+  return { conversations, error, refresh, save, remove, clearAll, open: getConversation };
+};
+
+// Persists the live conversation as it grows, and once more when it ends
+export const useConversationAutosave = (
+  conversationId: string | null,
+  startedAt: number | null,
+  transcript: TranscriptEntry[],
+  save: (conversation: StoredConversation) => Promise<void>
+) => {
+  const pendingRef = useRef<StoredConversation | null>(null);
+
+  const flush = useCallback(() => {
+    const pending = pendingRef.current;
+    pendingRef.current = null;
+    if (pending) {
+      save(pending);
+    }
+  }, [save]);
+
+  useEffect(() => {
+    if (!conversationId || !startedAt || transcript.length === 0) return;
+    pendingRef.current = {
+      id: conversationId,
+      title: deriveConversationTitle(transcript, startedAt),
+      startedAt,
+      updatedAt: Date.now(),
+      transcript
+    };
+    const timer = setTimeout(flush, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [conversationId, startedAt, transcript, flush]);
+
+  // The conversation ended (or a new one started): write the final state right away
+  useEffect(() => {
+    flush();
+  }, [conversationId, flush]);
+
+  useEffect(() => () => flush(), [flush]);
+};
@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react';
+import { LiveConversation, LiveConversationOptions } from '../services/liveConversation';
+
+// React binding for LiveConversation. Options are read once, when the conversation is created.
+export const useGeminiLiveConversation = (options?: LiveConversationOptions) => {
+  const [conversation] = useState(() => new LiveConversation(options));
+  const snapshot = useSyncExternalStore(conversation.subscribe, conversation.getSnapshot);
+
+  // Release the microphone and session when the component unmounts
+  useEffect(() => () => conversation.stop(), [conversation]);
+
+  const toggle = useCallback(() => {
+    if (conversation.isActive) {
+      conversation.stop();
+    } else {
+      conversation.start();
+    }
+  }, [conversation]);
+
+  return {
+    ...snapshot,
+    isConversationActive: conversation.isActive,
+    start: conversation.start,
+    stop: conversation.stop,
+    interrupt: conversation.interrupt,
+    sendText: conversation.sendText,
+    setResponseModality: conversation.setResponseModality,
+    setToolPolicies: conversation.setToolPolicies,
+    setVoiceActivity: conversation.setVoiceActivity,
+    toggleMute: conversation.toggleMute,
+    startTalking: conversation.startTalking,
+    stopTalking: conversation.stopTalking,
+    approveToolCall: conversation.approveToolCall,
+    rejectToolCall: conversation.rejectToolCall,
+    toggle,
+    dismissToolResult: conversation.dismissToolResult,
+    conversation
+  };
+};
@@ -0,0 +1,45 @@
+import { useEffect } from 'react';
+
+export const PUSH_TO_TALK_KEY = 'Space';
+
+// Typing a space in a text field must not open the microphone
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Holding the push-to-talk key calls onStart once and releasing it calls onEnd. Leaving the
+// window while the key is down also ends the turn, since its keyup will never arrive.
+export const usePushToTalkKey = (enabled: boolean, onStart: () => void, onEnd: () => void) => {
+  useEffect(() => {
+    if (!enabled) return;
+    let isHeld = false;
+
+    const release = () => {
+      if (!isHeld) return;
+      isHeld = false;
+      onEnd();
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== PUSH_TO_TALK_KEY || isEditable(e.target)) return;
+      // Keep Space from scrolling the page or clicking a focused button
+      e.preventDefault();
+      if (isHeld) return;
+      isHeld = true;
+      onStart();
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== PUSH_TO_TALK_KEY || !isHeld) return;
+      e.preventDefault();
+      release();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', release);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', release);
+      release();
+    };
+  }, [enabled, onStart, onEnd]);
+};
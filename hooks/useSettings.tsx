@@ -0,0 +1,17 @@
+import { useCallback, useState } from 'react';
+import { AppSettings, loadSettings, saveSettings } from '../services/settingsStore';
+
+// Settings state that is saved on every change
+export const useSettings = () => {
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+
+  const update = useCallback((partial: Partial<AppSettings>) => {
+    setSettings(current => {
+      const next = { ...current, ...partial };
+      saveSettings(next);
+      return next;
+    });
+  }, []);
+
+  return { settings, update };
+};
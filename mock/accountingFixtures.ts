@@ -0,0 +1,312 @@
+import type { AccountBalanceDto, AccountRootType, GeneralLedgerEntryDto, OpenInvoiceDto } from "../services/accountingApiClient";
+
+// Seeded, deterministic books for a small trading company. Every endpoint of the mock server
+// is derived from the same journal, so the trial balance balances and the ledger, P&L,
+// balance sheet and aging reports agree with each other.
+
+export interface MockAccount {
+    name: string;
+    number: string;
+    rootType: AccountRootType;
+    accountType: string;
+}
+
+export interface MockJournalLine {
+    account: string;
+    debit: number;
+    credit: number;
+    party?: string;
+}
+
+export interface MockVoucher {
+    voucherNo: string;
+    voucherType: string;
+    postingDate: string;
+    remarks: string;
+    lines: MockJournalLine[];
+}
+
+export interface MockInvoice {
+    kind: 'receivable' | 'payable';
+    party: string;
+    voucherNo: string;
+    postingDate: string;
+    dueDate: string;
+    amount: number;
+    // Date the invoice was settled in full; null while it is still open at the end of the fixtures
+    paidOn: string | null;
+}
+
+export interface MockBooks {
+    accounts: MockAccount[];
+    vouchers: MockVoucher[];
+    invoices: MockInvoice[];
+}
+
+export const MOCK_COMPANY_ID = '1';
+export const FIXTURE_START = '2024-01-01';
+export const FIXTURE_END = '2025-06-30';
+
+const ACCOUNTS: MockAccount[] = [
+    { name: 'Cash at Bank', number: '1000', rootType: 'Asset', accountType: 'Bank' },
+    { name: 'Accounts Receivable', number: '1100', rootType: 'Asset', accountType: 'Receivable' },
+    { name: 'Inventory', number: '1200', rootType: 'Asset', accountType: 'Stock' },
+    { name: 'Office Equipment', number: '1500', rootType: 'Asset', accountType: 'Fixed Asset' },
+    { name: 'Accumulated Depreciation', number: '1510', rootType: 'Asset', accountType: 'Accumulated Depreciation' },
+    { name: 'Accounts Payable', number: '2000', rootType: 'Liability', accountType: 'Payable' },
+    { name: 'Sales Tax Payable', number: '2100', rootType: 'Liability', accountType: 'Tax' },
+    { name: 'Bank Loan', number: '2500', rootType: 'Liability', accountType: 'Long-term Loan' },
+    { name: "Owner's Capital", number: '3000', rootType: 'Equity', accountType: 'Equity' },
+    { name: 'Product Sales', number: '4000', rootType: 'Income', accountType: 'Income Account' },
+    { name: 'Service Revenue', number: '4100', rootType: 'Income', accountType: 'Income Account' },
+    { name: 'Cost of Goods Sold', number: '5000', rootType: 'Expense', accountType: 'Cost of Goods Sold' },
+    { name: 'Rent Expense', number: '6000', rootType: 'Expense', accountType: 'Expense Account' },
+    { name: 'Salaries and Wages', number: '6100', rootType: 'Expense', accountType: 'Expense Account' },
+    { name: 'Utilities', number: '6200', rootType: 'Expense', accountType: 'Expense Account' },
+    { name: 'Marketing', number: '6300', rootType: 'Expense', accountType: 'Expense Account' },
+    { name: 'Depreciation Expense', number: '6400', rootType: 'Expense', accountType: 'Depreciation' },
+    { name: 'Interest Expense', number: '6500', rootType: 'Expense', accountType: 'Expense Account' }
+];
+
+const CUSTOMERS = ['Northwind Traders', 'Contoso Retail', 'Fabrikam Inc', 'Adventure Works', 'Tailspin Toys', 'Wide World Importers'];
+const SUPPLIERS = ['Acme Supplies', 'Globex Wholesale', 'Initech Components', 'Umbrella Logistics'];
+
+const SALES_TAX_RATE = 0.08;
+
+// mulberry32: small, fast and identical on every run for the same seed
+const createRandom = (seed: number) => () => {
+    seed |= 0;
+    seed = seed + 0x6D2B79F5 | 0;
+    let t = Math.imul(seed ^ seed >>> 15, 1 | seed);
+    t = t + Math.imul(t ^ t >>> 7, 61 | t) ^ t;
+    return ((t ^ t >>> 14) >>> 0) / 4294967296;
+};
+
+const cents = (value: number) => Math.round(value * 100) / 100;
+
+const addDays = (isoDate: string, days: number) => {
+    const date = new Date(`${isoDate}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + days);
+    return date.toISOString().slice(0, 10);
+};
+
+const monthDate = (year: number, month: number, day: number) =>
+    `${year}-${String(month).padStart(2, '0')}-${String(Math.min(day, 28)).padStart(2, '0')}`;
+
+export const generateMockBooks = (seed = 20240101): MockBooks => {
+    const random = createRandom(seed);
+    const between = (min: number, max: number) => cents(min + random() * (max - min));
+    const pick = <T>(items: T[]) => items[Math.floor(random() * items.length)];
+
+    const vouchers: MockVoucher[] = [];
+    const invoices: MockInvoice[] = [];
+    const counters: Record<string, number> = {};
+    const nextNumber = (prefix: string, postingDate: string) => {
+        counters[prefix] = (counters[prefix] ?? 0) + 1;
+        return `${prefix}-${postingDate.slice(0, 4)}-${String(counters[prefix]).padStart(5, '0')}`;
+    };
+    const post = (voucherType: string, prefix: string, postingDate: string, remarks: string, lines: MockJournalLine[]) => {
+        const voucherNo = nextNumber(prefix, postingDate);
+        vouchers.push({ voucherNo, voucherType, postingDate, remarks, lines });
+        return voucherNo;
+    };
+
+    // Opening funding and the equipment the business runs on
+    post('Journal Entry', 'JV', '2024-01-02', 'Owner capital contribution', [
+        { account: 'Cash at Bank', debit: 60000, credit: 0 },
+        { account: "Owner's Capital", debit: 0, credit: 60000 }
+    ]);
+    post('Loan Disbursement', 'LD', '2024-01-03', 'Term loan from First National Bank', [
+        { account: 'Cash at Bank', debit: 40000, credit: 0 },
+        { account: 'Bank Loan', debit: 0, credit: 40000 }
+    ]);
+    post('Purchase Invoice', 'PINV', '2024-01-04', 'Opening stock, paid on delivery', [
+        { account: 'Inventory', debit: 15000, credit: 0 },
+        { account: 'Cash at Bank', debit: 0, credit: 15000 }
+    ]);
+    post('Asset Purchase', 'ACQ', '2024-01-05', 'Office fit-out and computers', [
+        { account: 'Office Equipment', debit: 28800, credit: 0 },
+        { account: 'Cash at Bank', debit: 0, credit: 28800 }
+    ]);
+
+    const [startYear, startMonth] = FIXTURE_START.split('-').map(Number);
+    const [endYear, endMonth] = FIXTURE_END.split('-').map(Number);
+    const monthCount = (endYear - startYear) * 12 + endMonth - startMonth + 1;
+
+    for (let monthIndex = 0; monthIndex < monthCount; monthIndex++) {
+        const year = startYear + Math.floor((startMonth - 1 + monthIndex) / 12);
+        const month = (startMonth - 1 + monthIndex) % 12 + 1;
+        // Business grows roughly 2% a month, with noise
+        const growth = 1 + 0.02 * monthIndex;
+
+        post('Payment Entry', 'PE', monthDate(year, month, 1), 'Monthly office rent', [
+            { account: 'Rent Expense', debit: 3200, credit: 0 },
+            { account: 'Cash at Bank', debit: 0, credit: 3200 }
+        ]);
+        const payroll = between(11000, 12500) * Math.min(growth, 1.25);
+        post('Payment Entry', 'PE', monthDate(year, month, 25), 'Payroll', [
+            { account: 'Salaries and Wages', debit: cents(payroll), credit: 0 },
+            { account: 'Cash at Bank', debit: 0, credit: cents(payroll) }
+        ]);
+        const utilities = between(380, 720);
+        post('Payment Entry', 'PE', monthDate(year, month, 12), 'Electricity, water and internet', [
+            { account: 'Utilities', debit: utilities, credit: 0 },
+            { account: 'Cash at Bank', debit: 0, credit: utilities }
+        ]);
+        const marketing = between(900, 4200);
+        post('Payment Entry', 'PE', monthDate(year, month, 15), 'Online advertising', [
+            { account: 'Marketing', debit: marketing, credit: 0 },
+            { account: 'Cash at Bank', debit: 0, credit: marketing }
+        ]);
+        post('Journal Entry', 'JV', monthDate(year, month, 28), 'Monthly depreciation', [
+            { account: 'Depreciation Expense', debit: 480, credit: 0 },
+            { account: 'Accumulated Depreciation', debit: 0, credit: 480 }
+        ]);
+        const interest = cents(40000 * 0.065 / 12);
+        post('Loan Repayment', 'LR', monthDate(year, month, 20), 'Loan instalment', [
+            { account: 'Bank Loan', debit: 900, credit: 0 },
+            { account: 'Interest Expense', debit: interest, credit: 0 },
+            { account: 'Cash at Bank', debit: 0, credit: cents(900 + interest) }
+        ]);
+
+        // Sales on 30-day customer terms; cost of goods sold runs at roughly 55-62% of the net price
+        const saleCount = 5 + Math.floor(random() * 4);
+        let monthlyCost = 0;
+        for (let i = 0; i < saleCount; i++) {
+            const postingDate = monthDate(year, month, 1 + Math.floor(random() * 27));
+            const customer = pick(CUSTOMERS);
+            const isService = random() < 0.25;
+            const net = cents(between(3400, 7600) * growth);
+            const tax = cents(net * SALES_TAX_RATE);
+            const lines: MockJournalLine[] = [
+                { account: 'Accounts Receivable', debit: cents(net + tax), credit: 0, party: customer },
+                { account: isService ? 'Service Revenue' : 'Product Sales', debit: 0, credit: net },
+                { account: 'Sales Tax Payable', debit: 0, credit: tax }
+            ];
+            if (!isService) {
+                const cost = cents(net * between(0.55, 0.62));
+                monthlyCost += cost;
+                lines.push({ account: 'Cost of Goods Sold', debit: cost, credit: 0 }, { account: 'Inventory', debit: 0, credit: cost });
+            }
+            const voucherNo = post('Sales Invoice', 'SINV', postingDate, `${isService ? 'Services' : 'Goods'} sold to ${customer}`, lines);
+            invoices.push({ kind: 'receivable', party: customer, voucherNo, postingDate, dueDate: addDays(postingDate, 30), amount: cents(net + tax), paidOn: null });
+        }
+
+        // Restocking on 30-day supplier terms, sized to replace what was sold this month
+        const purchaseCount = 2 + Math.floor(random() * 2);
+        const restockValue = monthlyCost * between(0.95, 1.1) + 1500;
+        for (let i = 0; i < purchaseCount; i++) {
+            const postingDate = monthDate(year, month, 3 + Math.floor(random() * 24));
+            const supplier = pick(SUPPLIERS);
+            const amount = cents(restockValue / purchaseCount);
+            const voucherNo = post('Purchase Invoice', 'PINV', postingDate, `Stock purchase from ${supplier}`, [
+                { account: 'Inventory', debit: amount, credit: 0 },
+                { account: 'Accounts Payable', debit: 0, credit: amount, party: supplier }
+            ]);
+            invoices.push({ kind: 'payable', party: supplier, voucherNo, postingDate, dueDate: addDays(postingDate, 30), amount, paidOn: null });
+        }
+
+        // Quarterly sales tax remittance
+        if (month % 3 === 0) {
+            const quarterStart = monthDate(year, month - 2, 1);
+            const quarterEnd = monthDate(year, month, 28);
+            const collected = vouchers
+                .filter(voucher => voucher.voucherType === 'Sales Invoice' && voucher.postingDate >= quarterStart && voucher.postingDate <= quarterEnd)
+                .flatMap(voucher => voucher.lines)
+                .filter(line => line.account === 'Sales Tax Payable')
+                .reduce((sum, line) => sum + line.credit, 0);
+            post('Payment Entry', 'PE', monthDate(year, month, 28), 'Sales tax remittance', [
+                { account: 'Sales Tax Payable', debit: cents(collected), credit: 0 },
+                { account: 'Cash at Bank', debit: 0, credit: cents(collected) }
+            ]);
+        }
+    }
+
+    // Settle invoices: most are paid within 10-75 days; a few slow payers stay open
+    for (const invoice of invoices) {
+        const delay = invoice.kind === 'receivable'
+            ? (random() < 0.12 ? 60 + Math.floor(random() * 90) : 10 + Math.floor(random() * 45))
+            : 20 + Math.floor(random() * 25);
+        const paidOn = addDays(invoice.postingDate, delay);
+        if (paidOn > FIXTURE_END) continue;
+        invoice.paidOn = paidOn;
+        if (invoice.kind === 'receivable') {
+            post('Payment Entry', 'PE', paidOn, `Receipt from ${invoice.party} for ${invoice.voucherNo}`, [
+                { account: 'Cash at Bank', debit: invoice.amount, credit: 0 },
+                { account: 'Accounts Receivable', debit: 0, credit: invoice.amount, party: invoice.party }
+            ]);
+        } else {
+            post('Payment Entry', 'PE', paidOn, `Payment to ${invoice.party} for ${invoice.voucherNo}`, [
+                { account: 'Accounts Payable', debit: invoice.amount, credit: 0, party: invoice.party },
+                { account: 'Cash at Bank', debit: 0, credit: invoice.amount }
+            ]);
+        }
+    }
+
+    vouchers.sort((a, b) => a.postingDate.localeCompare(b.postingDate) || a.voucherNo.localeCompare(b.voucherNo));
+    return { accounts: ACCOUNTS, vouchers, invoices };
+};
+
+// --- Report views over the journal ---
+
+export const ledgerEntries = (books: MockBooks): GeneralLedgerEntryDto[] => {
+    const runningBalances = new Map<string, number>();
+    return books.vouchers.flatMap(voucher => voucher.lines.map(line => {
+        // Running balance per account, debit-positive, including everything posted before any filter window
+        const balance = cents((runningBalances.get(line.account) ?? 0) + line.debit - line.credit);
+        runningBalances.set(line.account, balance);
+        return {
+            postingDate: voucher.postingDate,
+            account: line.account,
+            debit: line.debit,
+            credit: line.credit,
+            balance,
+            voucherType: voucher.voucherType,
+            voucherNo: voucher.voucherNo,
+            party: line.party ?? null,
+            remarks: voucher.remarks
+        };
+    }));
+};
+
+export const accountBalances = (books: MockBooks, startDate?: string, endDate?: string): AccountBalanceDto[] =>
+    books.accounts.map(account => {
+        const totals = { openingDebit: 0, openingCredit: 0, debit: 0, credit: 0 };
+        for (const voucher of books.vouchers) {
+            if (endDate && voucher.postingDate > endDate) continue;
+            const isOpening = startDate !== undefined && voucher.postingDate < startDate;
+            for (const line of voucher.lines) {
+                if (line.account !== account.name) continue;
+                if (isOpening) {
+                    totals.openingDebit += line.debit;
+                    totals.openingCredit += line.credit;
+                } else {
+                    totals.debit += line.debit;
+                    totals.credit += line.credit;
+                }
+            }
+        }
+        return {
+            account: account.name,
+            accountNumber: account.number,
+            rootType: account.rootType,
+            accountType: account.accountType,
+            openingDebit: cents(totals.openingDebit),
+            openingCredit: cents(totals.openingCredit),
+            debit: cents(totals.debit),
+            credit: cents(totals.credit)
+        };
+    });
+
+export const openInvoices = (books: MockBooks, kind: MockInvoice['kind'], asOfDate: string): OpenInvoiceDto[] =>
+    books.invoices
+        .filter(invoice => invoice.kind === kind && invoice.postingDate <= asOfDate && (invoice.paidOn === null || invoice.paidOn > asOfDate))
+        .map(invoice => ({
+            party: invoice.party,
+            voucherNo: invoice.voucherNo,
+            postingDate: invoice.postingDate,
+            dueDate: invoice.dueDate,
+            invoicedAmount: invoice.amount,
+            paidAmount: 0,
+            outstandingAmount: invoice.amount
+        }));
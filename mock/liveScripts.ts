@@ -0,0 +1,42 @@
+import { Modality } from "@google/genai";
+import type { LiveConnectConfig } from "@google/genai";
+import {
+    LiveScript,
+    ScriptStep,
+    ScriptedTransport,
+    assistantReply,
+    createScriptedTransport,
+    resumptionUpdate,
+    toolCall
+} from "../services/live/scriptedTransport";
+
+// Demo conversation served when LIVE_TRANSPORT=scripted: two report requests that exercise the
+// tool round-trip and result cards, then a generic reply for anything else the user says.
+// The report tools still call the accounting API, so pair it with MOCK_ACCOUNTING_API=true.
+
+const responseModalityOf = (config: LiveConnectConfig): 'audio' | 'text' =>
+    config.responseModalities?.includes(Modality.TEXT) ? 'text' : 'audio';
+
+export const demoLiveScript = (config: LiveConnectConfig, connectionIndex: number): LiveScript => {
+    const modality = responseModalityOf(config);
+    const steps: ScriptStep[] = [
+        { type: 'message', message: resumptionUpdate(`scripted-${connectionIndex}`) },
+        { type: 'awaitClient', event: 'input', transcriptIfSpoken: 'Show me the trial balance for the first quarter of 2025.' },
+        { type: 'message', message: toolCall({ id: 'demo-trial-balance', name: 'fetch_trial_balance', args: { date_from: '2025-01-01', date_to: '2025-03-31' } }) },
+        { type: 'awaitClient', event: 'toolResponse' },
+        ...assistantReply("Here is the trial balance for the first quarter of 2025. Debits and credits agree, so the books are balanced.", modality),
+        { type: 'awaitClient', event: 'input', transcriptIfSpoken: 'Which customers owe us money?' },
+        { type: 'message', message: toolCall({ id: 'demo-ar-aging', name: 'fetch_ar_aging', args: { as_of_date: '2025-06-30' } }) },
+        { type: 'awaitClient', event: 'toolResponse' },
+        ...assistantReply("I've pulled the receivables aging as of the end of June. The card shows each customer's outstanding balance by age bucket.", modality)
+    ];
+    const repeatFrom = steps.length;
+    steps.push(
+        { type: 'awaitClient', event: 'input', transcriptIfSpoken: 'Tell me more.' },
+        ...assistantReply("This is a scripted demo session, so I can only replay the prepared answers. Connect to Gemini for a real conversation.", modality)
+    );
+    return { steps, repeatFrom };
+};
+
+export const createDemoLiveTransport = (): ScriptedTransport =>
+    createScriptedTransport({ scripts: demoLiveScript, stepDelayMs: 60 });
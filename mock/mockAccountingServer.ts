@@ -0,0 +1,157 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { Plugin } from "vite";
+import {
+    FIXTURE_END,
+    MOCK_COMPANY_ID,
+    MockBooks,
+    accountBalances,
+    generateMockBooks,
+    ledgerEntries,
+    openInvoices
+} from "./accountingFixtures";
+
+// Serves the accounting report endpoints from seeded fixtures so the accounting tools can be
+// developed and tested without a live backend. Enable with MOCK_ACCOUNTING_API=true.
+
+export interface MockAccountingOptions {
+    // Added to every response, in milliseconds
+    latencyMs: number;
+    // Share of requests (0-1) that fail with `errorStatus`
+    errorRate: number;
+    errorStatus: number;
+    seed?: number;
+}
+
+export interface MockResponse {
+    status: number;
+    body: unknown;
+    latencyMs: number;
+}
+
+export const MOCK_ACCOUNTING_BASE_PATH = '/mock-accounting';
+
+const DEFAULT_OPTIONS: MockAccountingOptions = { latencyMs: 0, errorRate: 0, errorStatus: 503 };
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const paginate = <T>(rows: T[], params: URLSearchParams): unknown => {
+    // Without paging parameters, answer like older deployments with a bare array
+    if (!params.has('page') && !params.has('pageSize')) return rows;
+    const page = Math.max(1, Number(params.get('page')) || 1);
+    const pageSize = Math.min(1000, Math.max(1, Number(params.get('pageSize')) || 100));
+    const start = (page - 1) * pageSize;
+    return {
+        data: rows.slice(start, start + pageSize),
+        page,
+        pageSize,
+        total: rows.length,
+        hasMore: start + pageSize < rows.length
+    };
+};
+
+export const createMockAccountingHandler = (initialOptions: Partial<MockAccountingOptions> = {}) => {
+    const options: MockAccountingOptions = { ...DEFAULT_OPTIONS, ...initialOptions };
+    const books: MockBooks = generateMockBooks(options.seed);
+    const ledger = ledgerEntries(books);
+    // Requests queued to fail by the control endpoint, before the random error rate applies
+    let forcedFailures: number[] = [];
+
+    const badRequest = (message: string): MockResponse => ({ status: 400, body: { error: message }, latencyMs: options.latencyMs });
+
+    const handle = (method: string, url: URL): MockResponse => {
+        const params = url.searchParams;
+        const path = url.pathname.replace(/\/+$/, '');
+
+        // Lets tests change behaviour at runtime: /__control?latencyMs=200&errorRate=0.5&failNext=500,500
+        if (path === '/__control') {
+            if (params.has('latencyMs')) options.latencyMs = Math.max(0, Number(params.get('latencyMs')) || 0);
+            if (params.has('errorRate')) options.errorRate = Math.min(1, Math.max(0, Number(params.get('errorRate')) || 0));
+            if (params.has('errorStatus')) options.errorStatus = Number(params.get('errorStatus')) || DEFAULT_OPTIONS.errorStatus;
+            if (params.has('failNext')) forcedFailures = params.get('failNext')!.split(',').map(Number).filter(Boolean);
+            if (params.has('reset')) {
+                Object.assign(options, DEFAULT_OPTIONS, initialOptions);
+                forcedFailures = [];
+            }
+            return { status: 200, body: { ...options, pendingFailures: forcedFailures }, latencyMs: 0 };
+        }
+
+        if (method !== 'GET') {
+            return { status: 405, body: { error: `Method ${method} not allowed` }, latencyMs: options.latencyMs };
+        }
+
+        const forced = forcedFailures.shift();
+        if (forced) {
+            return { status: forced, body: { error: `Simulated failure (HTTP ${forced})` }, latencyMs: options.latencyMs };
+        }
+        if (options.errorRate > 0 && Math.random() < options.errorRate) {
+            return { status: options.errorStatus, body: { error: `Simulated failure (HTTP ${options.errorStatus})` }, latencyMs: options.latencyMs };
+        }
+
+        const companyId = params.get('companyId');
+        if (companyId !== null && companyId !== MOCK_COMPANY_ID) {
+            return { status: 404, body: { error: `Unknown company ${companyId}` }, latencyMs: options.latencyMs };
+        }
+
+        const dates: Record<string, string | null> = {
+            startDate: params.get('startDate'),
+            endDate: params.get('endDate'),
+            asOfDate: params.get('asOfDate')
+        };
+        for (const [name, value] of Object.entries(dates)) {
+            if (value && !ISO_DATE.test(value)) return badRequest(`${name} must use the format YYYY-MM-DD`);
+        }
+        const startDate = dates.startDate ?? undefined;
+        const endDate = dates.endDate ?? undefined;
+        if (startDate && endDate && startDate > endDate) return badRequest('startDate must not be after endDate');
+
+        const ok = (rows: unknown[]): MockResponse => ({ status: 200, body: paginate(rows, params), latencyMs: options.latencyMs });
+
+        switch (path) {
+            case '/accountingreport/general-ledger-report': {
+                const accountFilter = params.get('account_filter')?.toLowerCase();
+                return ok(ledger.filter(entry =>
+                    (!startDate || entry.postingDate! >= startDate)
+                    && (!endDate || entry.postingDate! <= endDate)
+                    && (!accountFilter || entry.account!.toLowerCase().includes(accountFilter))
+                ));
+            }
+            case '/accountingreport/account-balances':
+                return ok(accountBalances(books, startDate, endDate));
+            case '/accountingreport/accounts-receivable':
+            case '/accountingreport/accounts-payable': {
+                const kind = path.endsWith('receivable') ? 'receivable' : 'payable';
+                const party = params.get('party')?.toLowerCase();
+                return ok(openInvoices(books, kind, dates.asOfDate ?? FIXTURE_END)
+                    .filter(invoice => !party || invoice.party.toLowerCase().includes(party)));
+            }
+            default:
+                return { status: 404, body: { error: `No mock endpoint for ${path}` }, latencyMs: options.latencyMs };
+        }
+    };
+
+    const middleware = (req: IncomingMessage, res: ServerResponse) => {
+        // Mounted under the base path, so req.url is relative to it
+        const response = handle(req.method ?? 'GET', new URL(req.url ?? '/', 'http://mock.local'));
+        setTimeout(() => {
+            res.statusCode = response.status;
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify(response.body));
+        }, response.latencyMs);
+    };
+
+    return { handle, middleware, options, books };
+};
+
+// Vite plugin that mounts the mock under MOCK_ACCOUNTING_BASE_PATH for `vite` and `vite preview`
+export const mockAccountingApi = (options: Partial<MockAccountingOptions> = {}): Plugin => {
+    const { middleware } = createMockAccountingHandler(options);
+    return {
+        name: 'mock-accounting-api',
+        configureServer(server) {
+            server.middlewares.use(MOCK_ACCOUNTING_BASE_PATH, middleware);
+        },
+        configurePreviewServer(server) {
+            server.middlewares.use(MOCK_ACCOUNTING_BASE_PATH, middleware);
+        }
+    };
+};
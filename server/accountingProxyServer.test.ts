@@ -0,0 +1,66 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { describe, expect, it, vi } from "vitest";
+import { accountingAuthFromEnv, createAccountingProxyHandler } from "./accountingProxyServer";
+
+// Runs the middleware against a minimal request and captures the response
+const request = async (handler: ReturnType<typeof createAccountingProxyHandler>, method: string, url: string, headers: Record<string, string> = {}) => {
+    const responseHeaders: Record<string, string> = {};
+    let body = '';
+    const res = {
+        statusCode: 200,
+        setHeader: (name: string, value: string) => { responseHeaders[name.toLowerCase()] = value; },
+        end: (chunk: string) => { body = chunk; }
+    };
+    await handler.middleware({ method, url, headers } as unknown as IncomingMessage, res as unknown as ServerResponse);
+    return { status: res.statusCode, headers: responseHeaders, body: JSON.parse(body) };
+};
+
+const upstream = (status: number, body: unknown) =>
+    vi.fn(async (_url: string | URL | Request, _init?: RequestInit) => new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } }));
+
+describe('createAccountingProxyHandler', () => {
+    it('forwards report requests with the server-side credentials', async () => {
+        const fetchImpl = upstream(200, [{ account: 'Cash' }]);
+        const handler = createAccountingProxyHandler({ baseUrl: 'https://erp.example.com/api/', auth: { type: 'bearer', token: 'secret' }, fetchImpl });
+
+        const response = await request(handler, 'GET', '/accountingreport/general-ledger-report?companyId=1&page=2', { 'sec-fetch-site': 'same-origin' });
+        expect(response).toMatchObject({ status: 200, headers: { 'cache-control': 'no-store' }, body: [{ account: 'Cash' }] });
+        const [url, init] = fetchImpl.mock.calls[0];
+        expect(url).toBe('https://erp.example.com/api/accountingreport/general-ledger-report?companyId=1&page=2');
+        expect(init?.headers).toMatchObject({ Authorization: 'Bearer secret' });
+    });
+
+    it('passes error statuses through so the client can retry', async () => {
+        const handler = createAccountingProxyHandler({ baseUrl: 'https://erp.example.com', auth: { type: 'none' }, fetchImpl: upstream(503, { error: 'busy' }) });
+        expect(await request(handler, 'GET', '/accountingreport/account-balances')).toMatchObject({ status: 503, body: { error: 'busy' } });
+    });
+
+    it('forwards only report endpoints, and only GET', async () => {
+        const fetchImpl = upstream(200, {});
+        const handler = createAccountingProxyHandler({ baseUrl: 'https://erp.example.com', auth: { type: 'none' }, fetchImpl });
+
+        expect(await request(handler, 'GET', '/accountingreport/../users')).toMatchObject({ status: 404 });
+        expect(await request(handler, 'POST', '/accountingreport/general-ledger-report')).toMatchObject({ status: 405, headers: { allow: 'GET' } });
+        expect(await request(handler, 'GET', '/accountingreport/accounts-payable', { 'sec-fetch-site': 'cross-site' })).toMatchObject({ status: 403 });
+        expect(fetchImpl).not.toHaveBeenCalled();
+    });
+
+    it('explains a missing API_BASE_URL and an unreachable API', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const unconfigured = createAccountingProxyHandler({ baseUrl: undefined, auth: { type: 'none' } });
+        expect(await request(unconfigured, 'GET', '/accountingreport/account-balances')).toMatchObject({ status: 500, body: { error: 'API_BASE_URL is not set on the server' } });
+
+        const fetchImpl = vi.fn(async () => { throw new TypeError('fetch failed'); });
+        const unreachable = createAccountingProxyHandler({ baseUrl: 'https://erp.example.com', auth: { type: 'none' }, fetchImpl });
+        expect(await request(unreachable, 'GET', '/accountingreport/account-balances')).toMatchObject({ status: 502 });
+        vi.restoreAllMocks();
+    });
+});
+
+describe('accountingAuthFromEnv', () => {
+    it('prefers the bearer token over the API key', () => {
+        expect(accountingAuthFromEnv({ ACCOUNTING_API_TOKEN: 't', ACCOUNTING_API_KEY: 'k' })).toEqual({ type: 'bearer', token: 't' });
+        expect(accountingAuthFromEnv({ ACCOUNTING_API_KEY: 'k' })).toEqual({ type: 'apiKey', key: 'k' });
+        expect(accountingAuthFromEnv({})).toEqual({ type: 'none' });
+    });
+});
@@ -0,0 +1,97 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { Plugin } from "vite";
+import { AccountingApiAuth, accountingAuthHeaders } from "../services/accountingApiClient";
+
+// Forwards the browser's accounting report requests to the accounting API and adds the
+// credentials on the way, so ACCOUNTING_API_TOKEN and ACCOUNTING_API_KEY never reach the
+// browser. Like the Live token endpoint it runs in `vite` and `vite preview`, and in any Node
+// server that accepts connect-style middleware.
+
+export const ACCOUNTING_PROXY_PATH = '/api/accounting';
+
+export interface AccountingProxyOptions {
+    // The real accounting API, e.g. https://erp.example.com/api
+    baseUrl: string | undefined;
+    auth: AccountingApiAuth;
+    // Replaces fetch, for tests
+    fetchImpl?: typeof fetch;
+}
+
+// Only the report endpoints the tools use are forwarded; the proxy is not a way into the rest of the API
+const FORWARDED_PATH_PREFIX = '/accountingreport/';
+
+// The bearer token wins when both are set
+export const accountingAuthFromEnv = (env: Record<string, string | undefined>): AccountingApiAuth => {
+    if (env.ACCOUNTING_API_TOKEN) {
+        return { type: 'bearer', token: env.ACCOUNTING_API_TOKEN };
+    }
+    if (env.ACCOUNTING_API_KEY) {
+        return { type: 'apiKey', key: env.ACCOUNTING_API_KEY };
+    }
+    return { type: 'none' };
+};
+
+export const createAccountingProxyHandler = (options: AccountingProxyOptions) => {
+    const baseUrl = options.baseUrl?.replace(/\/+$/, '');
+
+    const send = (res: ServerResponse, status: number, body: string, contentType = 'application/json') => {
+        res.statusCode = status;
+        res.setHeader('Content-Type', contentType);
+        // Reports are per company and change as the books do
+        res.setHeader('Cache-Control', 'no-store');
+        res.end(body);
+    };
+    const sendError = (res: ServerResponse, status: number, error: string) => send(res, status, JSON.stringify({ error }));
+
+    const middleware = async (req: IncomingMessage, res: ServerResponse) => {
+        if (req.method !== 'GET') {
+            res.setHeader('Allow', 'GET');
+            sendError(res, 405, 'Accounting reports are read with GET');
+            return;
+        }
+        // Browsers mark requests from other sites; only this app's pages may use the credentials
+        if (req.headers['sec-fetch-site'] === 'cross-site') {
+            sendError(res, 403, 'Cross-site accounting requests are not allowed');
+            return;
+        }
+        if (!baseUrl) {
+            sendError(res, 500, 'API_BASE_URL is not set on the server');
+            return;
+        }
+        // Mounted under ACCOUNTING_PROXY_PATH, so req.url is relative to it; URL parsing resolves any "..".
+        const { pathname, search } = new URL(req.url ?? '/', 'http://proxy.local');
+        if (!pathname.startsWith(FORWARDED_PATH_PREFIX)) {
+            sendError(res, 404, `Unknown accounting endpoint: ${pathname}`);
+            return;
+        }
+
+        const fetchImpl = options.fetchImpl ?? fetch;
+        try {
+            const upstream = await fetchImpl(`${baseUrl}${pathname}${search}`, {
+                method: 'GET',
+                headers: { Accept: 'application/json', ...accountingAuthHeaders(options.auth) }
+            });
+            // Status and body pass through so the client's retry and error handling still apply
+            send(res, upstream.status, await upstream.text(), upstream.headers.get('content-type') ?? 'application/json');
+        } catch (error) {
+            console.error('Could not reach the accounting API:', error);
+            sendError(res, 502, 'Could not reach the accounting API');
+        }
+    };
+
+    return { middleware, options };
+};
+
+// Vite plugin that serves the proxy at ACCOUNTING_PROXY_PATH for `vite` and `vite preview`
+export const accountingProxyApi = (options: AccountingProxyOptions): Plugin => {
+    const { middleware } = createAccountingProxyHandler(options);
+    return {
+        name: 'accounting-proxy-api',
+        configureServer(server) {
+            server.middlewares.use(ACCOUNTING_PROXY_PATH, middleware);
+        },
+        configurePreviewServer(server) {
+            server.middlewares.use(ACCOUNTING_PROXY_PATH, middleware);
+        }
+    };
+};
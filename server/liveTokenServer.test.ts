@@ -0,0 +1,98 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { describe, expect, it, vi } from "vitest";
+import { createLiveTokenHandler } from "./liveTokenServer";
+
+const NOW = Date.parse('2025-06-01T12:00:00Z');
+
+const SAME_ORIGIN = { 'sec-fetch-site': 'same-origin' };
+
+// Runs the middleware against a minimal request and captures the response
+const request = async (
+    handler: ReturnType<typeof createLiveTokenHandler>,
+    method: string,
+    headers: Record<string, string> = {},
+    remoteAddress = '203.0.113.5'
+) => {
+    const responseHeaders: Record<string, string> = {};
+    let body = '';
+    const res = {
+        statusCode: 200,
+        setHeader: (name: string, value: string) => { responseHeaders[name.toLowerCase()] = value; },
+        end: (chunk: string) => { body = chunk; }
+    };
+    await handler.middleware({ method, headers, socket: { remoteAddress } } as unknown as IncomingMessage, res as unknown as ServerResponse);
+    return { status: res.statusCode, headers: responseHeaders, body: JSON.parse(body) };
+};
+
+describe('createLiveTokenHandler', () => {
+    it('mints a token with session and connect deadlines', async () => {
+        const createToken = vi.fn(async () => 'auth_tokens/abc');
+        const handler = createLiveTokenHandler({ apiKey: 'key', createToken, now: () => NOW });
+
+        const response = await request(handler, 'POST', SAME_ORIGIN);
+        expect(response).toMatchObject({
+            status: 200,
+            headers: { 'cache-control': 'no-store' },
+            body: { token: 'auth_tokens/abc', expiresAt: '2025-06-01T12:30:00.000Z', newSessionExpiresAt: '2025-06-01T12:01:00.000Z' }
+        });
+        expect(createToken).toHaveBeenCalledWith('2025-06-01T12:30:00.000Z', '2025-06-01T12:01:00.000Z');
+    });
+
+    it('only answers POST requests', async () => {
+        const handler = createLiveTokenHandler({ apiKey: 'key', createToken: async () => 'auth_tokens/abc' });
+        expect(await request(handler, 'GET')).toMatchObject({ status: 405, headers: { allow: 'POST' } });
+    });
+
+    it('refuses requests from other sites', async () => {
+        const createToken = vi.fn(async () => 'auth_tokens/abc');
+        const handler = createLiveTokenHandler({ apiKey: 'key', createToken });
+        expect(await request(handler, 'POST', { 'sec-fetch-site': 'cross-site' })).toMatchObject({ status: 403 });
+        expect(await request(handler, 'POST', { 'sec-fetch-site': 'same-site' })).toMatchObject({ status: 403 });
+        expect(await request(handler, 'POST', { origin: 'https://evil.test', host: 'app.test' })).toMatchObject({ status: 403 });
+        expect(createToken).not.toHaveBeenCalled();
+    });
+
+    it('refuses requests that carry no origin at all', async () => {
+        const handler = createLiveTokenHandler({ apiKey: 'key', createToken: async () => 'auth_tokens/abc' });
+        expect(await request(handler, 'POST')).toMatchObject({ status: 403, body: { error: 'Token requests must come from this app' } });
+    });
+
+    it('accepts a matching Origin from browsers that do not send Sec-Fetch-Site', async () => {
+        const handler = createLiveTokenHandler({ apiKey: 'key', createToken: async () => 'auth_tokens/abc' });
+        expect(await request(handler, 'POST', { origin: 'https://app.test', host: 'app.test' })).toMatchObject({ status: 200 });
+    });
+
+    it('accepts pages from the allowed origins', async () => {
+        const handler = createLiveTokenHandler({ apiKey: 'key', createToken: async () => 'auth_tokens/abc', allowedOrigins: ['https://app.test'] });
+        const headers = { origin: 'https://app.test', host: 'tokens.test', 'sec-fetch-site': 'cross-site' };
+        expect(await request(handler, 'POST', headers)).toMatchObject({ status: 200 });
+    });
+
+    it('limits how many tokens one address can mint per minute', async () => {
+        let time = NOW;
+        const createToken = vi.fn(async () => 'auth_tokens/abc');
+        const handler = createLiveTokenHandler({ apiKey: 'key', createToken, maxTokensPerMinute: 2, now: () => time });
+
+        expect(await request(handler, 'POST', SAME_ORIGIN)).toMatchObject({ status: 200 });
+        time += 10_000;
+        expect(await request(handler, 'POST', SAME_ORIGIN)).toMatchObject({ status: 200 });
+        expect(await request(handler, 'POST', SAME_ORIGIN)).toMatchObject({ status: 429, headers: { 'retry-after': '50' } });
+        expect(await request(handler, 'POST', SAME_ORIGIN, '198.51.100.7')).toMatchObject({ status: 200 });
+        expect(createToken).toHaveBeenCalledTimes(3);
+
+        time = NOW + 60_000;
+        expect(await request(handler, 'POST', SAME_ORIGIN)).toMatchObject({ status: 200 });
+    });
+
+    it('explains a missing server key', async () => {
+        const handler = createLiveTokenHandler({ apiKey: undefined });
+        expect(await request(handler, 'POST', SAME_ORIGIN)).toMatchObject({ status: 500, body: { error: 'GEMINI_API_KEY is not set on the server' } });
+    });
+
+    it('reports Gemini failures as a bad gateway without leaking details', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const handler = createLiveTokenHandler({ apiKey: 'key', createToken: async () => { throw new Error('API key not valid: key'); } });
+        expect(await request(handler, 'POST', SAME_ORIGIN)).toMatchObject({ status: 502, body: { error: 'Could not mint a Gemini Live token' } });
+        vi.restoreAllMocks();
+    });
+});
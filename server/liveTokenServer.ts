@@ -0,0 +1,180 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { Plugin } from "vite";
+import { GoogleGenAI } from "@google/genai";
+
+// Mints short-lived Gemini Live tokens so the API key never reaches the browser. Each token is
+// good for one new Live connection; the client asks for a fresh one before every connect,
+// including reconnects. The middleware runs in `vite` and `vite preview`, and in any Node
+// server that accepts connect-style middleware. Only pages from the same origin (or one listed in
+// allowedOrigins) may mint tokens, and each client address is limited to a few tokens a minute.
+
+export const LIVE_TOKEN_PATH = '/api/live-token';
+
+export interface LiveTokenResponse {
+    // Passed to GoogleGenAI as the apiKey; starts with "auth_tokens/"
+    token: string;
+    // Messages on a session opened with the token are rejected after this time
+    expiresAt: string;
+    // The token can no longer open a session after this time
+    newSessionExpiresAt: string;
+}
+
+export interface LiveTokenServerOptions {
+    apiKey: string | undefined;
+    // Lifetime of a session opened with a token
+    sessionTtlMinutes: number;
+    // How long a minted token stays usable for opening a session
+    newSessionWindowSeconds: number;
+    // Origins besides the server's own whose pages may request tokens, e.g. "https://app.example.com"
+    allowedOrigins: string[];
+    // Tokens one client address may mint per minute
+    maxTokensPerMinute: number;
+    // Replaces the Gemini call, for tests
+    createToken?: (expireTime: string, newSessionExpireTime: string) => Promise<string>;
+    now?: () => number;
+}
+
+const DEFAULT_OPTIONS: Omit<LiveTokenServerOptions, 'apiKey'> = {
+    sessionTtlMinutes: 30,
+    newSessionWindowSeconds: 60,
+    allowedOrigins: [],
+    maxTokensPerMinute: 10
+};
+
+const RATE_LIMIT_WINDOW_MS = 60_000;
+
+export class LiveTokenError extends Error {
+    constructor(message: string, readonly status: number) {
+        super(message);
+        this.name = 'LiveTokenError';
+    }
+}
+
+export const createLiveTokenHandler = (initialOptions: Partial<LiveTokenServerOptions> & Pick<LiveTokenServerOptions, 'apiKey'>) => {
+    const options: LiveTokenServerOptions = { ...DEFAULT_OPTIONS, ...initialOptions };
+    const now = options.now ?? Date.now;
+    let ai: GoogleGenAI | null = null;
+    // Fixed one-minute windows per client address
+    const recentRequests = new Map<string, { windowStart: number; count: number }>();
+
+    const createToken = options.createToken ?? (async (expireTime: string, newSessionExpireTime: string) => {
+        ai ??= new GoogleGenAI({ apiKey: options.apiKey });
+        const token = await ai.authTokens.create({
+            config: {
+                uses: 1,
+                expireTime,
+                newSessionExpireTime,
+                httpOptions: { apiVersion: 'v1alpha' }
+            }
+        });
+        if (!token.name) {
+            throw new Error('Gemini returned a token without a name');
+        }
+        return token.name;
+    });
+
+    const mint = async (): Promise<LiveTokenResponse> => {
+        if (!options.apiKey && !options.createToken) {
+            throw new LiveTokenError('GEMINI_API_KEY is not set on the server', 500);
+        }
+        const expiresAt = new Date(now() + options.sessionTtlMinutes * 60_000).toISOString();
+        const newSessionExpiresAt = new Date(now() + options.newSessionWindowSeconds * 1000).toISOString();
+        try {
+            const token = await createToken(expiresAt, newSessionExpiresAt);
+            return { token, expiresAt, newSessionExpiresAt };
+        } catch (error) {
+            console.error('Could not mint a Gemini Live token:', error);
+            throw new LiveTokenError('Could not mint a Gemini Live token', 502);
+        }
+    };
+
+    // Browsers send Sec-Fetch-Site with every fetch, and Origin with every POST; a request with
+    // neither did not come from a page, so it is refused as well
+    const isSameOrigin = (req: IncomingMessage) => {
+        const { origin, host } = req.headers;
+        if (origin && options.allowedOrigins.includes(origin)) {
+            return true;
+        }
+        const site = req.headers['sec-fetch-site'];
+        if (site !== undefined) {
+            return site === 'same-origin';
+        }
+        if (!origin || !host) {
+            return false;
+        }
+        try {
+            return new URL(origin).host === host;
+        } catch {
+            return false;
+        }
+    };
+
+    // Milliseconds until the client may ask again, or 0 when this request is within its limit
+    const rateLimitDelay = (req: IncomingMessage) => {
+        const time = now();
+        for (const [address, usage] of recentRequests) {
+            if (time - usage.windowStart >= RATE_LIMIT_WINDOW_MS) {
+                recentRequests.delete(address);
+            }
+        }
+        const address = req.socket?.remoteAddress ?? 'unknown';
+        const usage = recentRequests.get(address);
+        if (!usage) {
+            recentRequests.set(address, { windowStart: time, count: 1 });
+            return 0;
+        }
+        if (usage.count >= options.maxTokensPerMinute) {
+            return usage.windowStart + RATE_LIMIT_WINDOW_MS - time;
+        }
+        usage.count++;
+        return 0;
+    };
+
+    const send = (res: ServerResponse, status: number, body: unknown) => {
+        res.statusCode = status;
+        res.setHeader('Content-Type', 'application/json');
+        // Tokens are single-use; a cached response would hand out a spent one
+        res.setHeader('Cache-Control', 'no-store');
+        res.end(JSON.stringify(body));
+    };
+
+    const middleware = async (req: IncomingMessage, res: ServerResponse) => {
+        if (req.method !== 'POST') {
+            res.setHeader('Allow', 'POST');
+            send(res, 405, { error: 'Use POST to request a token' });
+            return;
+        }
+        if (!isSameOrigin(req)) {
+            send(res, 403, { error: 'Token requests must come from this app' });
+            return;
+        }
+        const delay = rateLimitDelay(req);
+        if (delay > 0) {
+            res.setHeader('Retry-After', String(Math.ceil(delay / 1000)));
+            send(res, 429, { error: 'Too many token requests; try again shortly' });
+            return;
+        }
+        try {
+            send(res, 200, await mint());
+        } catch (error) {
+            const status = error instanceof LiveTokenError ? error.status : 500;
+            send(res, status, { error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+    };
+
+    return { mint, middleware, options };
+};
+
+// Vite plugin that serves the token endpoint at LIVE_TOKEN_PATH for `vite` and `vite preview`
+export const liveTokenApi = (options: Partial<LiveTokenServerOptions> & Pick<LiveTokenServerOptions, 'apiKey'>): Plugin => {
+    const { middleware } = createLiveTokenHandler(options);
+    return {
+        name: 'live-token-api',
+        configureServer(server) {
+            server.middlewares.use(LIVE_TOKEN_PATH, middleware);
+        },
+        configurePreviewServer(server) {
+            server.middlewares.use(LIVE_TOKEN_PATH, middleware);
+        }
+    };
+};
@@ -0,0 +1,155 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { AccountingApiClient, AccountingApiError } from "./accountingApiClient";
+
+const json = (status: number, body: unknown) => new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+});
+
+// Answers each call with the next queued response, or throws it when it is an Error
+const queuedFetch = (...responses: (Response | Error)[]) => vi.fn(async (_url: string | URL | Request, _init?: RequestInit) => {
+    const next = responses.shift();
+    if (!next) throw new Error('No response queued');
+    if (next instanceof Error) throw next;
+    return next;
+});
+
+const requestedPages = (fetchImpl: ReturnType<typeof queuedFetch>) =>
+    fetchImpl.mock.calls.map(([url]) => new URL(String(url)).searchParams.get('page'));
+
+const createClient = (fetchImpl: typeof fetch, config: Partial<ConstructorParameters<typeof AccountingApiClient>[0]> = {}) =>
+    new AccountingApiClient({ baseUrl: 'https://accounting.test/api/', companyId: '7', retryBaseDelayMs: 0, fetchImpl, ...config });
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+});
+
+describe('AccountingApiClient pagination', () => {
+    it('follows pages until the server reports no more', async () => {
+        const fetchImpl = queuedFetch(
+            json(200, { data: [1, 2], page: 1, pageSize: 2, hasMore: true }),
+            json(200, { data: [3, 4], page: 2, pageSize: 2, hasMore: true }),
+            json(200, { data: [5], page: 3, pageSize: 2, hasMore: false })
+        );
+        const client = createClient(fetchImpl, { pageSize: 2 });
+
+        await expect(client.fetchAllPages('/rows', { startDate: '2025-01-01', endDate: null })).resolves.toEqual([1, 2, 3, 4, 5]);
+        expect(requestedPages(fetchImpl)).toEqual(['1', '2', '3']);
+        const url = new URL(String(fetchImpl.mock.calls[0][0]));
+        expect(url.origin + url.pathname).toBe('https://accounting.test/api/rows');
+        expect(Object.fromEntries(url.searchParams)).toEqual({ companyId: '7', startDate: '2025-01-01', page: '1', pageSize: '2' });
+    });
+
+    it('stops once the reported total is reached', async () => {
+        const fetchImpl = queuedFetch(
+            json(200, { data: [1, 2], page: 1, pageSize: 2, total: 3 }),
+            json(200, { data: [3], page: 2, pageSize: 2, total: 3 })
+        );
+        await expect(createClient(fetchImpl).fetchAllPages('/rows')).resolves.toEqual([1, 2, 3]);
+        expect(fetchImpl).toHaveBeenCalledTimes(2);
+    });
+
+    it('stops on a short page when the server sends no total', async () => {
+        const fetchImpl = queuedFetch(
+            json(200, { data: [1, 2], page: 1, pageSize: 2 }),
+            json(200, { data: [3], page: 2, pageSize: 2 })
+        );
+        await expect(createClient(fetchImpl).fetchAllPages('/rows')).resolves.toEqual([1, 2, 3]);
+        expect(fetchImpl).toHaveBeenCalledTimes(2);
+    });
+
+    it('treats a bare array as the only page', async () => {
+        const fetchImpl = queuedFetch(json(200, [1, 2, 3]));
+        await expect(createClient(fetchImpl).fetchAllPages('/rows')).resolves.toEqual([1, 2, 3]);
+        expect(fetchImpl).toHaveBeenCalledTimes(1);
+    });
+
+    it('appends a bare array that follows paged responses and stops there', async () => {
+        const fetchImpl = queuedFetch(
+            json(200, { data: [1, 2], page: 1, pageSize: 2, hasMore: true }),
+            json(200, [3])
+        );
+        await expect(createClient(fetchImpl).fetchAllPages('/rows')).resolves.toEqual([1, 2, 3]);
+        expect(requestedPages(fetchImpl)).toEqual(['1', '2']);
+    });
+
+    it('gives up after maxPages', async () => {
+        const fetchImpl = queuedFetch(
+            json(200, { data: [1], page: 1, pageSize: 1, hasMore: true }),
+            json(200, { data: [2], page: 2, pageSize: 1, hasMore: true })
+        );
+        await expect(createClient(fetchImpl, { maxPages: 2 }).fetchAllPages('/rows')).rejects.toThrow('Stopped after 2 pages from /rows');
+    });
+
+    it('rejects a response without a data array', async () => {
+        const fetchImpl = queuedFetch(json(200, { rows: [] }));
+        await expect(createClient(fetchImpl).fetchAllPages('/rows')).rejects.toMatchObject({
+            message: 'Unexpected response shape from /rows',
+            retryable: false
+        });
+    });
+});
+
+describe('AccountingApiClient retries', () => {
+    it('retries retryable statuses and network errors', async () => {
+        const fetchImpl = queuedFetch(json(503, {}), new TypeError('Failed to fetch'), json(429, {}), json(200, [1]));
+        await expect(createClient(fetchImpl).request('/rows')).resolves.toEqual([1]);
+        expect(fetchImpl).toHaveBeenCalledTimes(4);
+    });
+
+    it('does not retry client errors', async () => {
+        const fetchImpl = queuedFetch(json(404, { message: 'Company not found' }));
+        const error = await createClient(fetchImpl).request('/rows').catch(caught => caught);
+
+        expect(error).toBeInstanceOf(AccountingApiError);
+        expect(error).toMatchObject({ status: 404, retryable: false, message: 'Accounting API returned HTTP 404: {"message":"Company not found"}' });
+        expect(fetchImpl).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not retry a body that is not JSON', async () => {
+        const fetchImpl = queuedFetch(new Response('<html>Bad gateway</html>', { status: 200 }));
+        const error = await createClient(fetchImpl).request('/rows').catch(caught => caught);
+
+        expect(error).toBeInstanceOf(AccountingApiError);
+        expect(error).toMatchObject({ retryable: false, message: expect.stringContaining('Accounting API returned invalid JSON') });
+        expect(fetchImpl).toHaveBeenCalledTimes(1);
+    });
+
+    it('throws the last error once retries run out', async () => {
+        const fetchImpl = queuedFetch(json(500, {}), json(502, {}), json(503, {}));
+        await expect(createClient(fetchImpl, { maxRetries: 2 }).request('/rows')).rejects.toMatchObject({ status: 503, retryable: true });
+        expect(fetchImpl).toHaveBeenCalledTimes(3);
+    });
+
+    it('doubles the backoff on each attempt', async () => {
+        vi.useFakeTimers();
+        // No jitter, so each wait is half the backoff
+        vi.spyOn(Math, 'random').mockReturnValue(0);
+        const fetchImpl = queuedFetch(json(503, {}), json(503, {}), json(200, [1]));
+        const result = createClient(fetchImpl, { retryBaseDelayMs: 200 }).request('/rows');
+
+        await vi.advanceTimersByTimeAsync(0);
+        expect(fetchImpl).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(99);
+        expect(fetchImpl).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(fetchImpl).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(199);
+        expect(fetchImpl).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(1);
+        await expect(result).resolves.toEqual([1]);
+    });
+
+    it('turns a timeout into a retryable error', async () => {
+        vi.useFakeTimers();
+        const fetchImpl = vi.fn((_url: string | URL | Request, init?: RequestInit) => new Promise<Response>((_resolve, reject) => {
+            init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+        }));
+        const result = createClient(fetchImpl, { timeoutMs: 1000, maxRetries: 0 }).request('/rows');
+        const assertion = expect(result).rejects.toMatchObject({ message: 'Accounting API request timed out after 1000ms', retryable: true });
+
+        await vi.advanceTimersByTimeAsync(1000);
+        await assertion;
+    });
+});
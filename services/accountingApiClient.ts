@@ -0,0 +1,263 @@
+// Typed client for the accounting system's report API. All accounting tools go through
+// this instead of calling fetch directly, so auth, company context and retries live in one place.
+
+export type AccountingApiAuth =
+    | { type: 'none' }
+    | { type: 'bearer'; token: string }
+    | { type: 'apiKey'; key: string; header?: string };
+
+export interface AccountingApiConfig {
+    baseUrl: string;
+    auth: AccountingApiAuth;
+    companyId: string;
+    // Fiscal year the reports belong to; sent with every request when set
+    fiscalYear?: number;
+    timeoutMs: number;
+    maxRetries: number;
+    retryBaseDelayMs: number;
+    pageSize: number;
+    // Stops runaway pagination if the server keeps returning a next page
+    maxPages: number;
+    fetchImpl?: typeof fetch;
+}
+
+export type AccountingQuery = Record<string, string | number | undefined | null>;
+
+// The API either returns a bare array (older deployments) or a page envelope
+export interface PaginatedResponse<T> {
+    data: T[];
+    page: number;
+    pageSize: number;
+    total?: number;
+    hasMore?: boolean;
+}
+
+export interface GeneralLedgerEntryDto {
+    postingDate: string | null;
+    account: string | null;
+    debit: number | null;
+    credit: number | null;
+    balance: number | null;
+    voucherType: string | null;
+    voucherNo: string | null;
+    party?: string | null;
+    remarks?: string | null;
+}
+
+export type AccountRootType = 'Asset' | 'Liability' | 'Equity' | 'Income' | 'Expense';
+
+// Per-account totals: opening balance before startDate plus movement within the period
+export interface AccountBalanceDto {
+    account: string;
+    accountNumber?: string | null;
+    rootType: AccountRootType;
+    accountType?: string | null;
+    openingDebit?: number | null;
+    openingCredit?: number | null;
+    debit: number | null;
+    credit: number | null;
+}
+
+export interface OpenInvoiceDto {
+    party: string;
+    voucherNo: string;
+    postingDate: string;
+    dueDate?: string | null;
+    invoicedAmount: number;
+    paidAmount?: number | null;
+    outstandingAmount: number;
+}
+
+export type OpenInvoiceKind = 'receivable' | 'payable';
+
+export interface GeneralLedgerQuery {
+    startDate?: string;
+    endDate?: string;
+    accountFilter?: string;
+}
+
+export class AccountingApiError extends Error {
+    constructor(
+        message: string,
+        readonly status: number | null,
+        readonly retryable: boolean,
+        readonly body?: unknown
+    ) {
+        super(message);
+        this.name = 'AccountingApiError';
+    }
+}
+
+const DEFAULT_CONFIG: Omit<AccountingApiConfig, 'baseUrl'> = {
+    auth: { type: 'none' },
+    companyId: '1',
+    timeoutMs: 15000,
+    maxRetries: 3,
+    retryBaseDelayMs: 500,
+    pageSize: 500,
+    maxPages: 200
+};
+
+const RETRY_MAX_DELAY_MS = 8000;
+
+// Shared with the server-side proxy, which is where credentials are added in the browser build
+export const accountingAuthHeaders = (auth: AccountingApiAuth): Record<string, string> => {
+    if (auth.type === 'bearer') {
+        return { Authorization: `Bearer ${auth.token}` };
+    }
+    if (auth.type === 'apiKey') {
+        return { [auth.header ?? 'X-API-Key']: auth.key };
+    }
+    return {};
+};
+
+const isRetryableStatus = (status: number) => status === 408 || status === 429 || status >= 500;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class AccountingApiClient {
+    readonly config: AccountingApiConfig;
+
+    constructor(config: Partial<AccountingApiConfig> & { baseUrl: string }) {
+        this.config = { ...DEFAULT_CONFIG, ...config, baseUrl: config.baseUrl.replace(/\/+$/, '') };
+    }
+
+    // Same connection settings, different company or fiscal year
+    withContext(context: { companyId?: string; fiscalYear?: number }): AccountingApiClient {
+        return new AccountingApiClient({ ...this.config, ...context });
+    }
+
+    async getGeneralLedger(query: GeneralLedgerQuery = {}): Promise<GeneralLedgerEntryDto[]> {
+        return this.fetchAllPages<GeneralLedgerEntryDto>('/accountingreport/general-ledger-report', {
+            startDate: query.startDate,
+            endDate: query.endDate,
+            account_filter: query.accountFilter
+        });
+    }
+
+    async getAccountBalances(query: { startDate?: string; endDate?: string } = {}): Promise<AccountBalanceDto[]> {
+        return this.fetchAllPages<AccountBalanceDto>('/accountingreport/account-balances', {
+            startDate: query.startDate,
+            endDate: query.endDate
+        });
+    }
+
+    async getOpenInvoices(kind: OpenInvoiceKind, query: { asOfDate?: string; party?: string } = {}): Promise<OpenInvoiceDto[]> {
+        const path = kind === 'receivable' ? '/accountingreport/accounts-receivable' : '/accountingreport/accounts-payable';
+        return this.fetchAllPages<OpenInvoiceDto>(path, {
+            asOfDate: query.asOfDate,
+            party: query.party
+        });
+    }
+
+    // Follows pages until the server reports no more data. A bare array carries no paging information,
+    // so it ends the walk: as the only page when it comes first, or as the last page after paged ones.
+    async fetchAllPages<T>(path: string, query: AccountingQuery = {}): Promise<T[]> {
+        const results: T[] = [];
+        for (let page = 1; page <= this.config.maxPages; page++) {
+            const response = await this.request<T[] | PaginatedResponse<T>>(path, { ...query, page, pageSize: this.config.pageSize });
+            if (Array.isArray(response)) {
+                results.push(...response);
+                return results;
+            }
+            if (!response || !Array.isArray(response.data)) {
+                throw new AccountingApiError(`Unexpected response shape from ${path}`, null, false, response);
+            }
+            results.push(...response.data);
+
+            const hasMore = response.hasMore
+                ?? (response.total !== undefined ? results.length < response.total : response.data.length >= (response.pageSize || this.config.pageSize));
+            if (!hasMore || response.data.length === 0) {
+                return results;
+            }
+        }
+        throw new AccountingApiError(`Stopped after ${this.config.maxPages} pages from ${path}`, null, false);
+    }
+
+    async request<T>(path: string, query: AccountingQuery = {}): Promise<T> {
+        const url = this.buildUrl(path, query);
+        let attempt = 0;
+        for (;;) {
+            try {
+                return await this.send<T>(url);
+            } catch (error) {
+                // A body that does not parse, e.g. an HTML error page from a proxy, will not parse on a retry either
+                const apiError = error instanceof AccountingApiError
+                    ? error
+                    : error instanceof SyntaxError
+                        ? new AccountingApiError(`Accounting API returned invalid JSON: ${error.message}`, null, false)
+                        : new AccountingApiError(error instanceof Error ? error.message : 'Network error', null, true);
+                if (!apiError.retryable || attempt >= this.config.maxRetries) {
+                    throw apiError;
+                }
+                attempt++;
+                const backoff = Math.min(RETRY_MAX_DELAY_MS, this.config.retryBaseDelayMs * Math.pow(2, attempt - 1));
+                await sleep(Math.round(backoff / 2 + Math.random() * backoff / 2));
+            }
+        }
+    }
+
+    private buildUrl(path: string, query: AccountingQuery): string {
+        const params = new URLSearchParams();
+        params.append('companyId', this.config.companyId);
+        if (this.config.fiscalYear !== undefined) {
+            params.append('fiscalYear', String(this.config.fiscalYear));
+        }
+        for (const [key, value] of Object.entries(query)) {
+            if (value !== undefined && value !== null && value !== '') {
+                params.append(key, String(value));
+            }
+        }
+        return `${this.config.baseUrl}${path.startsWith('/') ? path : `/${path}`}?${params.toString()}`;
+    }
+
+    private buildHeaders(): Record<string, string> {
+        return { Accept: 'application/json', ...accountingAuthHeaders(this.config.auth) };
+    }
+
+    private async send<T>(url: string): Promise<T> {
+        const fetchImpl = this.config.fetchImpl ?? fetch;
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), this.config.timeoutMs);
+        try {
+            const response = await fetchImpl(url, { method: 'GET', headers: this.buildHeaders(), signal: controller.signal });
+            if (!response.ok) {
+                const body = await response.text().catch(() => '');
+                throw new AccountingApiError(
+                    `Accounting API returned HTTP ${response.status}${body ? `: ${body.slice(0, 200)}` : ''}`,
+                    response.status,
+                    isRetryableStatus(response.status),
+                    body
+                );
+            }
+            return await response.json() as T;
+        } catch (error) {
+            if (controller.signal.aborted) {
+                throw new AccountingApiError(`Accounting API request timed out after ${this.config.timeoutMs}ms`, null, true);
+            }
+            throw error;
+        } finally {
+            clearTimeout(timeout);
+        }
+    }
+}
+
+let defaultClient: AccountingApiClient | null = null;
+
+export const getAccountingApiClient = (): AccountingApiClient => {
+    if (!defaultClient) {
+        const fiscalYear = Number(process.env.ACCOUNTING_FISCAL_YEAR);
+        // API_BASE_URL is the server-side proxy (or the mock API), which adds any credentials itself
+        defaultClient = new AccountingApiClient({
+            baseUrl: process.env.API_BASE_URL ?? '',
+            companyId: process.env.ACCOUNTING_COMPANY_ID || DEFAULT_CONFIG.companyId,
+            fiscalYear: Number.isInteger(fiscalYear) && fiscalYear > 0 ? fiscalYear : undefined
+        });
+    }
+    return defaultClient;
+};
+
+// Replaces the environment-derived client, e.g. after the user picks another company
+export const setAccountingApiClient = (client: AccountingApiClient | null) => {
+    defaultClient = client;
+};
@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import {
+    agingBucketFor,
+    computeAging,
+    computeBalanceSheet,
+    computeProfitAndLoss,
+    computeTrialBalance,
+    roundCents
+} from "./accountingReports";
+import { OpenInvoiceDto } from "./accountingApiClient";
+import { FIXTURE_END, accountBalances, generateMockBooks, openInvoices } from "../mock/accountingFixtures";
+
+const books = generateMockBooks();
+
+const invoice = (party: string, dueDate: string, outstandingAmount: number, postingDate = '2025-01-01'): OpenInvoiceDto => ({
+    party,
+    voucherNo: `SI-${party}-${dueDate}`,
+    postingDate,
+    dueDate,
+    invoicedAmount: outstandingAmount,
+    outstandingAmount
+});
+
+describe('computeTrialBalance', () => {
+    it('balances debits against credits on the mock books', () => {
+        const report = computeTrialBalance(accountBalances(books, '2025-01-01', '2025-03-31'));
+
+        expect(report.rows.length).toBeGreaterThan(0);
+        expect(report.is_balanced).toBe(true);
+        expect(report.difference).toBe(0);
+        expect(report.totals.debit).toBe(report.totals.credit);
+        expect(report.totals.closing_debit).toBe(report.totals.closing_credit);
+    });
+
+    it('rolls each account from its opening balance to one closing side', () => {
+        const report = computeTrialBalance([
+            { account: 'Cash', rootType: 'Asset', openingDebit: 100, openingCredit: 0, debit: 50, credit: 70 },
+            { account: 'Loan', rootType: 'Liability', openingDebit: 0, openingCredit: 100, debit: 20, credit: 0 },
+            { account: 'Dormant', rootType: 'Expense', openingDebit: 0, openingCredit: 0, debit: 0, credit: 0 }
+        ]);
+
+        expect(report.rows).toEqual([
+            { account: 'Cash', account_number: null, root_type: 'Asset', opening_balance: 100, debit: 50, credit: 70, closing_debit: 80, closing_credit: 0 },
+            { account: 'Loan', account_number: null, root_type: 'Liability', opening_balance: -100, debit: 20, credit: 0, closing_debit: 0, closing_credit: 80 }
+        ]);
+        expect(report).toMatchObject({ is_balanced: true, difference: 0 });
+    });
+});
+
+describe('computeProfitAndLoss', () => {
+    it('splits cost of goods sold from operating expenses by account type', () => {
+        const report = computeProfitAndLoss(accountBalances(books, '2025-01-01', '2025-03-31'));
+
+        expect(report.revenue.lines.map(line => line.account)).toEqual(['Product Sales', 'Service Revenue']);
+        expect(report.cost_of_goods_sold.lines.map(line => line.account)).toEqual(['Cost of Goods Sold']);
+        expect(report.operating_expenses.lines.map(line => line.account)).not.toContain('Cost of Goods Sold');
+        expect(report.gross_profit).toBe(roundCents(report.revenue.total - report.cost_of_goods_sold.total));
+        expect(report.net_profit).toBe(roundCents(report.gross_profit - report.operating_expenses.total));
+    });
+
+    it('agrees with the income and expense rows of the trial balance', () => {
+        const balances = accountBalances(books, '2025-01-01', '2025-03-31');
+        const trialBalance = computeTrialBalance(balances);
+        const net = trialBalance.rows
+            .filter(row => row.root_type === 'Income' || row.root_type === 'Expense')
+            .reduce((sum, row) => sum + row.credit - row.debit, 0);
+
+        expect(computeProfitAndLoss(balances).net_profit).toBe(roundCents(net));
+    });
+
+    it('ignores opening balances from earlier periods', () => {
+        const report = computeProfitAndLoss([
+            { account: 'Sales', rootType: 'Income', openingDebit: 0, openingCredit: 5000, debit: 0, credit: 1000 },
+            { account: 'Rent', rootType: 'Expense', openingDebit: 2000, openingCredit: 0, debit: 400, credit: 0 }
+        ]);
+
+        expect(report).toMatchObject({ gross_profit: 1000, net_profit: 600, gross_margin_percent: 100, net_margin_percent: 60 });
+    });
+});
+
+describe('computeBalanceSheet', () => {
+    it.each(['2024-06-30', '2025-03-31', FIXTURE_END])('balances on the mock books as of %s', asOfDate => {
+        const report = computeBalanceSheet(accountBalances(books, undefined, asOfDate));
+
+        expect(report.is_balanced).toBe(true);
+        expect(report.difference).toBe(0);
+        expect(report.assets.total).toBe(report.total_liabilities_and_equity);
+    });
+
+    it('carries unclosed earnings into equity', () => {
+        const balances = accountBalances(books, undefined, '2025-03-31');
+        const report = computeBalanceSheet(balances);
+
+        const earnings = report.equity.lines.find(line => line.account === 'Current Period Earnings');
+        expect(earnings?.amount).toBe(computeProfitAndLoss(balances).net_profit);
+    });
+});
+
+describe('agingBucketFor', () => {
+    it('puts each bucket edge in the lower bucket', () => {
+        expect([-5, 0, 1, 30, 31, 60, 61, 90, 91].map(agingBucketFor)).toEqual([
+            'current', 'current', 'days_1_30', 'days_1_30', 'days_31_60', 'days_31_60', 'days_61_90', 'days_61_90', 'over_90'
+        ]);
+    });
+});
+
+describe('computeAging', () => {
+    it('buckets invoices by days past due and totals them per party', () => {
+        const report = computeAging([
+            invoice('Contoso', '2025-04-01', 100),
+            invoice('Contoso', '2025-03-31', 200),
+            invoice('Contoso', '2025-03-01', 300),
+            invoice('Fabrikam', '2025-01-30', 400),
+            invoice('Fabrikam', '2024-12-31', 500),
+            invoice('Fabrikam', '2024-12-30', 600, '2024-12-01'),
+            // Settled, and not yet posted on the report date
+            invoice('Fabrikam', '2025-02-01', 0),
+            invoice('Fabrikam', '2025-05-01', 700, '2025-04-15')
+        ], '2025-03-31');
+
+        expect(report.parties).toEqual([
+            { party: 'Fabrikam', current: 0, days_1_30: 0, days_31_60: 400, days_61_90: 500, over_90: 600, total: 1500, invoice_count: 3, oldest_days_overdue: 91 },
+            { party: 'Contoso', current: 300, days_1_30: 300, days_31_60: 0, days_61_90: 0, over_90: 0, total: 600, invoice_count: 3, oldest_days_overdue: 30 }
+        ]);
+        expect(report.totals).toEqual({ current: 300, days_1_30: 300, days_31_60: 400, days_61_90: 500, over_90: 600, total: 2100 });
+        expect(report.invoice_count).toBe(6);
+        expect(report.overdue_percent).toBe(85.71);
+        // (30 * 300 + 60 * 400 + 90 * 500 + 91 * 600) / 2100
+        expect(report.weighted_average_days_overdue).toBe(63.1);
+    });
+
+    it('ties out to the receivables open on the mock books', () => {
+        const asOfDate = '2025-03-31';
+        const invoices = openInvoices(books, 'receivable', asOfDate);
+        const report = computeAging(invoices, asOfDate);
+
+        expect(report.invoice_count).toBe(invoices.length);
+        expect(report.totals.total).toBe(roundCents(invoices.reduce((sum, open) => sum + open.outstandingAmount, 0)));
+        expect(roundCents(report.parties.reduce((sum, party) => sum + party.total, 0))).toBe(report.totals.total);
+    });
+});
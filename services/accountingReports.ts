@@ -0,0 +1,275 @@
+import { AccountBalanceDto, AccountRootType, OpenInvoiceDto } from "./accountingApiClient";
+
+// Pure report builders shared by the accounting tools; inputs are what the accounting API returns
+
+export const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const amount = (value: number | null | undefined) => typeof value === 'number' && Number.isFinite(value) ? value : 0;
+
+// Credit-normal root types carry their balance on the credit side
+const CREDIT_NORMAL: AccountRootType[] = ['Liability', 'Equity', 'Income'];
+
+const naturalBalance = (rootType: AccountRootType, debit: number, credit: number) =>
+    CREDIT_NORMAL.includes(rootType) ? credit - debit : debit - credit;
+
+export const BALANCE_TOLERANCE = 0.005;
+
+export interface ReportLine {
+    account: string;
+    account_number: string | null;
+    account_type: string | null;
+    amount: number;
+}
+
+export interface ReportSection {
+    title: string;
+    lines: ReportLine[];
+    total: number;
+}
+
+const buildSection = (title: string, lines: ReportLine[]): ReportSection => ({
+    title,
+    lines: [...lines].sort((a, b) => (a.account_number ?? a.account).localeCompare(b.account_number ?? b.account, undefined, { numeric: true })),
+    total: roundCents(lines.reduce((sum, line) => sum + line.amount, 0))
+});
+
+const toLine = (balance: AccountBalanceDto, value: number): ReportLine => ({
+    account: balance.account,
+    account_number: balance.accountNumber ?? null,
+    account_type: balance.accountType ?? null,
+    amount: roundCents(value)
+});
+
+const percentOf = (part: number, whole: number) => whole === 0 ? null : Math.round(part / whole * 10000) / 100;
+
+// --- Trial balance ---
+
+export interface TrialBalanceRow {
+    account: string;
+    account_number: string | null;
+    root_type: AccountRootType;
+    opening_balance: number;
+    debit: number;
+    credit: number;
+    closing_debit: number;
+    closing_credit: number;
+}
+
+export interface TrialBalance {
+    rows: TrialBalanceRow[];
+    totals: { debit: number; credit: number; closing_debit: number; closing_credit: number };
+    is_balanced: boolean;
+    difference: number;
+}
+
+export const computeTrialBalance = (balances: AccountBalanceDto[]): TrialBalance => {
+    const rows = balances.map(balance => {
+        const opening = amount(balance.openingDebit) - amount(balance.openingCredit);
+        const closing = opening + amount(balance.debit) - amount(balance.credit);
+        return {
+            account: balance.account,
+            account_number: balance.accountNumber ?? null,
+            root_type: balance.rootType,
+            // Signed debit-positive, so a credit opening shows as negative
+            opening_balance: roundCents(opening),
+            debit: roundCents(amount(balance.debit)),
+            credit: roundCents(amount(balance.credit)),
+            closing_debit: roundCents(Math.max(closing, 0)),
+            closing_credit: roundCents(Math.max(-closing, 0))
+        };
+    }).filter(row => row.opening_balance !== 0 || row.debit !== 0 || row.credit !== 0);
+
+    const totals = rows.reduce(
+        (sum, row) => ({
+            debit: sum.debit + row.debit,
+            credit: sum.credit + row.credit,
+            closing_debit: sum.closing_debit + row.closing_debit,
+            closing_credit: sum.closing_credit + row.closing_credit
+        }),
+        { debit: 0, credit: 0, closing_debit: 0, closing_credit: 0 }
+    );
+    const difference = roundCents(totals.closing_debit - totals.closing_credit);
+
+    return {
+        rows,
+        totals: {
+            debit: roundCents(totals.debit),
+            credit: roundCents(totals.credit),
+            closing_debit: roundCents(totals.closing_debit),
+            closing_credit: roundCents(totals.closing_credit)
+        },
+        is_balanced: Math.abs(difference) < BALANCE_TOLERANCE,
+        difference
+    };
+};
+
+// --- Profit and loss ---
+
+export interface ProfitAndLoss {
+    revenue: ReportSection;
+    cost_of_goods_sold: ReportSection;
+    operating_expenses: ReportSection;
+    gross_profit: number;
+    net_profit: number;
+    gross_margin_percent: number | null;
+    net_margin_percent: number | null;
+}
+
+const isCostOfGoodsSold = (balance: AccountBalanceDto) => /cost of goods sold|cogs|cost of sales/i.test(balance.accountType ?? '');
+
+// Uses period movement only; opening balances belong to earlier periods
+export const computeProfitAndLoss = (balances: AccountBalanceDto[]): ProfitAndLoss => {
+    const movement = (balance: AccountBalanceDto) => naturalBalance(balance.rootType, amount(balance.debit), amount(balance.credit));
+    const income = balances.filter(balance => balance.rootType === 'Income');
+    const expenses = balances.filter(balance => balance.rootType === 'Expense');
+
+    const revenue = buildSection('Revenue', income.map(balance => toLine(balance, movement(balance))).filter(line => line.amount !== 0));
+    const costOfGoodsSold = buildSection('Cost of Goods Sold', expenses.filter(isCostOfGoodsSold).map(balance => toLine(balance, movement(balance))).filter(line => line.amount !== 0));
+    const operatingExpenses = buildSection('Operating Expenses', expenses.filter(balance => !isCostOfGoodsSold(balance)).map(balance => toLine(balance, movement(balance))).filter(line => line.amount !== 0));
+
+    const grossProfit = roundCents(revenue.total - costOfGoodsSold.total);
+    const netProfit = roundCents(grossProfit - operatingExpenses.total);
+
+    return {
+        revenue,
+        cost_of_goods_sold: costOfGoodsSold,
+        operating_expenses: operatingExpenses,
+        gross_profit: grossProfit,
+        net_profit: netProfit,
+        gross_margin_percent: percentOf(grossProfit, revenue.total),
+        net_margin_percent: percentOf(netProfit, revenue.total)
+    };
+};
+
+// --- Balance sheet ---
+
+export interface BalanceSheet {
+    assets: ReportSection;
+    liabilities: ReportSection;
+    equity: ReportSection;
+    total_liabilities_and_equity: number;
+    is_balanced: boolean;
+    difference: number;
+}
+
+// Balances are cumulative to the report date; income and expense not yet closed to retained
+// earnings are rolled into equity so the sheet balances
+export const computeBalanceSheet = (balances: AccountBalanceDto[]): BalanceSheet => {
+    const closing = (balance: AccountBalanceDto) => naturalBalance(
+        balance.rootType,
+        amount(balance.openingDebit) + amount(balance.debit),
+        amount(balance.openingCredit) + amount(balance.credit)
+    );
+    const linesFor = (rootType: AccountRootType) => balances
+        .filter(balance => balance.rootType === rootType)
+        .map(balance => toLine(balance, closing(balance)))
+        .filter(line => line.amount !== 0);
+
+    const unclosedEarnings = balances
+        .filter(balance => balance.rootType === 'Income' || balance.rootType === 'Expense')
+        .reduce((sum, balance) => sum + (balance.rootType === 'Income' ? closing(balance) : -closing(balance)), 0);
+
+    const equityLines = linesFor('Equity');
+    if (Math.abs(unclosedEarnings) >= BALANCE_TOLERANCE) {
+        equityLines.push({ account: 'Current Period Earnings', account_number: null, account_type: null, amount: roundCents(unclosedEarnings) });
+    }
+
+    const assets = buildSection('Assets', linesFor('Asset'));
+    const liabilities = buildSection('Liabilities', linesFor('Liability'));
+    const equity = buildSection('Equity', equityLines);
+    const totalLiabilitiesAndEquity = roundCents(liabilities.total + equity.total);
+    const difference = roundCents(assets.total - totalLiabilitiesAndEquity);
+
+    return {
+        assets,
+        liabilities,
+        equity,
+        total_liabilities_and_equity: totalLiabilitiesAndEquity,
+        is_balanced: Math.abs(difference) < BALANCE_TOLERANCE,
+        difference
+    };
+};
+
+// --- Aging ---
+
+export const AGING_BUCKETS = ['current', 'days_1_30', 'days_31_60', 'days_61_90', 'over_90'] as const;
+export type AgingBucket = typeof AGING_BUCKETS[number];
+export type AgingAmounts = Record<AgingBucket, number> & { total: number };
+
+export interface AgingPartyRow extends AgingAmounts {
+    party: string;
+    invoice_count: number;
+    oldest_days_overdue: number;
+}
+
+export interface AgingReport {
+    as_of_date: string;
+    parties: AgingPartyRow[];
+    totals: AgingAmounts;
+    invoice_count: number;
+    // Outstanding-weighted, counting invoices that are not yet due as zero days
+    weighted_average_days_overdue: number;
+    overdue_percent: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const emptyAmounts = (): AgingAmounts => ({ current: 0, days_1_30: 0, days_31_60: 0, days_61_90: 0, over_90: 0, total: 0 });
+
+export const agingBucketFor = (daysOverdue: number): AgingBucket => {
+    if (daysOverdue <= 0) return 'current';
+    if (daysOverdue <= 30) return 'days_1_30';
+    if (daysOverdue <= 60) return 'days_31_60';
+    if (daysOverdue <= 90) return 'days_61_90';
+    return 'over_90';
+};
+
+export const daysBetween = (fromIsoDate: string, toIsoDate: string) =>
+    Math.round((Date.parse(toIsoDate.slice(0, 10)) - Date.parse(fromIsoDate.slice(0, 10))) / DAY_MS);
+
+export const computeAging = (invoices: OpenInvoiceDto[], asOfDate: string): AgingReport => {
+    const parties = new Map<string, AgingPartyRow>();
+    let weightedDays = 0;
+    let invoiceCount = 0;
+
+    for (const invoice of invoices) {
+        const outstanding = amount(invoice.outstandingAmount);
+        // Invoices posted after the report date did not exist yet
+        if (outstanding === 0 || invoice.postingDate.slice(0, 10) > asOfDate) continue;
+
+        const daysOverdue = Math.max(0, daysBetween(invoice.dueDate || invoice.postingDate, asOfDate));
+        const bucket = agingBucketFor(daysOverdue);
+        const row = parties.get(invoice.party) ?? { party: invoice.party, ...emptyAmounts(), invoice_count: 0, oldest_days_overdue: 0 };
+        row[bucket] += outstanding;
+        row.total += outstanding;
+        row.invoice_count++;
+        row.oldest_days_overdue = Math.max(row.oldest_days_overdue, daysOverdue);
+        parties.set(invoice.party, row);
+
+        weightedDays += daysOverdue * outstanding;
+        invoiceCount++;
+    }
+
+    const totals = emptyAmounts();
+    const rows = [...parties.values()].map(row => {
+        for (const bucket of AGING_BUCKETS) {
+            row[bucket] = roundCents(row[bucket]);
+            totals[bucket] += row[bucket];
+        }
+        row.total = roundCents(row.total);
+        totals.total += row.total;
+        return row;
+    }).sort((a, b) => b.total - a.total);
+
+    for (const bucket of AGING_BUCKETS) totals[bucket] = roundCents(totals[bucket]);
+    totals.total = roundCents(totals.total);
+
+    return {
+        as_of_date: asOfDate,
+        parties: rows,
+        totals,
+        invoice_count: invoiceCount,
+        weighted_average_days_overdue: totals.total === 0 ? 0 : Math.round(weightedDays / totals.total * 10) / 10,
+        overdue_percent: percentOf(totals.total - totals.current, totals.total)
+    };
+};
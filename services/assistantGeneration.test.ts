@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { createGeneration, heardSamples, heardText, splitInterruptedAnswer } from "./assistantGeneration";
+
+const generationWith = (playbackStart: number, fragments: [string, number][], queuedSamples: number) => ({
+    ...createGeneration(1),
+    playbackStart,
+    queuedSamples,
+    fragments: fragments.map(([text, audioOffset]) => ({ text, audioOffset }))
+});
+
+describe('heardSamples', () => {
+    it('measures from where the answer started playing, up to what was queued', () => {
+        const generation = generationWith(1000, [], 4800);
+        expect(heardSamples(generation, 500)).toBe(0);
+        expect(heardSamples(generation, 3400)).toBe(2400);
+        expect(heardSamples(generation, 99999)).toBe(4800);
+        expect(heardSamples(createGeneration(2), 3400)).toBe(0);
+    });
+});
+
+describe('heardText', () => {
+    const generation = generationWith(0, [['The balance', 0], [' is', 2400], [' forty two.', 4800]], 7200);
+
+    it('keeps fragments whose audio had started playing', () => {
+        expect(heardText(generation, 0)).toBe('');
+        expect(heardText(generation, 2400)).toBe('The balance');
+        expect(heardText(generation, 2401)).toBe('The balance is');
+        expect(heardText(generation, 7200)).toBe('The balance is forty two.');
+    });
+});
+
+describe('splitInterruptedAnswer', () => {
+    const entry = { kind: 'assistant' as const, id: 1, timestamp: 0, source: 'voice' as const, text: 'The balance is forty two.' };
+
+    it('splits at what was heard', () => {
+        expect(splitInterruptedAnswer({ ...entry, heardText: 'The balance' })).toEqual({ heard: 'The balance', unheard: 'is forty two.' });
+        expect(splitInterruptedAnswer({ ...entry, heardText: '' })).toEqual({ heard: '', unheard: 'The balance is forty two.' });
+    });
+
+    it('ignores answers that were not interrupted', () => {
+        expect(splitInterruptedAnswer(entry)).toBeNull();
+    });
+});
@@ -0,0 +1,56 @@
+import { AssistantTurnEntry } from "../types";
+
+// One answer from the model, from its first chunk to turnComplete or an interruption. Audio is
+// tracked by playback position so that, when the user cuts in, the transcript can show only
+// the part of the answer that was actually played.
+
+export interface TranscriptFragment {
+    text: string;
+    // Samples of this answer queued for playback when the fragment arrived
+    audioOffset: number;
+}
+
+export interface AssistantGeneration {
+    id: number;
+    // Transcript entry holding the answer's text, once it has any
+    entryId: number | null;
+    // Position of the answer's first sample in the sink's playedSamples count; null until audio arrives
+    playbackStart: number | null;
+    queuedSamples: number;
+    fragments: TranscriptFragment[];
+    // Cut short by the user or the server; later chunks of this answer are stale and dropped
+    interrupted: boolean;
+    // The server finished the turn; whatever arrives next belongs to a new answer
+    complete: boolean;
+}
+
+export const createGeneration = (id: number): AssistantGeneration => ({
+    id,
+    entryId: null,
+    playbackStart: null,
+    queuedSamples: 0,
+    fragments: [],
+    interrupted: false,
+    complete: false
+});
+
+// How many samples of the answer had played by the time the sink reached `playedSamples`
+export const heardSamples = (generation: AssistantGeneration, playedSamples: number): number =>
+    generation.playbackStart === null ? 0 : Math.min(generation.queuedSamples, Math.max(0, playedSamples - generation.playbackStart));
+
+// The transcript up to the audio that was heard. A fragment counts once the audio queued after
+// it started playing, which is how the server interleaves transcription with audio.
+export const heardText = (generation: AssistantGeneration, heard: number): string =>
+    generation.fragments
+        .filter(fragment => fragment.audioOffset < heard)
+        .map(fragment => fragment.text)
+        .join('')
+        .trim();
+
+// An interrupted answer as the part that was played and the part that never was
+export const splitInterruptedAnswer = (entry: AssistantTurnEntry): { heard: string; unheard: string } | null => {
+    if (entry.heardText === undefined) return null;
+    const heard = entry.heardText;
+    const unheard = entry.text.startsWith(heard) ? entry.text.slice(heard.length).trim() : entry.text;
+    return { heard, unheard };
+};
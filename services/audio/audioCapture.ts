@@ -0,0 +1,84 @@
+import captureProcessorUrl from "./worklets/captureProcessor.ts?worker&url";
+import type { CaptureFrameMessage, CaptureProcessorOptions } from "./worklets/captureProcessor";
+import { TARGET_SAMPLE_RATE } from "./pcm";
+
+// Microphone capture behind an interface so the conversation pipeline can run on fake sources in tests
+export interface AudioCaptureSource {
+    // Starts delivering mono frames; sources may already deliver them at the Live input rate
+    start: (onFrame: (samples: Float32Array, sampleRate: number) => void) => Promise<void>;
+    stop: () => void;
+    // Analyser for visualisation, when the source has one
+    readonly analyserNode: AnalyserNode | null;
+}
+
+export interface MicrophoneCaptureOptions {
+    // Length of each frame sent to Gemini; shorter frames lower latency at the cost of more messages
+    frameDurationMs?: number;
+}
+
+// Captures the microphone through an AudioWorklet that resamples to 16 kHz off the main thread
+export class MicrophoneCapture implements AudioCaptureSource {
+    private context: AudioContext | null = null;
+    private stream: MediaStream | null = null;
+    private workletNode: AudioWorkletNode | null = null;
+    private analyser: AnalyserNode | null = null;
+    private readonly frameDurationMs: number;
+
+    constructor(options: MicrophoneCaptureOptions = {}) {
+        this.frameDurationMs = options.frameDurationMs ?? 40;
+    }
+
+    get analyserNode() {
+        return this.analyser;
+    }
+
+    async start(onFrame: (samples: Float32Array, sampleRate: number) => void) {
+        this.stream = await navigator.mediaDevices.getUserMedia({
+            audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true }
+        });
+        const context = new (window.AudioContext || window.webkitAudioContext)();
+        this.context = context;
+        await context.audioWorklet.addModule(captureProcessorUrl);
+
+        const processorOptions: CaptureProcessorOptions = {
+            targetSampleRate: TARGET_SAMPLE_RATE,
+            frameSize: Math.round(TARGET_SAMPLE_RATE * this.frameDurationMs / 1000)
+        };
+        const workletNode = new AudioWorkletNode(context, 'capture-processor', {
+            numberOfInputs: 1,
+            numberOfOutputs: 1,
+            channelCount: 1,
+            processorOptions
+        });
+        workletNode.port.onmessage = (event: MessageEvent<CaptureFrameMessage>) => {
+            onFrame(event.data.samples, event.data.sampleRate);
+        };
+        this.workletNode = workletNode;
+
+        const source = context.createMediaStreamSource(this.stream);
+        const analyser = context.createAnalyser();
+        this.analyser = analyser;
+
+        source.connect(analyser);
+        source.connect(workletNode);
+        // The processor writes nothing to its output; the connection only keeps it in the rendering graph.
+        workletNode.connect(context.destination);
+    }
+
+    stop() {
+        if (this.stream) {
+            this.stream.getTracks().forEach(track => track.stop());
+            this.stream = null;
+        }
+        if (this.workletNode) {
+            this.workletNode.port.onmessage = null;
+            this.workletNode.disconnect();
+            this.workletNode = null;
+        }
+        if (this.context && this.context.state !== 'closed') {
+            this.context.close();
+        }
+        this.context = null;
+        this.analyser = null;
+    }
+}
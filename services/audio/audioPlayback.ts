@@ -0,0 +1,77 @@
+import playbackProcessorUrl from "./worklets/playbackProcessor.ts?worker&url";
+import type { PlaybackCommand, PlaybackEvent } from "./worklets/playbackProcessor";
+import { PLAYER_SAMPLE_RATE } from "./pcm";
+
+// Speaker output behind an interface so the conversation pipeline can run on fake sinks in tests
+export interface AudioPlaybackSink {
+    start: () => Promise<void>;
+    enqueue: (samples: Float32Array) => void;
+    // Stops playback and drops everything queued (for interruption)
+    flush: () => void;
+    close: () => void;
+    // Called when the queue runs dry after playing at least one chunk
+    onDrained: (() => void) | null;
+    // Samples actually played since start; flushed samples never count. May lag by a few tens of ms.
+    readonly playedSamples: number;
+}
+
+// Streams chunks into a ring buffer inside an AudioWorklet, which plays them back to back
+export class RingBufferPlayback implements AudioPlaybackSink {
+    onDrained: (() => void) | null = null;
+    playedSamples = 0;
+
+    private context: AudioContext | null = null;
+    private workletNode: AudioWorkletNode | null = null;
+
+    async start() {
+        const context = new (window.AudioContext || window.webkitAudioContext)({ sampleRate: PLAYER_SAMPLE_RATE });
+        this.context = context;
+        await context.audioWorklet.addModule(playbackProcessorUrl);
+
+        const workletNode = new AudioWorkletNode(context, 'playback-processor', {
+            numberOfInputs: 0,
+            numberOfOutputs: 1,
+            outputChannelCount: [1]
+        });
+        workletNode.port.onmessage = (event: MessageEvent<PlaybackEvent>) => {
+            if (event.data.type === 'progress') {
+                this.playedSamples = event.data.playedSamples;
+            } else if (event.data.type === 'drained') {
+                this.playedSamples = event.data.playedSamples;
+                this.onDrained?.();
+            } else {
+                console.warn(`Playback buffer full, dropped ${event.data.droppedSamples} samples`);
+            }
+        };
+        workletNode.connect(context.destination);
+        this.workletNode = workletNode;
+
+        if (context.state === 'suspended') {
+            await context.resume();
+        }
+    }
+
+    enqueue(samples: Float32Array) {
+        this.send({ type: 'push', samples }, [samples.buffer as ArrayBuffer]);
+    }
+
+    flush() {
+        this.send({ type: 'flush' });
+    }
+
+    close() {
+        if (this.workletNode) {
+            this.workletNode.port.onmessage = null;
+            this.workletNode.disconnect();
+            this.workletNode = null;
+        }
+        if (this.context && this.context.state !== 'closed') {
+            this.context.close();
+        }
+        this.context = null;
+    }
+
+    private send(command: PlaybackCommand, transfer: Transferable[] = []) {
+        this.workletNode?.port.postMessage(command, transfer);
+    }
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import {
+    arrayBufferToBase64,
+    base64ToArrayBuffer,
+    computeRms,
+    decodePcm16Base64,
+    downsample,
+    encodePcm16Base64,
+    floatToPcm16,
+    pcm16ToFloat
+} from "./pcm";
+
+const sine = (length: number, sampleRate: number, frequency: number, amplitude = 0.5) =>
+    Float32Array.from({ length }, (_, i) => amplitude * Math.sin(2 * Math.PI * frequency * i / sampleRate));
+
+describe('downsample', () => {
+    it('returns the input unchanged when the rates match', () => {
+        const input = new Float32Array([0.1, 0.2, 0.3]);
+        expect(downsample(input, 16000)).toBe(input);
+    });
+
+    it('averages groups of samples for integer ratios', () => {
+        const input = new Float32Array([0, 0.3, 0.6, 0.3, 0.6, 0.9]);
+        expect(Array.from(downsample(input, 48000))).toEqual([
+            expect.closeTo(0.3, 6),
+            expect.closeTo(0.6, 6)
+        ]);
+    });
+
+    it('produces the expected length for 44.1 kHz input', () => {
+        expect(downsample(new Float32Array(4410), 44100).length).toBe(1600);
+        expect(downsample(new Float32Array(4096), 48000).length).toBe(1365);
+    });
+
+    it('keeps low frequencies and their level intact', () => {
+        const input = sine(4800, 48000, 440);
+        const output = downsample(input, 48000);
+        expect(computeRms(output)).toBeCloseTo(computeRms(input), 2);
+    });
+
+    it('handles empty input', () => {
+        expect(downsample(new Float32Array(0), 48000).length).toBe(0);
+    });
+});
+
+describe('PCM16 conversion', () => {
+    it('maps the float range onto the full int16 range', () => {
+        expect(Array.from(floatToPcm16(new Float32Array([0, 1, -1, 0.5, -0.5])))).toEqual([0, 32767, -32768, 16383, -16384]);
+    });
+
+    it('clips samples outside [-1, 1]', () => {
+        expect(Array.from(floatToPcm16(new Float32Array([1.5, -2])))).toEqual([32767, -32768]);
+    });
+
+    it('round-trips within one quantization step', () => {
+        const input = sine(256, 16000, 1000, 0.9);
+        const output = pcm16ToFloat(floatToPcm16(input));
+        input.forEach((sample, i) => expect(Math.abs(output[i] - sample)).toBeLessThan(1 / 16384));
+    });
+});
+
+describe('base64 helpers', () => {
+    it('round-trips arbitrary bytes', () => {
+        const bytes = Uint8Array.from({ length: 256 }, (_, i) => i);
+        const encoded = arrayBufferToBase64(bytes.buffer);
+        expect(new Uint8Array(base64ToArrayBuffer(encoded))).toEqual(bytes);
+    });
+
+    it('matches the standard base64 alphabet', () => {
+        expect(arrayBufferToBase64(new TextEncoder().encode('Gemini').buffer as ArrayBuffer)).toBe('R2VtaW5p');
+        expect(new TextDecoder().decode(base64ToArrayBuffer('R2VtaW5p'))).toBe('Gemini');
+    });
+
+    it('encodes PCM16 little-endian, two bytes per sample', () => {
+        const encoded = encodePcm16Base64(new Float32Array([1, -1]));
+        expect(Array.from(new Uint8Array(base64ToArrayBuffer(encoded)))).toEqual([0xff, 0x7f, 0x00, 0x80]);
+    });
+
+    it('decodes what it encodes', () => {
+        const input = sine(480, 24000, 300);
+        const decoded = decodePcm16Base64(encodePcm16Base64(input));
+        expect(decoded.length).toBe(input.length);
+        expect(computeRms(decoded)).toBeCloseTo(computeRms(input), 3);
+    });
+});
+
+describe('computeRms', () => {
+    it('is zero for silence and empty frames', () => {
+        expect(computeRms(new Float32Array(128))).toBe(0);
+        expect(computeRms(new Float32Array(0))).toBe(0);
+    });
+
+    it('is amplitude / sqrt(2) for a sine wave', () => {
+        expect(computeRms(sine(16000, 16000, 100, 0.5))).toBeCloseTo(0.5 / Math.SQRT2, 3);
+    });
+});
@@ -0,0 +1,79 @@
+// Sample-format helpers shared by capture and playback.
+// Gemini Live takes 16 kHz mono PCM16 in and returns 24 kHz mono PCM16 out, both base64 encoded.
+
+export const TARGET_SAMPLE_RATE = 16000;
+export const PLAYER_SAMPLE_RATE = 24000;
+
+// Helper to convert Base64 to an ArrayBuffer
+export const base64ToArrayBuffer = (base64: string): ArrayBuffer => {
+    const binaryString = atob(base64);
+    const len = binaryString.length;
+    const bytes = new Uint8Array(len);
+    for (let i = 0; i < len; i++) {
+        bytes[i] = binaryString.charCodeAt(i);
+    }
+    return bytes.buffer;
+};
+
+export const arrayBufferToBase64 = (buffer: ArrayBuffer): string => {
+    let binary = '';
+    const bytes = new Uint8Array(buffer);
+    for (let i = 0; i < bytes.byteLength; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary);
+};
+
+// Averages the input samples that fall into each output sample
+export const downsample = (input: Float32Array, inputSampleRate: number, outputSampleRate = TARGET_SAMPLE_RATE): Float32Array => {
+    if (inputSampleRate === outputSampleRate) {
+        return input;
+    }
+    const sampleRateRatio = inputSampleRate / outputSampleRate;
+    const newLength = Math.round(input.length / sampleRateRatio);
+    const downsampled = new Float32Array(newLength);
+    let offsetResult = 0;
+    let offsetBuffer = 0;
+    while (offsetResult < downsampled.length) {
+        const nextOffsetBuffer = Math.round((offsetResult + 1) * sampleRateRatio);
+        let accum = 0, count = 0;
+        for (let i = offsetBuffer; i < nextOffsetBuffer && i < input.length; i++) {
+            accum += input[i];
+            count++;
+        }
+        downsampled[offsetResult] = count > 0 ? accum / count : 0;
+        offsetResult++;
+        offsetBuffer = nextOffsetBuffer;
+    }
+    return downsampled;
+};
+
+export const floatToPcm16 = (samples: Float32Array): Int16Array => {
+    const pcm16 = new Int16Array(samples.length);
+    for (let i = 0; i < samples.length; i++) {
+        const s = Math.max(-1, Math.min(1, samples[i]));
+        pcm16[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+    }
+    return pcm16;
+};
+
+export const pcm16ToFloat = (pcm16: Int16Array): Float32Array => {
+    const pcm32 = new Float32Array(pcm16.length);
+    for (let i = 0; i < pcm16.length; i++) {
+        pcm32[i] = pcm16[i] / 32767.0; // Convert Int16 to Float32 range [-1, 1]
+    }
+    return pcm32;
+};
+
+export const computeRms = (samples: Float32Array): number => {
+    if (samples.length === 0) return 0;
+    let sumSquares = 0.0;
+    for (const sample of samples) {
+        sumSquares += sample * sample;
+    }
+    return Math.sqrt(sumSquares / samples.length);
+};
+
+export const encodePcm16Base64 = (samples: Float32Array): string => arrayBufferToBase64(floatToPcm16(samples).buffer as ArrayBuffer);
+
+export const decodePcm16Base64 = (base64: string): Float32Array => pcm16ToFloat(new Int16Array(base64ToArrayBuffer(base64)));
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { createVoiceActivityDetector } from "./vad";
+
+const SAMPLE_RATE = 16000;
+
+// `ms` of a 220 Hz tone; its RMS is amplitude / √2
+const tone = (ms: number, amplitude: number) =>
+    Float32Array.from({ length: SAMPLE_RATE * ms / 1000 }, (_, i) => amplitude * Math.sin(2 * Math.PI * 220 * i / SAMPLE_RATE));
+
+// Feeds `ms` of tone in the capture worklet's 40 ms frames and returns every result
+const feed = (vad: ReturnType<typeof createVoiceActivityDetector>, ms: number, amplitude: number) =>
+    Array.from({ length: Math.ceil(ms / 40) }, () => vad.process(tone(40, amplitude)));
+
+describe('createVoiceActivityDetector', () => {
+    it('ignores a click shorter than the minimum speech duration', () => {
+        const vad = createVoiceActivityDetector({ minSpeechMs: 60 });
+        feed(vad, 800, 0.0005);
+
+        const click = vad.process(tone(40, 0.5));
+        expect(click.isVoiced).toBe(true);
+        expect(click.speechStarted).toBe(false);
+        expect(feed(vad, 400, 0.0005).some(result => result.isSpeech)).toBe(false);
+    });
+
+    it('hears soft speech in a quiet room', () => {
+        const vad = createVoiceActivityDetector();
+        feed(vad, 800, 0.0005);
+
+        const [first, second] = feed(vad, 80, 0.012);
+        expect(first.isSpeech).toBe(false);
+        expect(second.speechStarted).toBe(true);
+        expect(second.isSpeech).toBe(true);
+    });
+
+    it('keeps a turn open through short pauses and ends it after the hangover', () => {
+        const vad = createVoiceActivityDetector({ hangoverMs: 400 });
+        feed(vad, 800, 0.0005);
+        feed(vad, 400, 0.2);
+
+        const pause = feed(vad, 240, 0.0005);
+        expect(pause.every(result => result.isSpeech && !result.isVoiced)).toBe(true);
+        expect(feed(vad, 160, 0.2).some(result => result.speechStarted)).toBe(false);
+
+        const silence = feed(vad, 480, 0.0005);
+        expect(silence.filter(result => result.speechEnded)).toHaveLength(1);
+        expect(vad.isSpeech).toBe(false);
+    });
+
+    it('learns steady background noise and still hears speech over it', () => {
+        const vad = createVoiceActivityDetector();
+        // A fan switching on reads as speech at first
+        expect(feed(vad, 400, 0.02).some(result => result.isSpeech)).toBe(true);
+
+        const fan = feed(vad, 10000, 0.02);
+        expect(fan.slice(-10).every(result => !result.isSpeech && !result.isVoiced)).toBe(true);
+        expect(fan[fan.length - 1].noiseFloor).toBeGreaterThan(0.01);
+
+        expect(feed(vad, 80, 0.2).some(result => result.speechStarted)).toBe(true);
+    });
+
+    it('follows new options and forgets the room on reset', () => {
+        const vad = createVoiceActivityDetector();
+        feed(vad, 800, 0.0005);
+        vad.setOptions({ minLevel: 0.05 });
+        expect(feed(vad, 400, 0.012).some(result => result.isVoiced)).toBe(false);
+
+        feed(vad, 400, 0.2);
+        expect(vad.isSpeech).toBe(true);
+        vad.reset();
+        expect(vad.isSpeech).toBe(false);
+    });
+});
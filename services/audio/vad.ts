@@ -0,0 +1,128 @@
+import { computeRms } from "./pcm";
+
+// Client-side voice activity detection. Audio is judged in short frames against a noise floor that
+// follows the room: it drops quickly when things get quieter and rises slowly under steady noise,
+// so a fan or hum stops counting as speech while a soft speaker in a quiet room still does.
+// Speech must last `minSpeechMs` to start (keyboard clicks and bumps are shorter) and ends only
+// after `hangoverMs` of silence, so pauses between words do not split a turn.
+
+export interface VadOptions {
+    // How far above the noise floor a frame must be to count as speech; 2 is about 6 dB
+    thresholdRatio: number;
+    // Frames quieter than this never count as speech, however quiet the room
+    minLevel: number;
+    minSpeechMs: number;
+    hangoverMs: number;
+}
+
+export interface VadResult {
+    // Whether the user is talking at the end of this block, including pauses within the hangover
+    isSpeech: boolean;
+    // Some frame of this block was loud enough to be speech
+    isVoiced: boolean;
+    // Speech began or ended within this block
+    speechStarted: boolean;
+    speechEnded: boolean;
+    // RMS of the block and the noise floor it was judged against
+    level: number;
+    noiseFloor: number;
+}
+
+export const DEFAULT_VAD_OPTIONS: VadOptions = {
+    thresholdRatio: 2.8,
+    minLevel: 0.004,
+    minSpeechMs: 60,
+    hangoverMs: 400
+};
+
+const FRAME_MS = 20;
+const INITIAL_NOISE_FLOOR = 0.002;
+const MIN_NOISE_FLOOR = 0.0005;
+// Time constants for the noise floor following quieter and louder surroundings. Loud frames still
+// raise it, very slowly, so noise that starts above the threshold is learned within seconds.
+const FLOOR_FALL_MS = 100;
+const FLOOR_RISE_MS = 3000;
+const FLOOR_RISE_LOUD_MS = 20000;
+
+const smoothing = (frameMs: number, timeConstantMs: number) => 1 - Math.exp(-frameMs / timeConstantMs);
+
+export const createVoiceActivityDetector = (initialOptions: Partial<VadOptions> = {}) => {
+    let options: VadOptions = { ...DEFAULT_VAD_OPTIONS, ...initialOptions };
+    let noiseFloor = INITIAL_NOISE_FLOOR;
+    let isSpeech = false;
+    // Consecutive milliseconds of loud frames while silent, or of quiet frames while speaking
+    let candidateMs = 0;
+
+    const isLoudLevel = (level: number) => level > Math.max(options.minLevel, noiseFloor * options.thresholdRatio);
+
+    const updateNoiseFloor = (isLoud: boolean, level: number, frameMs: number) => {
+        const timeConstant = level < noiseFloor ? FLOOR_FALL_MS : isLoud ? FLOOR_RISE_LOUD_MS : FLOOR_RISE_MS;
+        noiseFloor = Math.max(MIN_NOISE_FLOOR, noiseFloor + (level - noiseFloor) * smoothing(frameMs, timeConstant));
+    };
+
+    const processFrame = (isLoud: boolean, frameMs: number) => {
+        if (isSpeech) {
+            candidateMs = isLoud ? 0 : candidateMs + frameMs;
+            if (candidateMs >= options.hangoverMs) {
+                isSpeech = false;
+                candidateMs = 0;
+                return 'ended' as const;
+            }
+            return null;
+        }
+        if (isLoud) {
+            candidateMs += frameMs;
+            if (candidateMs >= options.minSpeechMs) {
+                isSpeech = true;
+                candidateMs = 0;
+                return 'started' as const;
+            }
+            return null;
+        }
+        candidateMs = 0;
+        return null;
+    };
+
+    // Judges a block of 16 kHz samples in FRAME_MS frames. Leftover samples join the block's last
+    // frame rather than the next block, so a loud block never makes the following quiet one look voiced.
+    const process = (samples: Float32Array, sampleRate = 16000): VadResult => {
+        const frameLength = Math.round(sampleRate * FRAME_MS / 1000);
+        const frameCount = Math.max(1, Math.floor(samples.length / frameLength));
+
+        let speechStarted = false;
+        let speechEnded = false;
+        let isVoiced = false;
+        for (let frame = 0; frame < frameCount && samples.length > 0; frame++) {
+            const end = frame === frameCount - 1 ? samples.length : (frame + 1) * frameLength;
+            const frameSamples = samples.subarray(frame * frameLength, end);
+            const level = computeRms(frameSamples);
+            const loud = isLoudLevel(level);
+            const frameMs = frameSamples.length / sampleRate * 1000;
+            isVoiced ||= loud;
+            updateNoiseFloor(loud, level, frameMs);
+            const change = processFrame(loud, frameMs);
+            speechStarted ||= change === 'started';
+            speechEnded ||= change === 'ended';
+        }
+        return { isSpeech, isVoiced, speechStarted, speechEnded, level: computeRms(samples), noiseFloor };
+    };
+
+    const reset = () => {
+        noiseFloor = INITIAL_NOISE_FLOOR;
+        isSpeech = false;
+        candidateMs = 0;
+    };
+
+    return {
+        process,
+        reset,
+        setOptions: (next: Partial<VadOptions>) => {
+            options = { ...options, ...next };
+        },
+        get isSpeech() {
+            return isSpeech;
+        }
+    };
+};
+
+export type VoiceActivityDetector = ReturnType<typeof createVoiceActivityDetector>;
@@ -0,0 +1,76 @@
+// AudioWorklet processor: averages microphone input down to the Live input rate and posts fixed-size frames.
+// Runs on the audio rendering thread, so UI re-renders cannot delay capture.
+
+// AudioWorkletGlobalScope members; not part of the DOM lib
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+    readonly port: MessagePort;
+    constructor(options?: { processorOptions?: unknown });
+}
+declare function registerProcessor(name: string, processorCtor: typeof AudioWorkletProcessor): void;
+
+export interface CaptureProcessorOptions {
+    targetSampleRate: number;
+    frameSize: number;
+}
+
+export interface CaptureFrameMessage {
+    samples: Float32Array;
+    sampleRate: number;
+}
+
+class CaptureProcessor extends AudioWorkletProcessor {
+    private readonly ratio: number;
+    private readonly targetSampleRate: number;
+    private frame: Float32Array;
+    private frameLength = 0;
+    // Streaming box filter state, carried across render quanta
+    private accumulator = 0;
+    private accumulatorCount = 0;
+    private position = 0;
+    private nextBoundary: number;
+
+    constructor(options: { processorOptions?: CaptureProcessorOptions }) {
+        super(options);
+        const { targetSampleRate = 16000, frameSize = 640 } = options.processorOptions ?? {};
+        this.targetSampleRate = targetSampleRate;
+        this.ratio = sampleRate / targetSampleRate;
+        this.nextBoundary = this.ratio;
+        this.frame = new Float32Array(frameSize);
+    }
+
+    process(inputs: Float32Array[][]) {
+        const channel = inputs[0]?.[0];
+        if (!channel) return true;
+
+        for (let i = 0; i < channel.length; i++) {
+            this.accumulator += channel[i];
+            this.accumulatorCount++;
+            this.position++;
+            if (this.position >= this.nextBoundary) {
+                this.pushSample(this.accumulator / this.accumulatorCount);
+                this.accumulator = 0;
+                this.accumulatorCount = 0;
+                this.nextBoundary += this.ratio;
+            }
+        }
+        // Keep the counters small so floating point error does not build up over long sessions
+        if (this.position > sampleRate) {
+            this.position -= sampleRate;
+            this.nextBoundary -= sampleRate;
+        }
+        return true;
+    }
+
+    private pushSample(sample: number) {
+        this.frame[this.frameLength++] = sample;
+        if (this.frameLength === this.frame.length) {
+            const message: CaptureFrameMessage = { samples: this.frame, sampleRate: this.targetSampleRate };
+            this.port.postMessage(message, [this.frame.buffer]);
+            this.frame = new Float32Array(this.frame.length);
+            this.frameLength = 0;
+        }
+    }
+}
+
+registerProcessor('capture-processor', CaptureProcessor);
@@ -0,0 +1,90 @@
+// AudioWorklet processor: plays model audio from a ring buffer fed by the main thread.
+// Chunks are appended without scheduling one source node per chunk, so playback is gapless.
+
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+    readonly port: MessagePort;
+    constructor(options?: { processorOptions?: unknown });
+}
+declare function registerProcessor(name: string, processorCtor: typeof AudioWorkletProcessor): void;
+
+export type PlaybackCommand =
+    | { type: 'push'; samples: Float32Array }
+    | { type: 'flush' };
+
+export type PlaybackEvent =
+    | { type: 'drained'; playedSamples: number }
+    | { type: 'overflow'; droppedSamples: number }
+    // Total samples played since the processor started, sent every PROGRESS_INTERVAL_SECONDS while playing
+    | { type: 'progress'; playedSamples: number };
+
+// Seconds of audio the ring buffer can hold ahead of the playhead
+const BUFFER_SECONDS = 60;
+// How often the main thread hears how far playback has got
+const PROGRESS_INTERVAL_SECONDS = 0.05;
+
+class PlaybackProcessor extends AudioWorkletProcessor {
+    private buffer = new Float32Array(sampleRate * BUFFER_SECONDS);
+    private readIndex = 0;
+    private available = 0;
+    private hasPlayed = false;
+    private playedSamples = 0;
+    private unreportedSamples = 0;
+
+    constructor(options?: { processorOptions?: unknown }) {
+        super(options);
+        this.port.onmessage = (event: MessageEvent<PlaybackCommand>) => {
+            if (event.data.type === 'push') {
+                this.write(event.data.samples);
+            } else {
+                this.available = 0;
+                this.hasPlayed = false;
+            }
+        };
+    }
+
+    process(_inputs: Float32Array[][], outputs: Float32Array[][]) {
+        const output = outputs[0][0];
+        for (let i = 0; i < output.length; i++) {
+            if (this.available === 0) {
+                output[i] = 0;
+                continue;
+            }
+            output[i] = this.buffer[this.readIndex];
+            this.readIndex = (this.readIndex + 1) % this.buffer.length;
+            this.available--;
+            this.hasPlayed = true;
+            this.playedSamples++;
+            this.unreportedSamples++;
+        }
+        if (this.hasPlayed && this.available === 0) {
+            this.hasPlayed = false;
+            this.unreportedSamples = 0;
+            this.post({ type: 'drained', playedSamples: this.playedSamples });
+        } else if (this.unreportedSamples >= sampleRate * PROGRESS_INTERVAL_SECONDS) {
+            this.unreportedSamples = 0;
+            this.post({ type: 'progress', playedSamples: this.playedSamples });
+        }
+        return true;
+    }
+
+    private write(samples: Float32Array) {
+        const free = this.buffer.length - this.available;
+        const count = Math.min(samples.length, free);
+        let writeIndex = (this.readIndex + this.available) % this.buffer.length;
+        for (let i = 0; i < count; i++) {
+            this.buffer[writeIndex] = samples[i];
+            writeIndex = (writeIndex + 1) % this.buffer.length;
+        }
+        this.available += count;
+        if (count < samples.length) {
+            this.post({ type: 'overflow', droppedSamples: samples.length - count });
+        }
+    }
+
+    private post(event: PlaybackEvent) {
+        this.port.postMessage(event);
+    }
+}
+
+registerProcessor('playback-processor', PlaybackProcessor);
@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { FakeIndexedDb } from "../test/fakeIndexedDb";
+import type { StoredConversation } from "./conversationStore";
+
+const DB_NAME = 'fm-accounting-assistant';
+
+const conversation = (id: string, updatedAt: number, text = 'Show me the trial balance'): StoredConversation => ({
+    id,
+    title: text,
+    startedAt: updatedAt - 1000,
+    updatedAt,
+    transcript: [{ id: 1, timestamp: updatedAt - 1000, kind: 'user', text, source: 'voice' }]
+});
+
+let indexedDb: FakeIndexedDb;
+// The store keeps its open database for the page's lifetime, so each test loads a fresh copy
+let store: typeof import("./conversationStore");
+
+beforeEach(async () => {
+    indexedDb = new FakeIndexedDb();
+    vi.stubGlobal('indexedDB', indexedDb.asFactory());
+    vi.resetModules();
+    store = await import("./conversationStore");
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('conversationStore', () => {
+    it('creates the object store on first open and reuses the connection', async () => {
+        await store.listConversations();
+        await store.listConversations();
+
+        expect(indexedDb.databases.get(DB_NAME)?.get('conversations')).toMatchObject({ keyPath: 'id', indexes: ['updatedAt'] });
+        expect(indexedDb.openCount).toBe(1);
+    });
+
+    it('saves and loads a conversation', async () => {
+        const saved = conversation('a', 2000);
+        await store.saveConversation(saved);
+
+        await expect(store.getConversation('a')).resolves.toEqual(saved);
+        await expect(store.getConversation('missing')).resolves.toBeUndefined();
+    });
+
+    it('replaces a conversation saved under the same id', async () => {
+        await store.saveConversation(conversation('a', 2000));
+        await store.saveConversation({ ...conversation('a', 3000), title: 'Renamed' });
+
+        expect(indexedDb.records(DB_NAME, 'conversations')).toEqual([{ ...conversation('a', 3000), title: 'Renamed' }]);
+    });
+
+    it('lists the most recently updated first', async () => {
+        await store.saveConversation(conversation('old', 1000));
+        await store.saveConversation(conversation('new', 3000));
+        await store.saveConversation(conversation('mid', 2000));
+
+        expect((await store.listConversations()).map(saved => saved.id)).toEqual(['new', 'mid', 'old']);
+    });
+
+    it('deletes one conversation or all of them', async () => {
+        await store.saveConversation(conversation('a', 1000));
+        await store.saveConversation(conversation('b', 2000));
+        await store.saveConversation(conversation('c', 3000));
+
+        await store.deleteConversation('b');
+        expect((await store.listConversations()).map(saved => saved.id)).toEqual(['c', 'a']);
+
+        await store.clearConversations();
+        await expect(store.listConversations()).resolves.toEqual([]);
+    });
+
+    it('rejects when the database cannot be opened, then tries again', async () => {
+        const blocked = new DOMException('Storage is disabled', 'InvalidStateError');
+        indexedDb.openError = blocked;
+
+        await expect(store.listConversations()).rejects.toBe(blocked);
+        await expect(store.listConversations()).resolves.toEqual([]);
+        expect(indexedDb.openCount).toBe(2);
+    });
+
+    it('rejects a save that aborts and keeps what was stored before', async () => {
+        await store.saveConversation(conversation('a', 1000));
+        const quota = new DOMException('Quota exceeded', 'QuotaExceededError');
+        indexedDb.transactionError = quota;
+
+        await expect(store.saveConversation(conversation('b', 2000))).rejects.toBe(quota);
+        await expect(store.deleteConversation('a')).rejects.toBe(quota);
+        await expect(store.getConversation('a')).rejects.toBe(quota);
+
+        indexedDb.transactionError = null;
+        expect((await store.listConversations()).map(saved => saved.id)).toEqual(['a']);
+    });
+});
+
+describe('deriveConversationTitle', () => {
+    it('uses the first thing the user said, shortened to 60 characters', () => {
+        expect(store.deriveConversationTitle(conversation('a', 1000, '  Show me March  ').transcript, 0)).toBe('Show me March');
+        expect(store.deriveConversationTitle(conversation('a', 1000, 'x'.repeat(61)).transcript, 0)).toBe(`${'x'.repeat(57)}...`);
+    });
+
+    it('falls back to the start time', () => {
+        expect(store.deriveConversationTitle([], 0)).toBe(`Conversation on ${new Date(0).toLocaleString()}`);
+    });
+});
+
+describe('conversationMatches', () => {
+    it('matches the title, the turns and the tools used', () => {
+        const saved: StoredConversation = {
+            ...conversation('a', 1000, 'How are we doing?'),
+            transcript: [
+                ...conversation('a', 1000, 'How are we doing?').transcript,
+                { id: 2, timestamp: 1000, kind: 'tool_call', name: 'budget_tracker', args: { category: 'Marketing' } }
+            ]
+        };
+
+        expect(store.conversationMatches(saved, '  ')).toBe(true);
+        expect(store.conversationMatches(saved, 'DOING')).toBe(true);
+        expect(store.conversationMatches(saved, 'budget_tracker')).toBe(true);
+        expect(store.conversationMatches(saved, 'marketing')).toBe(true);
+        expect(store.conversationMatches(saved, 'payroll')).toBe(false);
+    });
+});
@@ -0,0 +1,90 @@
+import { TranscriptEntry } from "../types";
+
+// Local conversation history kept in IndexedDB so past sessions can be reopened
+
+export interface StoredConversation {
+    id: string;
+    title: string;
+    startedAt: number;
+    updatedAt: number;
+    transcript: TranscriptEntry[];
+}
+
+const DB_NAME = 'fm-accounting-assistant';
+const DB_VERSION = 1;
+const STORE_NAME = 'conversations';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+                store.createIndex('updatedAt', 'updatedAt');
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORE_NAME, mode);
+        const request = operation(transaction.objectStore(STORE_NAME));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
+
+export const saveConversation = async (conversation: StoredConversation): Promise<void> => {
+    await withStore('readwrite', store => store.put(conversation));
+};
+
+export const getConversation = (id: string): Promise<StoredConversation | undefined> =>
+    withStore('readonly', store => store.get(id) as IDBRequest<StoredConversation | undefined>);
+
+// Most recently updated first
+export const listConversations = async (): Promise<StoredConversation[]> => {
+    const conversations = await withStore('readonly', store => store.getAll() as IDBRequest<StoredConversation[]>);
+    return conversations.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const deleteConversation = async (id: string): Promise<void> => {
+    await withStore('readwrite', store => store.delete(id));
+};
+
+export const clearConversations = async (): Promise<void> => {
+    await withStore('readwrite', store => store.clear());
+};
+
+// Uses the first thing the user said or typed, falling back to the start time
+export const deriveConversationTitle = (transcript: TranscriptEntry[], startedAt: number): string => {
+    const firstUserTurn = transcript.find(entry => entry.kind === 'user' && entry.text.trim());
+    if (firstUserTurn && firstUserTurn.kind === 'user') {
+        const text = firstUserTurn.text.trim();
+        return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+    }
+    return `Conversation on ${new Date(startedAt).toLocaleString()}`;
+};
+
+// Case-insensitive match against the title, every turn's text and the tools used
+export const conversationMatches = (conversation: StoredConversation, query: string): boolean => {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return true;
+    if (conversation.title.toLowerCase().includes(needle)) return true;
+    return conversation.transcript.some(entry => {
+        if (entry.kind === 'user' || entry.kind === 'assistant') {
+            return entry.text.toLowerCase().includes(needle);
+        }
+        return entry.name.toLowerCase().includes(needle) || JSON.stringify(entry.kind === 'tool_call' ? entry.args : entry.result).toLowerCase().includes(needle);
+    });
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { escapeCsvValue, ledgerToCsv, toCsv } from "./csv";
+
+const ledger = {
+    report_type: 'General Ledger Report',
+    date_range: { from: '2025-01-01', to: '2025-01-31' },
+    entries: [
+        { postingDate: '2025-01-05', account: 'Debtors', debit: 1200, credit: 0, balance: 1200, voucherType: 'Sales Invoice', voucherNo: 'SI-0001' },
+        { postingDate: '2025-01-20', account: 'Cash, Main', debit: 0, credit: -300, balance: 900, voucherType: 'Payment Entry', voucherNo: '=HYPERLINK("x")' }
+    ],
+    summary: { total_debits: 1200, total_credits: -300, net_balance: 900 }
+};
+
+describe('escapeCsvValue', () => {
+    it('quotes values with commas, quotes and line breaks', () => {
+        expect(escapeCsvValue('Cash, Main')).toBe('"Cash, Main"');
+        expect(escapeCsvValue('Say "hi"')).toBe('"Say ""hi"""');
+        expect(escapeCsvValue('line\nbreak')).toBe('"line\nbreak"');
+        expect(escapeCsvValue('plain')).toBe('plain');
+    });
+
+    it('writes nothing for null and JSON for objects', () => {
+        expect(escapeCsvValue(null)).toBe('');
+        expect(escapeCsvValue(undefined)).toBe('');
+        expect(escapeCsvValue({ a: 1 })).toBe('"{""a"":1}"');
+    });
+
+    it.each(['=1+1', '+cmd', '-2+3', '@SUM(A1)'])('neutralises the formula %s', formula => {
+        expect(escapeCsvValue(formula)).toBe(`'${formula}`);
+    });
+
+    it('neutralises a leading tab or carriage return', () => {
+        expect(escapeCsvValue('\t=1+1')).toBe("'\t=1+1");
+        expect(escapeCsvValue('\t42')).toBe("'\t42");
+        expect(escapeCsvValue('\r=1+1')).toBe(`"'\r=1+1"`);
+    });
+
+    it('keeps signed numbers as numbers', () => {
+        expect(escapeCsvValue(-300)).toBe('-300');
+        expect(escapeCsvValue('-12.5')).toBe('-12.5');
+        expect(escapeCsvValue('+7')).toBe('+7');
+    });
+});
+
+describe('toCsv', () => {
+    it('joins rows with CRLF and ends with one', () => {
+        expect(toCsv(['A', 'B'], [[1, 'x,y']])).toBe('A,B\r\n1,"x,y"\r\n');
+    });
+});
+
+describe('ledgerToCsv', () => {
+    it('writes the entries, a blank line and the summary', () => {
+        expect(ledgerToCsv(ledger)).toBe([
+            'Posting Date,Account,Debit,Credit,Balance,Voucher Type,Voucher No',
+            '2025-01-05,Debtors,1200,0,1200,Sales Invoice,SI-0001',
+            `2025-01-20,"Cash, Main",0,-300,900,Payment Entry,"'=HYPERLINK(""x"")"`,
+            '',
+            'Summary,Value',
+            'Total Debits,1200',
+            'Total Credits,-300',
+            'Net Balance,900',
+            ''
+        ].join('\r\n'));
+    });
+
+    it('refuses anything that is not a ledger report', () => {
+        expect(() => ledgerToCsv({ entries: [] })).toThrow('Not a General Ledger Report');
+    });
+});
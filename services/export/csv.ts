@@ -0,0 +1,45 @@
+import { isLedgerReport } from "./exportTypes";
+
+const LEDGER_COLUMNS: { key: string; header: string }[] = [
+    { key: 'postingDate', header: 'Posting Date' },
+    { key: 'account', header: 'Account' },
+    { key: 'debit', header: 'Debit' },
+    { key: 'credit', header: 'Credit' },
+    { key: 'balance', header: 'Balance' },
+    { key: 'voucherType', header: 'Voucher Type' },
+    { key: 'voucherNo', header: 'Voucher No' }
+];
+
+// RFC 4180 quoting; also neutralises leading formula characters so spreadsheets do not evaluate them.
+// Negative numbers stay as they are; a leading tab or carriage return is always neutralised.
+export const escapeCsvValue = (value: unknown): string => {
+    if (value === null || value === undefined) return '';
+    let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    if (/^[\t\r]/.test(text) || (/^[=+\-@]/.test(text) && Number.isNaN(Number(text)))) {
+        text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (headers: string[], rows: unknown[][]): string =>
+    [headers, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\r\n') + '\r\n';
+
+// Ledger entries followed by a blank line and the report summary
+export const ledgerToCsv = (ledgerData: unknown): string => {
+    if (!isLedgerReport(ledgerData)) {
+        throw new Error('Not a General Ledger Report');
+    }
+    const entries = toCsv(
+        LEDGER_COLUMNS.map(column => column.header),
+        ledgerData.entries.map(entry => LEDGER_COLUMNS.map(column => entry[column.key]))
+    );
+    const summary = toCsv(
+        ['Summary', 'Value'],
+        [
+            ['Total Debits', ledgerData.summary.total_debits],
+            ['Total Credits', ledgerData.summary.total_credits],
+            ['Net Balance', ledgerData.summary.net_balance]
+        ]
+    );
+    return `${entries}\r\n${summary}`;
+};
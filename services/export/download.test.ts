@@ -0,0 +1,26 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { printHtml } from "./download";
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('printHtml', () => {
+    it('writes the report and prints it without waiting for a load event', () => {
+        const document = { open: vi.fn(), write: vi.fn(), close: vi.fn() };
+        const printWindow = { document, focus: vi.fn(), print: vi.fn() };
+        vi.spyOn(window, 'open').mockReturnValue(printWindow as unknown as Window);
+
+        printHtml('<p>Report</p>');
+
+        expect(document.write).toHaveBeenCalledWith('<p>Report</p>');
+        expect(printWindow.print).toHaveBeenCalledTimes(1);
+        expect(document.close.mock.invocationCallOrder[0]).toBeLessThan(printWindow.print.mock.invocationCallOrder[0]);
+    });
+
+    it('explains a blocked pop-up', () => {
+        vi.spyOn(window, 'open').mockReturnValue(null);
+        expect(() => printHtml('<p>Report</p>')).toThrow('The print window was blocked');
+    });
+});
@@ -0,0 +1,25 @@
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Give the browser a moment to start the download before releasing the blob
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Opens the report in a new window and brings up the print dialog, where "Save as PDF" is available
+export const printHtml = (html: string) => {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+        throw new Error('The print window was blocked. Allow pop-ups for this site to export a PDF.');
+    }
+    printWindow.document.open();
+    printWindow.document.write(html);
+    // The written document is complete once close() returns; its load event may already have fired
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+};
@@ -0,0 +1,38 @@
+import { TranscriptEntry } from "../../types";
+
+// Anything with a transcript can be exported: the live conversation or one reopened from history
+export interface ExportableConversation {
+    id?: string | null;
+    title: string;
+    startedAt: number;
+    transcript: TranscriptEntry[];
+}
+
+export const formatToolName = (name: string) => name.replace(/_/g, ' ').replace(/\b\w/g, letter => letter.toUpperCase());
+
+export type LedgerReportResult = {
+    report_type: 'General Ledger Report';
+    date_range: { from: string; to: string };
+    entries: Record<string, unknown>[];
+    summary: Record<string, unknown>;
+    [key: string]: unknown;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isLedgerReport = (result: unknown): result is LedgerReportResult => {
+    if (!isRecord(result)) return false;
+    const { date_range: dateRange } = result;
+    return result.report_type === 'General Ledger Report'
+        && Array.isArray(result.entries)
+        && isRecord(dateRange) && typeof dateRange.from === 'string' && typeof dateRange.to === 'string'
+        && isRecord(result.summary);
+};
+
+// File-name-safe slug of the conversation title, prefixed with its date
+export const exportFileName = (conversation: ExportableConversation, extension: string) => {
+    const date = new Date(conversation.startedAt).toISOString().slice(0, 10);
+    const slug = conversation.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'conversation';
+    return `${date}-${slug}.${extension}`;
+};
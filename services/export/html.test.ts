@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { conversationToHtml } from "./html";
+import { ExportableConversation } from "./exportTypes";
+
+const conversation: ExportableConversation = {
+    title: 'Q1 <review>',
+    startedAt: Date.UTC(2025, 2, 31, 9),
+    transcript: [
+        { id: 1, timestamp: Date.UTC(2025, 2, 31, 9), kind: 'user', text: 'Is "A&B" <paid>?', source: 'text' },
+        { id: 2, timestamp: Date.UTC(2025, 2, 31, 9, 1), kind: 'assistant', text: 'Partly. Details follow.', heardText: 'Partly.', source: 'voice' },
+        {
+            id: 3,
+            timestamp: Date.UTC(2025, 2, 31, 9, 1),
+            kind: 'tool_result',
+            name: 'fetch_general_ledger',
+            result: {
+                report_type: 'General Ledger Report',
+                date_range: { from: '2025-03-01', to: '2025-03-31' },
+                entries: [{ postingDate: '2025-03-02', account: 'A&B', debit: 10, credit: 0, balance: 10, voucherType: 'Journal Entry', voucherNo: 'JV-1' }],
+                summary: { net_balance: 10 }
+            }
+        },
+        { id: 4, timestamp: Date.UTC(2025, 2, 31, 9, 2), kind: 'tool_result', name: 'budget_tracker', result: { status: 'over', variance: { amount: -5 } } },
+        { id: 5, timestamp: Date.UTC(2025, 2, 31, 9, 2), kind: 'tool_result', name: 'tax_calculator', result: null, error: 'Missing <table>' }
+    ]
+};
+
+describe('conversationToHtml', () => {
+    const html = conversationToHtml(conversation);
+
+    it('is a standalone document with an escaped title', () => {
+        expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+        expect(html).toContain('<title>Q1 &lt;review&gt;</title>');
+        expect(html).toContain('<h1>Q1 &lt;review&gt;</h1>');
+    });
+
+    it('escapes transcript text and strikes out the unheard part of an interrupted answer', () => {
+        expect(html).toContain('<p>Is &quot;A&amp;B&quot; &lt;paid&gt;?</p>');
+        expect(html).toMatch(/· interrupted<\/div><p>Partly\. <del>Details follow\.<\/del><\/p>/);
+        expect(html).not.toContain('<paid>');
+    });
+
+    it('renders ledger results as tables with right-aligned amounts', () => {
+        expect(html).toContain('<th class="num">Debit</th>');
+        expect(html).toContain('<td>A&amp;B</td><td class="num">10</td><td class="num">0</td><td class="num">10</td>');
+        expect(html).toContain('<td>net_balance</td><td class="num">10</td>');
+    });
+
+    it('shows nested values as JSON and errors as text', () => {
+        expect(html).toContain('<td>variance</td><td>{\n  &quot;amount&quot;: -5\n}</td>');
+        expect(html).toContain('Tool error: Tax Calculator');
+        expect(html).toContain('<p>Missing &lt;table&gt;</p>');
+    });
+});
@@ -0,0 +1,88 @@
+import { TranscriptEntry } from "../../types";
+import { ExportableConversation, formatToolName, isLedgerReport } from "./exportTypes";
+import { splitInterruptedAnswer } from "../assistantGeneration";
+
+const escapeHtml = (value: unknown) => String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const htmlTable = (headers: string[], rows: unknown[][], numericColumns: number[] = []) => `
+<table>
+  <thead><tr>${headers.map((header, i) => `<th${numericColumns.includes(i) ? ' class="num"' : ''}>${escapeHtml(header)}</th>`).join('')}</tr></thead>
+  <tbody>${rows.map(row => `<tr>${row.map((cell, i) => `<td${numericColumns.includes(i) ? ' class="num"' : ''}>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('')}</tbody>
+</table>`;
+
+const resultToHtml = (result: unknown): string => {
+    if (isLedgerReport(result)) {
+        const columns = ['postingDate', 'account', 'debit', 'credit', 'balance', 'voucherType', 'voucherNo'];
+        const entries = htmlTable(
+            ['Date', 'Account', 'Debit', 'Credit', 'Balance', 'Voucher Type', 'Voucher No'],
+            result.entries.map(entry => columns.map(column => entry[column])),
+            [2, 3, 4]
+        );
+        return entries + htmlTable(['Summary', 'Value'], Object.entries(result.summary), [1]);
+    }
+    if (typeof result === 'object' && result !== null && !Array.isArray(result)) {
+        return htmlTable(['Field', 'Value'], Object.entries(result)
+            .filter(([, value]) => value !== undefined)
+            .map(([key, value]) => [key, typeof value === 'object' && value !== null ? JSON.stringify(value, null, 2) : value]));
+    }
+    return `<pre>${escapeHtml(JSON.stringify(result, null, 2))}</pre>`;
+};
+
+const entryToHtml = (entry: TranscriptEntry): string => {
+    const time = escapeHtml(new Date(entry.timestamp).toLocaleTimeString());
+    switch (entry.kind) {
+        case 'user':
+            return `<div class="turn user"><div class="meta">You · ${time}</div><p>${escapeHtml(entry.text)}</p></div>`;
+        case 'assistant': {
+            const interrupted = splitInterruptedAnswer(entry);
+            if (interrupted) {
+                const unheard = interrupted.unheard ? ` <del>${escapeHtml(interrupted.unheard)}</del>` : '';
+                return `<div class="turn assistant"><div class="meta">Assistant · ${time} · interrupted</div><p>${escapeHtml(interrupted.heard)}${unheard}</p></div>`;
+            }
+            return `<div class="turn assistant"><div class="meta">Assistant · ${time}</div><p>${escapeHtml(entry.text)}</p></div>`;
+        }
+        case 'tool_call':
+            return `<div class="tool"><div class="meta">Tool call: ${escapeHtml(formatToolName(entry.name))} · ${time}</div><pre>${escapeHtml(JSON.stringify(entry.args, null, 2))}</pre></div>`;
+        case 'tool_result':
+            return entry.error
+                ? `<div class="tool error"><div class="meta">Tool error: ${escapeHtml(formatToolName(entry.name))} · ${time}</div><p>${escapeHtml(entry.error)}</p></div>`
+                : `<div class="tool"><div class="meta">Tool result: ${escapeHtml(formatToolName(entry.name))} · ${time}</div>${resultToHtml(entry.result)}</div>`;
+    }
+};
+
+// Standalone, print-friendly report; printing it to PDF gives accountants a file to attach
+export const conversationToHtml = (conversation: ExportableConversation): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(conversation.title)}</title>
+<style>
+  body { font-family: -apple-system, "Segoe UI", Roboto, sans-serif; color: #111827; margin: 2rem; font-size: 12px; }
+  h1 { font-size: 20px; margin-bottom: 0; }
+  .subtitle { color: #6b7280; margin-top: 4px; }
+  .turn, .tool { margin: 12px 0; padding: 8px 12px; border-radius: 6px; break-inside: avoid; }
+  .user { background: #eff6ff; }
+  .assistant { background: #f3f4f6; }
+  .tool { border: 1px solid #d1d5db; }
+  .error { border-color: #fca5a5; background: #fef2f2; }
+  .meta { font-size: 10px; color: #6b7280; margin-bottom: 4px; }
+  p { margin: 0; white-space: pre-wrap; }
+  table { border-collapse: collapse; width: 100%; margin: 8px 0; }
+  th, td { border: 1px solid #e5e7eb; padding: 4px 6px; text-align: left; vertical-align: top; white-space: pre-wrap; }
+  th { background: #f9fafb; }
+  .num { text-align: right; font-variant-numeric: tabular-nums; }
+  pre { margin: 0; white-space: pre-wrap; font-size: 11px; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(conversation.title)}</h1>
+<p class="subtitle">Conversation started ${escapeHtml(new Date(conversation.startedAt).toLocaleString())} · exported ${escapeHtml(new Date().toLocaleString())}</p>
+${conversation.transcript.map(entryToHtml).join('\n')}
+</body>
+</html>
+`;
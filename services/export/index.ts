@@ -0,0 +1,34 @@
+import { conversationToHtml } from "./html";
+import { conversationToJson } from "./json";
+import { conversationToMarkdown } from "./markdown";
+import { ledgerToCsv } from "./csv";
+import { downloadFile, printHtml } from "./download";
+import { ExportableConversation, exportFileName } from "./exportTypes";
+
+export type ConversationExportFormat = 'markdown' | 'json' | 'html' | 'pdf';
+
+export { conversationToHtml, conversationToJson, conversationToMarkdown, ledgerToCsv };
+export type { ExportableConversation };
+
+export const exportConversation = (conversation: ExportableConversation, format: ConversationExportFormat) => {
+    switch (format) {
+        case 'markdown':
+            downloadFile(exportFileName(conversation, 'md'), conversationToMarkdown(conversation), 'text/markdown;charset=utf-8');
+            break;
+        case 'json':
+            downloadFile(exportFileName(conversation, 'json'), conversationToJson(conversation), 'application/json');
+            break;
+        case 'html':
+            downloadFile(exportFileName(conversation, 'html'), conversationToHtml(conversation), 'text/html;charset=utf-8');
+            break;
+        case 'pdf':
+            printHtml(conversationToHtml(conversation));
+            break;
+    }
+};
+
+export const exportLedgerCsv = (ledgerData: unknown, fileNamePrefix = 'general-ledger') => {
+    const date = new Date().toISOString().slice(0, 10);
+    // Excel needs the byte order mark to read UTF-8 CSV correctly
+    downloadFile(`${fileNamePrefix}-${date}.csv`, '\uFEFF' + ledgerToCsv(ledgerData), 'text/csv;charset=utf-8');
+};
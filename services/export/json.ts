@@ -0,0 +1,13 @@
+import { ExportableConversation } from "./exportTypes";
+
+export const EXPORT_FORMAT_VERSION = 1;
+
+export const conversationToJson = (conversation: ExportableConversation): string =>
+    JSON.stringify({
+        format: 'fm-assistant-conversation',
+        version: EXPORT_FORMAT_VERSION,
+        exported_at: new Date().toISOString(),
+        title: conversation.title,
+        started_at: new Date(conversation.startedAt).toISOString(),
+        transcript: conversation.transcript.map(entry => ({ ...entry, timestamp: new Date(entry.timestamp).toISOString() }))
+    }, null, 2);
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { conversationToMarkdown } from "./markdown";
+import { ExportableConversation } from "./exportTypes";
+
+const conversation: ExportableConversation = {
+    title: 'March close',
+    startedAt: Date.UTC(2025, 2, 31, 9),
+    transcript: [
+        { id: 1, timestamp: Date.UTC(2025, 2, 31, 9), kind: 'user', text: 'Show the ledger', source: 'voice' },
+        { id: 2, timestamp: Date.UTC(2025, 2, 31, 9, 1), kind: 'assistant', text: 'Here it is. Anything else?', heardText: 'Here it is.', source: 'voice' },
+        { id: 3, timestamp: Date.UTC(2025, 2, 31, 9, 1), kind: 'tool_call', name: 'fetch_general_ledger', args: { account: 'Cash' } },
+        {
+            id: 4,
+            timestamp: Date.UTC(2025, 2, 31, 9, 1),
+            kind: 'tool_result',
+            name: 'fetch_general_ledger',
+            result: {
+                report_type: 'General Ledger Report',
+                date_range: { from: '2025-03-01', to: '2025-03-31' },
+                entries: [{ postingDate: '2025-03-02', account: 'Cash | Main', debit: 10, credit: 0, balance: 10, voucherType: 'Journal Entry', voucherNo: 'JV-1' }],
+                summary: { total_debits: 10, total_credits: 0 }
+            }
+        },
+        { id: 5, timestamp: Date.UTC(2025, 2, 31, 9, 2), kind: 'tool_result', name: 'budget_tracker', result: { status: 'over', variance: { amount: -5 } } },
+        { id: 6, timestamp: Date.UTC(2025, 2, 31, 9, 2), kind: 'tool_result', name: 'tax_calculator', result: null, error: 'No tax table' }
+    ]
+};
+
+describe('conversationToMarkdown', () => {
+    const markdown = conversationToMarkdown(conversation);
+
+    it('starts with the title and ends with a newline', () => {
+        expect(markdown.startsWith('# March close\n\n_Conversation started ')).toBe(true);
+        expect(markdown.endsWith('\n')).toBe(true);
+    });
+
+    it('marks spoken turns and strikes out the unheard part of an interrupted answer', () => {
+        expect(markdown).toMatch(/\*\*You\*\* \(.+, spoken\):\n\nShow the ledger/);
+        expect(markdown).toMatch(/\*\*Assistant\*\* \(.+, interrupted\):\n\nHere it is\. ~~Anything else\?~~/);
+    });
+
+    it('writes tool calls as JSON and ledger results as tables with escaped pipes', () => {
+        expect(markdown).toContain('**Tool call: Fetch General Ledger**');
+        expect(markdown).toContain('```json\n{\n  "account": "Cash"\n}\n```');
+        expect(markdown).toContain([
+            '| Date | Account | Debit | Credit | Balance | Voucher Type | Voucher No |',
+            '| --- | --- | --- | --- | --- | --- | --- |',
+            '| 2025-03-02 | Cash \\| Main | 10 | 0 | 10 | Journal Entry | JV-1 |'
+        ].join('\n'));
+        expect(markdown).toContain('| Summary | Value |\n| --- | --- |\n| total_debits | 10 |\n| total_credits | 0 |');
+    });
+
+    it('tables flat fields and falls back to JSON for nested ones', () => {
+        expect(markdown).toContain('| Field | Value |\n| --- | --- |\n| status | over |');
+        expect(markdown).toContain('**variance**\n\n```json\n{\n  "amount": -5\n}\n```');
+    });
+
+    it('shows tool errors instead of a result', () => {
+        expect(markdown).toMatch(/\*\*Tool error: Tax Calculator\*\* \(.+\): No tax table/);
+    });
+});
@@ -0,0 +1,67 @@
+import { TranscriptEntry } from "../../types";
+import { ExportableConversation, formatToolName, isLedgerReport } from "./exportTypes";
+import { splitInterruptedAnswer } from "../assistantGeneration";
+
+const escapeCell = (value: unknown) => String(value ?? '').replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+
+const markdownTable = (headers: string[], rows: unknown[][]) => [
+    `| ${headers.map(escapeCell).join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(escapeCell).join(' | ')} |`)
+].join('\n');
+
+const isPlainValue = (value: unknown) => value === null || ['string', 'number', 'boolean'].includes(typeof value);
+
+// Flat results become a two-column table; anything nested falls back to a JSON block
+const resultToMarkdown = (result: unknown): string => {
+    if (isLedgerReport(result)) {
+        const columns = ['postingDate', 'account', 'debit', 'credit', 'balance', 'voucherType', 'voucherNo'];
+        return [
+            markdownTable(
+                ['Date', 'Account', 'Debit', 'Credit', 'Balance', 'Voucher Type', 'Voucher No'],
+                result.entries.map(entry => columns.map(column => entry[column]))
+            ),
+            markdownTable(['Summary', 'Value'], Object.entries(result.summary))
+        ].join('\n\n');
+    }
+    if (typeof result === 'object' && result !== null && !Array.isArray(result)) {
+        const entries = Object.entries(result).filter(([, value]) => value !== undefined);
+        const flat = entries.filter(([, value]) => isPlainValue(value));
+        const nested = entries.filter(([, value]) => !isPlainValue(value));
+        const sections = [];
+        if (flat.length > 0) sections.push(markdownTable(['Field', 'Value'], flat));
+        for (const [key, value] of nested) {
+            sections.push(`**${key}**\n\n\`\`\`json\n${JSON.stringify(value, null, 2)}\n\`\`\``);
+        }
+        return sections.join('\n\n');
+    }
+    return `\`\`\`json\n${JSON.stringify(result, null, 2)}\n\`\`\``;
+};
+
+const entryToMarkdown = (entry: TranscriptEntry): string => {
+    const time = new Date(entry.timestamp).toLocaleTimeString();
+    switch (entry.kind) {
+        case 'user':
+            return `**You** (${time}${entry.source === 'voice' ? ', spoken' : ''}):\n\n${entry.text}`;
+        case 'assistant': {
+            const interrupted = splitInterruptedAnswer(entry);
+            if (interrupted) {
+                const unheard = interrupted.unheard ? ` ~~${interrupted.unheard}~~` : '';
+                return `**Assistant** (${time}, interrupted):\n\n${interrupted.heard}${unheard}`;
+            }
+            return `**Assistant** (${time}):\n\n${entry.text}`;
+        }
+        case 'tool_call':
+            return `**Tool call: ${formatToolName(entry.name)}** (${time})\n\n\`\`\`json\n${JSON.stringify(entry.args, null, 2)}\n\`\`\``;
+        case 'tool_result':
+            return entry.error
+                ? `**Tool error: ${formatToolName(entry.name)}** (${time}): ${entry.error}`
+                : `**Tool result: ${formatToolName(entry.name)}** (${time})\n\n${resultToMarkdown(entry.result)}`;
+    }
+};
+
+export const conversationToMarkdown = (conversation: ExportableConversation): string => [
+    `# ${conversation.title}`,
+    `_Conversation started ${new Date(conversation.startedAt).toLocaleString()}_`,
+    ...conversation.transcript.map(entryToMarkdown)
+].join('\n\n') + '\n';
@@ -0,0 +1,206 @@
+// Pure time-value-of-money helpers used by the financial metrics tool.
+// Cash flows follow the tool convention: `initialInvestment` is paid at t=0 and
+// `cashFlows[i]` is received at the end of period i + 1.
+
+export interface IrrOptions {
+    guess?: number;
+    tolerance?: number;
+    maxIterations?: number;
+}
+
+export interface IrrResult {
+    rate: number | null;
+    converged: boolean;
+    method: 'newton' | 'bisection' | 'none';
+    iterations: number;
+    signChanges: number;
+    // More than one sign change means more than one rate can zero the NPV
+    multipleRootsPossible: boolean;
+    message?: string;
+}
+
+const DEFAULT_TOLERANCE = 1e-7;
+const DEFAULT_MAX_ITERATIONS = 100;
+// Rates at or below -100% make the discount factor undefined
+const MIN_RATE = -0.9999;
+const MAX_RATE = 1000;
+
+const fullSeries = (initialInvestment: number, cashFlows: number[]) => [-initialInvestment, ...cashFlows];
+
+export const countSignChanges = (series: number[]): number => {
+    let changes = 0;
+    let previousSign = 0;
+    for (const value of series) {
+        const sign = Math.sign(value);
+        if (sign === 0) continue;
+        if (previousSign !== 0 && sign !== previousSign) changes++;
+        previousSign = sign;
+    }
+    return changes;
+};
+
+export const presentValue = (cashFlows: number[], rate: number): number =>
+    cashFlows.reduce((sum, cf, index) => sum + cf / Math.pow(1 + rate, index + 1), 0);
+
+export const netPresentValue = (initialInvestment: number, cashFlows: number[], rate: number): number =>
+    presentValue(cashFlows, rate) - initialInvestment;
+
+const npvDerivative = (series: number[], rate: number): number =>
+    series.reduce((sum, cf, t) => sum - (t * cf) / Math.pow(1 + rate, t + 1), 0);
+
+const npvOfSeries = (series: number[], rate: number): number =>
+    series.reduce((sum, cf, t) => sum + cf / Math.pow(1 + rate, t), 0);
+
+const newton = (series: number[], guess: number, tolerance: number, maxIterations: number) => {
+    let rate = guess;
+    for (let i = 1; i <= maxIterations; i++) {
+        const value = npvOfSeries(series, rate);
+        const slope = npvDerivative(series, rate);
+        if (!Number.isFinite(value) || !Number.isFinite(slope) || slope === 0) {
+            return { rate: null, iterations: i };
+        }
+        const next = rate - value / slope;
+        if (!Number.isFinite(next) || next <= MIN_RATE || next > MAX_RATE) {
+            return { rate: null, iterations: i };
+        }
+        if (Math.abs(next - rate) < tolerance) {
+            return { rate: next, iterations: i };
+        }
+        rate = next;
+    }
+    return { rate: null, iterations: maxIterations };
+};
+
+// Scan outwards from the lowest valid rate for an interval where the NPV changes sign
+const findBracket = (series: number[]): [number, number] | null => {
+    const probes = [MIN_RATE, -0.9, -0.5, -0.25, 0, 0.05, 0.1, 0.2, 0.35, 0.5, 0.75, 1, 2, 5, 10, 50, 100, MAX_RATE];
+    let previous = probes[0];
+    let previousValue = npvOfSeries(series, previous);
+    for (const probe of probes.slice(1)) {
+        const value = npvOfSeries(series, probe);
+        if (Number.isFinite(previousValue) && Number.isFinite(value) && Math.sign(value) !== Math.sign(previousValue)) {
+            return [previous, probe];
+        }
+        previous = probe;
+        previousValue = value;
+    }
+    return null;
+};
+
+const bisection = (series: number[], bracket: [number, number], tolerance: number, maxIterations: number) => {
+    let [low, high] = bracket;
+    let lowValue = npvOfSeries(series, low);
+    // Bisection halves the interval each step, so allow enough steps to reach the tolerance
+    const iterationsAllowed = Math.max(maxIterations, 200);
+    for (let i = 1; i <= iterationsAllowed; i++) {
+        const mid = (low + high) / 2;
+        const midValue = npvOfSeries(series, mid);
+        if (Math.abs(midValue) < tolerance || (high - low) / 2 < tolerance) {
+            return { rate: mid, iterations: i };
+        }
+        if (Math.sign(midValue) === Math.sign(lowValue)) {
+            low = mid;
+            lowValue = midValue;
+        } else {
+            high = mid;
+        }
+    }
+    return { rate: null, iterations: iterationsAllowed };
+};
+
+// Internal rate of return: Newton-Raphson first, bisection as a fallback when Newton diverges
+export const internalRateOfReturn = (initialInvestment: number, cashFlows: number[], options: IrrOptions = {}): IrrResult => {
+    const { guess = 0.1, tolerance = DEFAULT_TOLERANCE, maxIterations = DEFAULT_MAX_ITERATIONS } = options;
+    const series = fullSeries(initialInvestment, cashFlows);
+    const signChanges = countSignChanges(series);
+    const multipleRootsPossible = signChanges > 1;
+
+    if (signChanges === 0) {
+        return {
+            rate: null,
+            converged: false,
+            method: 'none',
+            iterations: 0,
+            signChanges,
+            multipleRootsPossible,
+            message: 'Cash flows never change sign, so no IRR exists'
+        };
+    }
+
+    const newtonResult = newton(series, guess, tolerance, maxIterations);
+    if (newtonResult.rate !== null) {
+        return { rate: newtonResult.rate, converged: true, method: 'newton', iterations: newtonResult.iterations, signChanges, multipleRootsPossible };
+    }
+
+    const bracket = findBracket(series);
+    if (!bracket) {
+        return {
+            rate: null,
+            converged: false,
+            method: 'bisection',
+            iterations: newtonResult.iterations,
+            signChanges,
+            multipleRootsPossible,
+            message: 'Could not find a rate range where the NPV changes sign'
+        };
+    }
+
+    const bisectionResult = bisection(series, bracket, tolerance, maxIterations);
+    return {
+        rate: bisectionResult.rate,
+        converged: bisectionResult.rate !== null,
+        method: 'bisection',
+        iterations: newtonResult.iterations + bisectionResult.iterations,
+        signChanges,
+        multipleRootsPossible,
+        message: bisectionResult.rate === null ? 'Bisection did not converge within the iteration limit' : undefined
+    };
+};
+
+// Modified IRR: negative flows are financed at `financeRate`, positive flows reinvested at `reinvestmentRate`
+export const modifiedInternalRateOfReturn = (
+    initialInvestment: number,
+    cashFlows: number[],
+    financeRate: number,
+    reinvestmentRate: number
+): number | null => {
+    const series = fullSeries(initialInvestment, cashFlows);
+    const periods = series.length - 1;
+    if (periods < 1) return null;
+
+    let presentValueOfOutflows = 0;
+    let futureValueOfInflows = 0;
+    series.forEach((cf, t) => {
+        if (cf < 0) {
+            presentValueOfOutflows += cf / Math.pow(1 + financeRate, t);
+        } else {
+            futureValueOfInflows += cf * Math.pow(1 + reinvestmentRate, periods - t);
+        }
+    });
+
+    if (presentValueOfOutflows === 0 || futureValueOfInflows === 0) return null;
+    return Math.pow(futureValueOfInflows / -presentValueOfOutflows, 1 / periods) - 1;
+};
+
+// Fractional payback: interpolates within the period in which the cumulative balance turns non-negative
+const fractionalPayback = (initialInvestment: number, periodFlows: number[]): number | null => {
+    let cumulative = -initialInvestment;
+    if (cumulative >= 0) return 0;
+    for (let i = 0; i < periodFlows.length; i++) {
+        const flow = periodFlows[i];
+        if (cumulative + flow >= 0 && flow > 0) {
+            return i + -cumulative / flow;
+        }
+        cumulative += flow;
+    }
+    return null;
+};
+
+export const paybackPeriod = (initialInvestment: number, cashFlows: number[]): number | null =>
+    fractionalPayback(initialInvestment, cashFlows);
+
+export const discountedPaybackPeriod = (initialInvestment: number, cashFlows: number[], rate: number): number | null =>
+    fractionalPayback(initialInvestment, cashFlows.map((cf, index) => cf / Math.pow(1 + rate, index + 1)));
+
+export const profitabilityIndex = (initialInvestment: number, cashFlows: number[], rate: number): number | null =>
+    initialInvestment === 0 ? null : presentValue(cashFlows, rate) / initialInvestment;
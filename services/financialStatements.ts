@@ -0,0 +1,409 @@
+import { roundCents } from "./accountingReports";
+import { formatAmount } from "./ledgerView";
+
+// Builds statements from categorised line items, with totals, ratios, period-over-period
+// comparison and plain-language observations the assistant can narrate
+
+export type StatementReportType = 'income_statement' | 'balance_sheet' | 'cash_flow' | 'budget_analysis';
+
+export type StatementCategory =
+    | 'revenue' | 'cost_of_goods_sold' | 'operating_expense' | 'other_income' | 'other_expense' | 'income_tax'
+    | 'current_asset' | 'non_current_asset' | 'current_liability' | 'non_current_liability' | 'equity'
+    | 'operating' | 'investing' | 'financing' | 'opening_cash';
+
+export const STATEMENT_CATEGORIES: Record<StatementReportType, StatementCategory[]> = {
+    income_statement: ['revenue', 'cost_of_goods_sold', 'operating_expense', 'other_income', 'other_expense', 'income_tax'],
+    balance_sheet: ['current_asset', 'non_current_asset', 'current_liability', 'non_current_liability', 'equity'],
+    // Cash flow amounts are signed: inflows positive, outflows negative
+    cash_flow: ['operating', 'investing', 'financing', 'opening_cash'],
+    // Budget lines are named by budget category and need no statement category
+    budget_analysis: []
+};
+
+export interface StatementLineItem {
+    name: string;
+    category?: StatementCategory;
+    amount: number;
+    prior_amount?: number;
+    budget_amount?: number;
+}
+
+export interface StatementLine {
+    name: string;
+    amount: number;
+    prior_amount: number | null;
+    change: number | null;
+    change_percent: number | null;
+}
+
+export interface StatementSection {
+    category: StatementCategory;
+    title: string;
+    lines: StatementLine[];
+    total: number;
+    prior_total: number | null;
+    change: number | null;
+    change_percent: number | null;
+}
+
+export interface BudgetLine {
+    name: string;
+    budget_amount: number;
+    actual_amount: number;
+    variance: number;
+    variance_percent: number | null;
+    utilization_percent: number | null;
+    status: 'Over Budget' | 'Under Budget' | 'On Budget';
+}
+
+export type Figures = Record<string, number | null>;
+
+export interface FinancialStatement {
+    sections: StatementSection[];
+    budget_lines?: BudgetLine[];
+    totals: Figures;
+    prior_totals: Figures | null;
+    ratios: Figures;
+    prior_ratios: Figures | null;
+    observations: string[];
+}
+
+const SECTION_TITLES: Record<StatementCategory, string> = {
+    revenue: 'Revenue',
+    cost_of_goods_sold: 'Cost of Goods Sold',
+    operating_expense: 'Operating Expenses',
+    other_income: 'Other Income',
+    other_expense: 'Other Expenses',
+    income_tax: 'Income Tax',
+    current_asset: 'Current Assets',
+    non_current_asset: 'Non-current Assets',
+    current_liability: 'Current Liabilities',
+    non_current_liability: 'Non-current Liabilities',
+    equity: 'Equity',
+    operating: 'Operating Activities',
+    investing: 'Investing Activities',
+    financing: 'Financing Activities',
+    opening_cash: 'Opening Cash'
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const percentChange = (current: number, prior: number | null) =>
+    prior === null || prior === 0 ? null : round2((current - prior) / Math.abs(prior) * 100);
+
+const percent = (part: number | null, whole: number | null) =>
+    part === null || whole === null || whole === 0 ? null : round2(part / whole * 100);
+
+const ratio = (numerator: number | null, denominator: number | null) =>
+    numerator === null || denominator === null || denominator === 0 ? null : round2(numerator / denominator);
+
+const describePercent = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(1)}%`;
+
+const buildSection = (items: StatementLineItem[], category: StatementCategory, hasPrior: boolean): StatementSection => {
+    const lines = items
+        .filter(item => item.category === category)
+        .map(item => {
+            const prior = hasPrior ? item.prior_amount ?? 0 : null;
+            return {
+                name: item.name,
+                amount: roundCents(item.amount),
+                prior_amount: prior === null ? null : roundCents(prior),
+                change: prior === null ? null : roundCents(item.amount - prior),
+                change_percent: percentChange(item.amount, prior)
+            };
+        });
+    const total = roundCents(lines.reduce((sum, line) => sum + line.amount, 0));
+    const priorTotal = hasPrior ? roundCents(lines.reduce((sum, line) => sum + (line.prior_amount ?? 0), 0)) : null;
+    return {
+        category,
+        title: SECTION_TITLES[category],
+        lines,
+        total,
+        prior_total: priorTotal,
+        change: priorTotal === null ? null : roundCents(total - priorTotal),
+        change_percent: percentChange(total, priorTotal)
+    };
+};
+
+// Runs a totals function over current and (when any line has one) prior amounts
+const buildPeriods = (items: StatementLineItem[], reportType: StatementReportType) => {
+    const hasPrior = items.some(item => item.prior_amount !== undefined);
+    const sections = STATEMENT_CATEGORIES[reportType].map(category => buildSection(items, category, hasPrior));
+    const current = (category: StatementCategory) => sections.find(section => section.category === category)?.total ?? 0;
+    const prior = (category: StatementCategory) => sections.find(section => section.category === category)?.prior_total ?? 0;
+    return { hasPrior, sections, current, prior };
+};
+
+// Largest moves between periods across the given sections, biggest first
+const largestChanges = (sections: StatementSection[], count: number) => sections
+    .flatMap(section => section.lines)
+    .filter(line => line.change !== null && line.change !== 0)
+    .sort((a, b) => Math.abs(b.change!) - Math.abs(a.change!))
+    .slice(0, count);
+
+const describeLineChange = (line: StatementLine) =>
+    `${line.name} ${line.change! > 0 ? 'rose' : 'fell'} by ${formatAmount(Math.abs(line.change!))}`
+    + (line.change_percent !== null ? ` (${describePercent(line.change_percent)})` : '');
+
+// --- Income statement ---
+
+const incomeTotals = (amount: (category: StatementCategory) => number): Figures => {
+    const revenue = amount('revenue');
+    const grossProfit = revenue - amount('cost_of_goods_sold');
+    const operatingIncome = grossProfit - amount('operating_expense');
+    const preTaxIncome = operatingIncome + amount('other_income') - amount('other_expense');
+    return {
+        revenue: roundCents(revenue),
+        cost_of_goods_sold: roundCents(amount('cost_of_goods_sold')),
+        gross_profit: roundCents(grossProfit),
+        operating_expenses: roundCents(amount('operating_expense')),
+        operating_income: roundCents(operatingIncome),
+        other_income: roundCents(amount('other_income')),
+        other_expenses: roundCents(amount('other_expense')),
+        pre_tax_income: roundCents(preTaxIncome),
+        income_tax: roundCents(amount('income_tax')),
+        net_income: roundCents(preTaxIncome - amount('income_tax'))
+    };
+};
+
+const incomeRatios = (totals: Figures): Figures => ({
+    gross_margin_percent: percent(totals.gross_profit, totals.revenue),
+    operating_margin_percent: percent(totals.operating_income, totals.revenue),
+    net_margin_percent: percent(totals.net_income, totals.revenue),
+    operating_expense_ratio_percent: percent(totals.operating_expenses, totals.revenue),
+    effective_tax_rate_percent: totals.pre_tax_income! > 0 ? percent(totals.income_tax, totals.pre_tax_income) : null
+});
+
+export const buildIncomeStatement = (items: StatementLineItem[], comparisonLabel = 'the prior period'): FinancialStatement => {
+    const { hasPrior, sections, current, prior } = buildPeriods(items, 'income_statement');
+    const totals = incomeTotals(current);
+    const priorTotals = hasPrior ? incomeTotals(prior) : null;
+    const ratios = incomeRatios(totals);
+    const priorRatios = priorTotals ? incomeRatios(priorTotals) : null;
+    const observations: string[] = [];
+
+    const netIncome = totals.net_income!;
+    observations.push(netIncome >= 0
+        ? `Net income is ${formatAmount(netIncome)}${ratios.net_margin_percent !== null ? `, a ${ratios.net_margin_percent.toFixed(1)}% net margin` : ''}.`
+        : `The period shows a net loss of ${formatAmount(-netIncome)}.`);
+    if (totals.revenue! > 0 && totals.gross_profit! < 0) {
+        observations.push('Cost of goods sold exceeds revenue, so every sale is losing money before overheads.');
+    }
+
+    const operatingExpenses = sections.find(section => section.category === 'operating_expense')!;
+    const largestExpense = [...operatingExpenses.lines].sort((a, b) => b.amount - a.amount)[0];
+    if (largestExpense && operatingExpenses.total > 0) {
+        observations.push(`${largestExpense.name} is the largest operating expense at ${formatAmount(largestExpense.amount)} (${percent(largestExpense.amount, operatingExpenses.total)!.toFixed(1)}% of operating expenses).`);
+    }
+
+    if (priorTotals && priorRatios) {
+        const revenueChange = percentChange(totals.revenue!, priorTotals.revenue);
+        const expenseChange = percentChange(totals.operating_expenses!, priorTotals.operating_expenses);
+        if (revenueChange !== null) {
+            observations.push(`Revenue changed ${describePercent(revenueChange)} compared with ${comparisonLabel}.`);
+        }
+        if (revenueChange !== null && expenseChange !== null && expenseChange > revenueChange) {
+            observations.push(`Operating expenses grew faster than revenue (${describePercent(expenseChange)} vs ${describePercent(revenueChange)}), squeezing operating margin.`);
+        }
+        if (ratios.net_margin_percent !== null && priorRatios.net_margin_percent !== null) {
+            const marginMove = round2(ratios.net_margin_percent - priorRatios.net_margin_percent);
+            if (marginMove !== 0) {
+                observations.push(`Net margin moved ${marginMove > 0 ? 'up' : 'down'} ${Math.abs(marginMove).toFixed(1)} percentage points.`);
+            }
+        }
+        largestChanges(sections.filter(section => section.category !== 'revenue'), 2)
+            .forEach(line => observations.push(`${describeLineChange(line)}.`));
+    }
+
+    return { sections, totals, prior_totals: priorTotals, ratios, prior_ratios: priorRatios, observations };
+};
+
+// --- Balance sheet ---
+
+const balanceTotals = (amount: (category: StatementCategory) => number): Figures => {
+    const totalAssets = amount('current_asset') + amount('non_current_asset');
+    const totalLiabilities = amount('current_liability') + amount('non_current_liability');
+    return {
+        current_assets: roundCents(amount('current_asset')),
+        non_current_assets: roundCents(amount('non_current_asset')),
+        total_assets: roundCents(totalAssets),
+        current_liabilities: roundCents(amount('current_liability')),
+        non_current_liabilities: roundCents(amount('non_current_liability')),
+        total_liabilities: roundCents(totalLiabilities),
+        equity: roundCents(amount('equity')),
+        total_liabilities_and_equity: roundCents(totalLiabilities + amount('equity')),
+        working_capital: roundCents(amount('current_asset') - amount('current_liability'))
+    };
+};
+
+const balanceRatios = (totals: Figures): Figures => ({
+    current_ratio: ratio(totals.current_assets, totals.current_liabilities),
+    debt_to_equity: totals.equity! > 0 ? ratio(totals.total_liabilities, totals.equity) : null,
+    debt_ratio_percent: percent(totals.total_liabilities, totals.total_assets),
+    equity_ratio_percent: percent(totals.equity, totals.total_assets)
+});
+
+export const buildBalanceSheet = (items: StatementLineItem[], comparisonLabel = 'the prior period'): FinancialStatement => {
+    const { hasPrior, sections, current, prior } = buildPeriods(items, 'balance_sheet');
+    const totals = balanceTotals(current);
+    const priorTotals = hasPrior ? balanceTotals(prior) : null;
+    const ratios = balanceRatios(totals);
+    const priorRatios = priorTotals ? balanceRatios(priorTotals) : null;
+    const observations: string[] = [];
+
+    const difference = roundCents(totals.total_assets! - totals.total_liabilities_and_equity!);
+    if (Math.abs(difference) >= 0.01) {
+        observations.push(`The balance sheet does not balance: assets differ from liabilities plus equity by ${formatAmount(difference)}. Some line items may be missing or misclassified.`);
+    }
+    if (ratios.current_ratio !== null) {
+        if (ratios.current_ratio < 1) {
+            observations.push(`Current ratio is ${ratios.current_ratio.toFixed(2)}: short-term liabilities exceed current assets by ${formatAmount(-totals.working_capital!)}, which may strain liquidity.`);
+        } else {
+            observations.push(`Current ratio is ${ratios.current_ratio.toFixed(2)}, with working capital of ${formatAmount(totals.working_capital!)}.`);
+        }
+    }
+    if (totals.equity! < 0) {
+        observations.push(`Equity is negative (${formatAmount(totals.equity!)}): liabilities exceed assets.`);
+    } else if (ratios.debt_to_equity !== null && ratios.debt_to_equity > 2) {
+        observations.push(`Debt-to-equity of ${ratios.debt_to_equity.toFixed(2)} indicates high leverage.`);
+    }
+
+    if (priorTotals) {
+        const assetChange = percentChange(totals.total_assets!, priorTotals.total_assets);
+        const equityChange = percentChange(totals.equity!, priorTotals.equity);
+        if (assetChange !== null) {
+            observations.push(`Total assets changed ${describePercent(assetChange)} compared with ${comparisonLabel}${equityChange !== null ? `, equity ${describePercent(equityChange)}` : ''}.`);
+        }
+        largestChanges(sections, 2).forEach(line => observations.push(`${describeLineChange(line)}.`));
+    }
+
+    return { sections, totals, prior_totals: priorTotals, ratios, prior_ratios: priorRatios, observations };
+};
+
+// --- Cash flow ---
+
+const cashFlowTotals = (amount: (category: StatementCategory) => number, hasOpeningCash: boolean): Figures => {
+    const netChange = amount('operating') + amount('investing') + amount('financing');
+    return {
+        net_operating: roundCents(amount('operating')),
+        net_investing: roundCents(amount('investing')),
+        net_financing: roundCents(amount('financing')),
+        net_change_in_cash: roundCents(netChange),
+        // Operating cash less investment spending; a common proxy when capex is not itemised
+        free_cash_flow: roundCents(amount('operating') + Math.min(amount('investing'), 0)),
+        opening_cash: hasOpeningCash ? roundCents(amount('opening_cash')) : null,
+        closing_cash: hasOpeningCash ? roundCents(amount('opening_cash') + netChange) : null
+    };
+};
+
+const cashFlowRatios = (totals: Figures): Figures => ({
+    // How many times operating cash covers investment spending
+    investment_coverage: totals.net_investing! < 0 ? ratio(totals.net_operating, -totals.net_investing!) : null,
+    operating_share_of_inflows_percent: percent(
+        Math.max(totals.net_operating!, 0),
+        Math.max(totals.net_operating!, 0) + Math.max(totals.net_investing!, 0) + Math.max(totals.net_financing!, 0)
+    )
+});
+
+export const buildCashFlowStatement = (items: StatementLineItem[], comparisonLabel = 'the prior period'): FinancialStatement => {
+    const { hasPrior, sections, current, prior } = buildPeriods(items, 'cash_flow');
+    const hasOpeningCash = items.some(item => item.category === 'opening_cash');
+    const totals = cashFlowTotals(current, hasOpeningCash);
+    const priorTotals = hasPrior ? cashFlowTotals(prior, hasOpeningCash) : null;
+    const ratios = cashFlowRatios(totals);
+    const priorRatios = priorTotals ? cashFlowRatios(priorTotals) : null;
+    const observations: string[] = [];
+
+    const operating = totals.net_operating!;
+    observations.push(operating >= 0
+        ? `Operations generated ${formatAmount(operating)} of cash.`
+        : `Operations consumed ${formatAmount(-operating)} of cash.`);
+    if (operating < 0 && totals.net_financing! > 0) {
+        observations.push(`The operating shortfall was funded by ${formatAmount(totals.net_financing!)} of financing inflows.`);
+    }
+    if (totals.net_investing! < 0) {
+        observations.push(`${formatAmount(-totals.net_investing!)} was invested; free cash flow is ${formatAmount(totals.free_cash_flow!)}.`);
+    }
+    observations.push(`Net change in cash is ${formatAmount(totals.net_change_in_cash!)}${totals.closing_cash !== null ? `, leaving a closing balance of ${formatAmount(totals.closing_cash)}` : ''}.`);
+    if (totals.closing_cash !== null && totals.closing_cash < 0) {
+        observations.push('The closing cash balance is negative, which implies an overdraft or missing inflows.');
+    }
+
+    if (priorTotals) {
+        const operatingChange = percentChange(operating, priorTotals.net_operating);
+        if (operatingChange !== null) {
+            observations.push(`Operating cash flow changed ${describePercent(operatingChange)} compared with ${comparisonLabel}.`);
+        }
+        largestChanges(sections.filter(section => section.category !== 'opening_cash'), 2)
+            .forEach(line => observations.push(`${describeLineChange(line)}.`));
+    }
+
+    return { sections, totals, prior_totals: priorTotals, ratios, prior_ratios: priorRatios, observations };
+};
+
+// --- Budget analysis ---
+
+// Variances above this share of budget are called out individually
+const SIGNIFICANT_VARIANCE_PERCENT = 10;
+
+export const buildBudgetAnalysis = (items: StatementLineItem[]): FinancialStatement => {
+    const budgetLines: BudgetLine[] = items.map(item => {
+        const budget = item.budget_amount ?? 0;
+        const variance = roundCents(item.amount - budget);
+        return {
+            name: item.name,
+            budget_amount: roundCents(budget),
+            actual_amount: roundCents(item.amount),
+            variance,
+            variance_percent: percentChange(item.amount, budget),
+            utilization_percent: percent(item.amount, budget),
+            status: variance > 0 ? 'Over Budget' : variance < 0 ? 'Under Budget' : 'On Budget'
+        };
+    });
+
+    const budget = roundCents(budgetLines.reduce((sum, line) => sum + line.budget_amount, 0));
+    const actual = roundCents(budgetLines.reduce((sum, line) => sum + line.actual_amount, 0));
+    const totals: Figures = {
+        total_budget: budget,
+        total_actual: actual,
+        total_variance: roundCents(actual - budget),
+        lines_over_budget: budgetLines.filter(line => line.status === 'Over Budget').length,
+        lines_under_budget: budgetLines.filter(line => line.status === 'Under Budget').length
+    };
+    const ratios: Figures = {
+        total_variance_percent: percentChange(actual, budget),
+        utilization_percent: percent(actual, budget)
+    };
+
+    const observations: string[] = [];
+    observations.push(`Overall spending is ${formatAmount(actual)} against a budget of ${formatAmount(budget)}`
+        + (ratios.utilization_percent !== null ? ` (${ratios.utilization_percent.toFixed(1)}% used).` : '.'));
+
+    const overruns = budgetLines.filter(line => line.variance > 0).sort((a, b) => b.variance - a.variance);
+    if (overruns.length > 0) {
+        const worst = overruns[0];
+        observations.push(`${overruns.length} of ${budgetLines.length} categories are over budget; the largest overrun is ${worst.name} at ${formatAmount(worst.variance)}`
+            + (worst.variance_percent !== null ? ` (${describePercent(worst.variance_percent)}).` : '.'));
+    } else {
+        observations.push('No category is over budget.');
+    }
+    const underspends = budgetLines.filter(line => line.variance_percent !== null && line.variance_percent < -SIGNIFICANT_VARIANCE_PERCENT);
+    if (underspends.length > 0) {
+        observations.push(`Significantly under budget: ${underspends.map(line => `${line.name} (${describePercent(line.variance_percent!)})`).join(', ')}. Check whether spending was deferred rather than saved.`);
+    }
+
+    return { sections: [], budget_lines: budgetLines, totals, prior_totals: null, ratios, prior_ratios: null, observations };
+};
+
+export const buildFinancialStatement = (reportType: StatementReportType, items: StatementLineItem[], comparisonLabel?: string): FinancialStatement => {
+    switch (reportType) {
+        case 'income_statement':
+            return buildIncomeStatement(items, comparisonLabel);
+        case 'balance_sheet':
+            return buildBalanceSheet(items, comparisonLabel);
+        case 'cash_flow':
+            return buildCashFlowStatement(items, comparisonLabel);
+        case 'budget_analysis':
+            return buildBudgetAnalysis(items);
+    }
+};
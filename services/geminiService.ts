@@ -1,231 +1,348 @@
 
-import { GoogleGenAI, Modality } from "@google/genai";
-
-if (!process.env.API_KEY) {
-    throw new Error("API_KEY environment variable not set");
-}
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { Modality } from "@google/genai";
+import type { FunctionCall, FunctionResponse, LiveConnectConfig, LiveSendRealtimeInputParameters, RealtimeInputConfig } from "@google/genai";
+import { RegisteredTool, ToolPolicy, ToolRegistry, validateToolArgs } from "./toolRegistry";
+import { ToolConfirmationDecision, ToolConfirmationRequest, resolveToolPolicy } from "./toolConfirmation";
+import { ToolValidationIssue } from "./toolValidation";
+import { defaultToolRegistry } from "./tools";
+import { createSessionDataStore } from "./sessionDataStore";
+import { LiveTransport, LiveTransportMessage, LiveTransportSession, createGeminiLiveTransport } from "./live/liveTransport";
+import { LiveServerEvent, LiveUsage, decodeLiveMessage } from "./live/liveMessages";
 
 export interface GeminiLiveCallbacks {
     onOpen?: () => void;
     onClose?: (e: CloseEvent) => void;
-    onError?: (e: Event) => void;
+    // The connection could not be kept up (an Event), or a tool call could not be completed (an Error)
+    onError?: (e: Event | Error) => void;
+    // Incremental transcription of the user's speech
     onTranscript?: (transcript: string, isFinal: boolean) => void;
+    // Incremental transcription of the assistant's spoken answer
+    onOutputTranscript?: (transcript: string, isFinal: boolean) => void;
     onAudio?: (audioData: string) => void; // base64 string
+    onText?: (text: string) => void; // incremental text of the model turn
     onTurnComplete?: () => void;
-    onToolCall?: (toolCall: any) => void;
-    onToolResponse?: (response: string) => void;
+    // The user spoke over the answer; audio already received for it should be dropped
+    onInterrupted?: () => void;
+    // The model has finished generating the answer, though it may still be playing
+    onGenerationComplete?: () => void;
+    // The server will close the connection soon; the session reconnects and resumes when it does
+    onGoAway?: (timeLeftMs: number | null) => void;
+    // Token usage reported by the server
+    onUsage?: (usage: LiveUsage) => void;
+    // The model withdrew calls it made, usually because the user interrupted it
+    onToolCallCancellation?: (callIds: string[]) => void;
+    // Every decoded server event, before the specific callback for it
+    onServerEvent?: (event: LiveServerEvent) => void;
+    // Each function call the model makes, before it runs
+    onToolCall?: (event: ToolCallEvent) => void;
+    // Outcome of each call, including refused calls and calls with invalid arguments
+    onToolResult?: (event: ToolResultEvent) => void;
+    onToolValidationError?: (toolName: string, issues: ToolValidationIssue[]) => void;
+    // Asked before running a tool whose policy is 'confirm'; without it those calls are rejected
+    onToolConfirmationRequest?: (request: ToolConfirmationRequest) => Promise<ToolConfirmationDecision>;
+    // Connection dropped; another attempt will be made after `delayMs`
+    onReconnecting?: (attempt: number, delayMs: number) => void;
+    // Connection restored with the conversation context resumed
+    onReconnected?: () => void;
 }
 
-// Define available tools for the FM & Accounting Assistant
-const tools = [{
-    functionDeclarations: [
-        {
-            name: "calculate_financial_metrics",
-            description: "Calculate financial metrics like ROI, NPV, IRR for investment analysis",
-            parameters: {
-                type: "object",
-                properties: {
-                    initial_investment: {
-                        type: "number",
-                        description: "Initial investment amount"
-                    },
-                    cash_flows: {
-                        type: "array",
-                        items: { type: "number" },
-                        description: "Array of cash flows over time periods"
-                    },
-                    discount_rate: {
-                        type: "number",
-                        description: "Discount rate for NPV calculation (as decimal, e.g., 0.1 for 10%)"
-                    },
-                    metric_type: {
-                        type: "string",
-                        enum: ["roi", "npv", "irr", "payback_period"],
-                        description: "Type of financial metric to calculate"
-                    }
-                },
-                required: ["initial_investment", "cash_flows", "metric_type"]
-            }
-        },
-        {
-            name: "generate_financial_report",
-            description: "Generate a comprehensive financial report with analysis",
-            parameters: {
-                type: "object",
-                properties: {
-                    report_type: {
-                        type: "string",
-                        enum: ["income_statement", "balance_sheet", "cash_flow", "budget_analysis"],
-                        description: "Type of financial report to generate"
-                    },
-                    period: {
-                        type: "string",
-                        description: "Time period for the report (e.g., 'Q1 2024', 'FY 2023')"
-                    },
-                    data: {
-                        type: "object",
-                        description: "Financial data for report generation"
-                    }
-                },
-                required: ["report_type", "period"]
-            }
-        },
-        {
-            name: "budget_tracker",
-            description: "Track and analyze budget vs actual spending",
-            parameters: {
-                type: "object",
-                properties: {
-                    category: {
-                        type: "string",
-                        description: "Budget category (e.g., 'marketing', 'operations', 'personnel')"
-                    },
-                    budgeted_amount: {
-                        type: "number",
-                        description: "Budgeted amount for the category"
-                    },
-                    actual_amount: {
-                        type: "number",
-                        description: "Actual spent amount"
-                    },
-                    period: {
-                        type: "string",
-                        description: "Budget period (e.g., 'monthly', 'quarterly', 'annual')"
-                    }
-                },
-                required: ["category", "budgeted_amount", "actual_amount"]
-            }
-        },
-        {
-            name: "tax_calculator",
-            description: "Calculate tax obligations and deductions",
-            parameters: {
-                type: "object",
-                properties: {
-                    income: {
-                        type: "number",
-                        description: "Total income amount"
-                    },
-                    deductions: {
-                        type: "array",
-                        items: {
-                            type: "object",
-                            properties: {
-                                type: { type: "string" },
-                                amount: { type: "number" }
-                            }
-                        },
-                        description: "Array of deduction items"
-                    },
-                    tax_year: {
-                        type: "string",
-                        description: "Tax year for calculation"
-                    },
-                    filing_status: {
-                        type: "string",
-                        enum: ["single", "married_joint", "married_separate", "head_of_household"],
-                        description: "Tax filing status"
-                    }
-                },
-                required: ["income", "tax_year", "filing_status"]
-            }
+export interface ToolCallEvent {
+    // The model's id for the call, or a generated one when it sent none
+    callId: string;
+    name: string;
+    args: Record<string, unknown>;
+}
+
+export interface ToolResultEvent extends ToolCallEvent {
+    // What the handler returned, or the error object sent to the model
+    result: unknown;
+    // Set when the call failed, was refused or had invalid arguments
+    error?: string;
+    // Time spent in the tool's handler; 0 when it did not run
+    durationMs: number;
+}
+
+export type ResponseModality = 'audio' | 'text';
+
+export interface GeminiLiveSessionOptions {
+    // Tools exposed to this session; defaults to the shared registry
+    tools?: ToolRegistry;
+    // Whether the model answers with speech or with text; fixed for the lifetime of the session
+    responseModality?: ResponseModality;
+    // Connection to the Live API; defaults to the transport chosen by LIVE_TRANSPORT
+    transport?: LiveTransport;
+    // Policy for each call, read when the call arrives so changes apply mid-session; defaults to the tool's own
+    toolPolicy?: (tool: RegisteredTool) => ToolPolicy;
+    // Voice activity detection settings; with automatic detection disabled, the caller sends
+    // sendActivityStartToGemini / sendActivityEndToGemini around each spoken turn
+    realtimeInputConfig?: RealtimeInputConfig;
+}
+
+// Reconnect policy for dropped connections: exponential backoff with jitter
+const RECONNECT_BASE_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 10000;
+const MAX_RECONNECT_ATTEMPTS = 6;
+// About 30 seconds of microphone audio in the capture worklet's default 40 ms frames
+const MAX_BUFFERED_AUDIO_CHUNKS = 750;
+
+let session: LiveTransportSession | null = null;
+let defaultTransport: LiveTransport | null = null;
+let activeTransport: LiveTransport | null = null;
+let activeTools: ToolRegistry = defaultToolRegistry;
+let activeToolPolicy: (tool: RegisteredTool) => ToolPolicy = tool => resolveToolPolicy(tool);
+let activeCallbacks: GeminiLiveCallbacks = {};
+let activeModality: ResponseModality = 'audio';
+let activeRealtimeInputConfig: RealtimeInputConfig | undefined;
+// Latest handle from the server that lets a new connection resume this conversation's context
+let resumptionHandle: string | null = null;
+let isReconnecting = false;
+let reconnectAttempt = 0;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+// Audio and activity signals sent while reconnecting, replayed in order once connected
+let bufferedInput: LiveSendRealtimeInputParameters[] = [];
+let bufferedText: string[] = [];
+// Tool responses finished while reconnecting; the model is still waiting for them after it resumes
+let bufferedToolResponses: FunctionResponse[][] = [];
+// Incremented per connection so events from a superseded connection are ignored
+let connectionId = 0;
+// Successful tool results of this session, readable by later tool calls
+const sessionData = createSessionDataStore();
+
+const SYSTEM_INSTRUCTION = "You are a professional Financial Management and Accounting Assistant. You help users with financial calculations, budget analysis, tax planning, and generating financial reports. Use the available tools to provide accurate financial insights and calculations. Always explain your calculations and provide actionable advice.";
+
+// Overrides the transport used by sessions that don't pass one, e.g. a scripted server in tests
+export const setDefaultLiveTransport = (transport: LiveTransport | null) => {
+    defaultTransport = transport;
+};
+
+const resolveDefaultTransport = async (): Promise<LiveTransport> => {
+    if (!defaultTransport) {
+        // The demo script is only loaded when asked for, keeping it out of the regular bundle
+        defaultTransport = process.env.LIVE_TRANSPORT === 'scripted'
+            ? (await import("../mock/liveScripts")).createDemoLiveTransport()
+            : createGeminiLiveTransport();
+    }
+    return defaultTransport;
+};
+
+const isCloseEvent = (event: Event): event is CloseEvent =>
+    typeof CloseEvent !== 'undefined' ? event instanceof CloseEvent : 'code' in event;
+
+const connect = async (): Promise<void> => {
+    const connection = ++connectionId;
+    const callbacks = activeCallbacks;
+    const isCurrent = () => connection === connectionId;
+
+    // Use model that supports function calling
+    const model = "gemini-live-2.5-flash-preview";
+    const config: LiveConnectConfig = {
+        responseModalities: [activeModality === 'text' ? Modality.TEXT : Modality.AUDIO],
+        systemInstruction: SYSTEM_INSTRUCTION,
+        tools: activeTools.toLiveTools(),
+        sessionResumption: resumptionHandle ? { handle: resumptionHandle } : {},
+        inputAudioTranscription: {},
+        ...(activeModality === 'audio' ? { outputAudioTranscription: {} } : {}),
+        ...(activeRealtimeInputConfig ? { realtimeInputConfig: activeRealtimeInputConfig } : {})
+    };
+
+    const transport = activeTransport ?? await resolveDefaultTransport();
+    const connectedSession = await transport.connect({
+        model: model,
+        config,
+        callbacks: {
+            onopen: () => {
+                console.debug('Gemini Live session opened.');
+            },
+            onclose: (e: CloseEvent) => {
+                if (!isCurrent()) return;
+                console.debug('Gemini Live session closed:', e.reason);
+                session = null;
+                scheduleReconnect(e);
+            },
+            onerror: (e: Event) => {
+                if (!isCurrent()) return;
+                console.error('Gemini Live error:', 'message' in e ? e.message : e.type);
+                session = null;
+                scheduleReconnect(e);
+            },
+            onmessage: (message: LiveTransportMessage) => {
+                if (!isCurrent()) return;
+                decodeLiveMessage(message).forEach(event => handleServerEvent(event, callbacks));
+            },
         },
-        {
-            name: "fetch_general_ledger_report",
-            description: "Fetch General Ledger Report data from the accounting system API",
-            parameters: {
-                type: "object",
-                properties: {
-                    date_from: {
-                        type: "string",
-                        description: "Start date for the report (optional, format: YYYY-MM-DD)"
-                    },
-                    date_to: {
-                        type: "string",
-                        description: "End date for the report (optional, format: YYYY-MM-DD)"
-                    },
-                    account_filter: {
-                        type: "string",
-                        description: "Filter by specific account name (optional)"
-                    }
-                },
-                required: []
+    });
+
+    if (!isCurrent()) {
+        // The conversation was closed while this connection was being established
+        connectedSession.close();
+        return;
+    }
+    session = connectedSession;
+    // Notify only once the session is stored, so callers can send input from onOpen
+    if (!isReconnecting) {
+        callbacks.onOpen?.();
+    }
+};
+
+const handleServerEvent = (event: LiveServerEvent, callbacks: GeminiLiveCallbacks) => {
+    callbacks.onServerEvent?.(event);
+    switch (event.type) {
+        case 'setupComplete':
+            break;
+        case 'resumptionUpdate':
+            // Keep the last good handle while the server cannot offer a newer one
+            if (event.handle) {
+                resumptionHandle = event.handle;
             }
+            break;
+        case 'inputTranscription':
+            callbacks.onTranscript?.(event.text, event.finished);
+            break;
+        case 'outputTranscription':
+            callbacks.onOutputTranscript?.(event.text, event.finished);
+            break;
+        case 'text':
+            callbacks.onText?.(event.text);
+            break;
+        case 'audio':
+            callbacks.onAudio?.(event.data);
+            break;
+        case 'interrupted':
+            callbacks.onInterrupted?.();
+            break;
+        case 'generationComplete':
+            callbacks.onGenerationComplete?.();
+            break;
+        case 'turnComplete':
+            callbacks.onTurnComplete?.();
+            break;
+        case 'toolCall':
+            handleToolCall(event.functionCalls, callbacks).catch(error => {
+                console.error('Could not complete the tool call:', error);
+                // Nobody is listening once the conversation has ended
+                if (callbacks === activeCallbacks) {
+                    callbacks.onError?.(error instanceof Error ? error : new Error(String(error)));
+                }
+            });
+            break;
+        case 'toolCallCancellation':
+            callbacks.onToolCallCancellation?.(event.ids);
+            break;
+        case 'usage':
+            callbacks.onUsage?.(event.usage);
+            break;
+        case 'goAway':
+            console.debug(`Gemini Live server is closing the connection${event.timeLeftMs === null ? '' : ` in ${event.timeLeftMs} ms`}.`);
+            callbacks.onGoAway?.(event.timeLeftMs);
+            break;
+    }
+};
+
+const scheduleReconnect = (reason: CloseEvent | Event) => {
+    if (reconnectTimer) return;
+
+    if (reconnectAttempt >= MAX_RECONNECT_ATTEMPTS) {
+        console.error(`Gemini Live reconnect failed after ${reconnectAttempt} attempts.`);
+        const callbacks = activeCallbacks;
+        resetConnectionState();
+        if (isCloseEvent(reason)) {
+            callbacks.onClose?.(reason);
         }
-    ]
-}];
+        callbacks.onError?.(reason);
+        return;
+    }
+
+    reconnectAttempt++;
+    isReconnecting = true;
+    const backoff = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * Math.pow(2, reconnectAttempt - 1));
+    const delay = Math.round(backoff / 2 + Math.random() * backoff / 2);
+    activeCallbacks.onReconnecting?.(reconnectAttempt, delay);
 
-let session: any | null = null;
+    reconnectTimer = setTimeout(async () => {
+        reconnectTimer = null;
+        try {
+            await connect();
+        } catch (error) {
+            console.warn(`Gemini Live reconnect attempt ${reconnectAttempt} failed:`, error);
+            scheduleReconnect(new Event('error'));
+            return;
+        }
+        if (!session) return;
 
-export const startGeminiLiveSession = async (callbacks: GeminiLiveCallbacks): Promise<void> => {
-    if (session) {
+        console.debug(`Gemini Live session resumed after ${reconnectAttempt} attempt(s).`);
+        isReconnecting = false;
+        reconnectAttempt = 0;
+        // Answer the calls the model is waiting on, then replay input captured while the connection was down, in order
+        const pendingToolResponses = bufferedToolResponses;
+        bufferedToolResponses = [];
+        pendingToolResponses.forEach(sendFunctionResponses);
+        const pending = bufferedInput;
+        bufferedInput = [];
+        pending.forEach(sendRealtimeInput);
+        const pendingText = bufferedText;
+        bufferedText = [];
+        pendingText.forEach(text => sendTextToGemini(text));
+        activeCallbacks.onReconnected?.();
+    }, delay);
+};
+
+const resetConnectionState = () => {
+    if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+        reconnectTimer = null;
+    }
+    connectionId++;
+    session = null;
+    resumptionHandle = null;
+    isReconnecting = false;
+    reconnectAttempt = 0;
+    bufferedInput = [];
+    bufferedText = [];
+    bufferedToolResponses = [];
+};
+
+export const startGeminiLiveSession = async (callbacks: GeminiLiveCallbacks, options: GeminiLiveSessionOptions = {}): Promise<void> => {
+    if (session || isReconnecting) {
         console.log("Session already active.");
         return;
     }
 
-    // Use model that supports function calling
-    const model = "gemini-live-2.5-flash-preview";
-    const config = {
-        responseModalities: [Modality.AUDIO],
-        systemInstruction: "You are a professional Financial Management and Accounting Assistant. You help users with financial calculations, budget analysis, tax planning, and generating financial reports. Use the available tools to provide accurate financial insights and calculations. Always explain your calculations and provide actionable advice.",
-        tools: tools
-    };
+    resetConnectionState();
+    // Kept across reconnects, since the model still remembers those results after resuming
+    sessionData.clear();
+    activeTransport = options.transport ?? null;
+    activeTools = options.tools ?? defaultToolRegistry;
+    activeToolPolicy = options.toolPolicy ?? (tool => resolveToolPolicy(tool));
+    activeCallbacks = callbacks;
+    activeModality = options.responseModality ?? 'audio';
+    activeRealtimeInputConfig = options.realtimeInputConfig;
 
     try {
-        session = await ai.live.connect({
-            model: model,
-            config: config as any,
-            callbacks: {
-                onopen: () => {
-                    console.debug('Gemini Live session opened.');
-                    callbacks.onOpen?.();
-                },
-                onclose: (e: CloseEvent) => {
-                    console.debug('Gemini Live session closed:', e.reason);
-                    callbacks.onClose?.(e);
-                    session = null;
-                },
-                onerror: (e: Event) => {
-                    console.error('Gemini Live error:', (e as any).message);
-                    callbacks.onError?.(e);
-                    session = null;
-                },
-                onmessage: (message: any) => {
-                    if (message.serverContent) {
-                        if (message.serverContent.speechToTextResult) {
-                            callbacks.onTranscript?.(
-                                message.serverContent.speechToTextResult.text,
-                                message.serverContent.speechToTextResult.isFinal
-                            );
-                        }
-                        if (message.serverContent.turnComplete) {
-                            callbacks.onTurnComplete?.();
-                        }
-                    }
-                    if (message.data) {
-                        callbacks.onAudio?.(message.data);
-                    }
-                    if (message.toolCall) {
-                        callbacks.onToolCall?.(message.toolCall);
-                        handleToolCall(message.toolCall, callbacks);
-                    }
-                },
-            },
-        });
+        await connect();
     } catch (error) {
         console.error("Failed to start Gemini Live session:", error);
         throw error;
     }
 };
 
-export const sendAudioToGemini = (audioData: string) => {
-    if (!session || session.isClosed) {
-        // console.warn("Cannot send audio, session is not active.");
+const sendRealtimeInput = (input: LiveSendRealtimeInputParameters) => {
+    if (isReconnecting) {
+        bufferedInput.push(input);
+        if (bufferedInput.length > MAX_BUFFERED_AUDIO_CHUNKS) {
+            // Drop the oldest audio but keep activity signals, so turns stay paired
+            const oldestAudio = bufferedInput.findIndex(buffered => buffered.audio);
+            bufferedInput.splice(oldestAudio === -1 ? 0 : oldestAudio, 1);
+        }
         return;
     }
-    session.sendRealtimeInput({
+    if (!session) {
+        return;
+    }
+    session.sendRealtimeInput(input);
+};
+
+export const sendAudioToGemini = (audioData: string) => {
+    sendRealtimeInput({
         audio: {
             data: audioData,
             mimeType: "audio/pcm;rate=16000"
@@ -233,231 +350,170 @@ export const sendAudioToGemini = (audioData: string) => {
     });
 };
 
-// Tool implementation functions
-const calculateFinancialMetrics = (params: any) => {
-    const { initial_investment, cash_flows, discount_rate = 0.1, metric_type } = params;
-    
-    switch (metric_type) {
-        case 'roi':
-            const totalReturn = cash_flows.reduce((sum: number, cf: number) => sum + cf, 0);
-            const roi = ((totalReturn - initial_investment) / initial_investment) * 100;
-            return { metric: 'ROI', value: `${roi.toFixed(2)}%`, calculation: `((${totalReturn} - ${initial_investment}) / ${initial_investment}) * 100` };
-            
-        case 'npv':
-            let npv = -initial_investment;
-            cash_flows.forEach((cf: number, index: number) => {
-                npv += cf / Math.pow(1 + discount_rate, index + 1);
-            });
-            return { metric: 'NPV', value: `$${npv.toFixed(2)}`, discount_rate: `${(discount_rate * 100).toFixed(1)}%` };
-            
-        case 'payback_period':
-            let cumulativeCashFlow = -initial_investment;
-            let paybackPeriod = 0;
-            for (let i = 0; i < cash_flows.length; i++) {
-                cumulativeCashFlow += cash_flows[i];
-                if (cumulativeCashFlow >= 0) {
-                    paybackPeriod = i + 1;
-                    break;
-                }
-            }
-            return { metric: 'Payback Period', value: `${paybackPeriod} periods`, breakeven: cumulativeCashFlow >= 0 };
-            
-        default:
-            return { error: 'Unsupported metric type' };
-    }
+// Mark the start and end of a spoken turn; only valid when automatic activity detection is disabled
+export const sendActivityStartToGemini = () => {
+    sendRealtimeInput({ activityStart: {} });
 };
 
-const generateFinancialReport = (params: any) => {
-    const { report_type, period, data } = params;
-    
-    const reportTemplate = {
-        report_type,
-        period,
-        generated_at: new Date().toISOString(),
-        summary: `${report_type.replace('_', ' ').toUpperCase()} for ${period}`,
-        status: 'Generated successfully',
-        recommendations: [
-            'Review monthly variances',
-            'Monitor cash flow trends',
-            'Optimize expense categories'
-        ]
-    };
-    
-    return reportTemplate;
+export const sendActivityEndToGemini = () => {
+    sendRealtimeInput({ activityEnd: {} });
 };
 
-const trackBudget = (params: any) => {
-    const { category, budgeted_amount, actual_amount, period = 'monthly' } = params;
-    
-    const variance = actual_amount - budgeted_amount;
-    const variancePercentage = (variance / budgeted_amount) * 100;
-    
-    return {
-        category,
-        period,
-        budgeted_amount: `$${budgeted_amount.toFixed(2)}`,
-        actual_amount: `$${actual_amount.toFixed(2)}`,
-        variance: `$${variance.toFixed(2)}`,
-        variance_percentage: `${variancePercentage.toFixed(1)}%`,
-        status: variance > 0 ? 'Over Budget' : variance < 0 ? 'Under Budget' : 'On Budget',
-        alert: Math.abs(variancePercentage) > 10 ? 'Significant variance detected' : 'Within acceptable range'
-    };
+// The microphone went quiet on purpose (muted); lets automatic detection close the turn
+export const sendAudioStreamEndToGemini = () => {
+    sendRealtimeInput({ audioStreamEnd: true });
 };
 
-const calculateTax = (params: any) => {
-    const { income, deductions = [], tax_year, filing_status } = params;
-    
-    // Simplified tax calculation (2024 tax brackets for demonstration)
-    const standardDeduction = {
-        'single': 14600,
-        'married_joint': 29200,
-        'married_separate': 14600,
-        'head_of_household': 21900
-    };
-    
-    const totalDeductions = deductions.reduce((sum: number, ded: any) => sum + ded.amount, 0);
-    const effectiveDeduction = Math.max(standardDeduction[filing_status as keyof typeof standardDeduction] || 14600, totalDeductions);
-    const taxableIncome = Math.max(0, income - effectiveDeduction);
-    
-    // Simplified tax calculation (approximate)
-    let tax = 0;
-    if (taxableIncome > 0) {
-        tax = taxableIncome * 0.22; // Simplified 22% rate
+// Sends a typed user turn; it joins the same conversation context as spoken input
+export const sendTextToGemini = (text: string) => {
+    if (isReconnecting) {
+        bufferedText.push(text);
+        return;
     }
-    
-    return {
-        tax_year,
-        filing_status,
-        gross_income: `$${income.toFixed(2)}`,
-        total_deductions: `$${effectiveDeduction.toFixed(2)}`,
-        taxable_income: `$${taxableIncome.toFixed(2)}`,
-        estimated_tax: `$${tax.toFixed(2)}`,
-        effective_rate: `${((tax / income) * 100).toFixed(2)}%`
-    };
+    if (!session) {
+        return;
+    }
+    session.sendClientContent({
+        turns: [{ role: 'user', parts: [{ text }] }],
+        turnComplete: true
+    });
 };
 
-const fetchGeneralLedgerReport = async (params: any) => {
-    const { date_from, date_to, account_filter } = params;
-    
-    try {
-        // Build query parameters
-        const queryParams = new URLSearchParams();
-        queryParams.append('companyId', '1');
-        if (date_from) queryParams.append('startDate', date_from);
-        if (date_to) queryParams.append('endDate', date_to);
-        if (account_filter) queryParams.append('account_filter', account_filter);
-        
-        const url = `${process.env.API_BASE_URL}/accountingreport/general-ledger-report?${queryParams.toString()}`;
-
-        
-        const response = await fetch(url, {
-            method: 'GET',
-            headers: {
-                'Content-Type': 'application/json',
-            }
+const isErrorResult = (result: unknown): result is { error: unknown } => typeof result === 'object' && result !== null && 'error' in result;
+
+let nextCallId = 1;
+
+interface FunctionCallOutcome {
+    result: unknown;
+    // Sent to the model as the function response
+    response: Record<string, unknown>;
+    // The arguments the tool ran with, after any edits by the user
+    args: Record<string, unknown>;
+    durationMs: number;
+}
+
+// Runs one function call under its tool's policy. Returns the result for the UI and the response
+// for the model, which also tells it whether the user approved, edited or rejected the call.
+const executeFunctionCall = async (fc: FunctionCall, callId: string, callbacks: GeminiLiveCallbacks): Promise<FunctionCallOutcome> => {
+    const name = fc.name ?? '';
+    let args = fc.args ?? {};
+    const notRun = (result: Record<string, unknown>): FunctionCallOutcome => ({ result, response: result, args, durationMs: 0 });
+    const tool = activeTools.get(name);
+    if (!tool) {
+        return notRun({ error: `Unknown function: ${name}` });
+    }
+
+    const policy = activeToolPolicy(tool);
+    if (policy === 'deny') {
+        return notRun({
+            error: `The user has not allowed ${name} to run`,
+            user_decision: 'denied_by_policy',
+            instructions: 'Tell the user this tool is turned off in their settings and offer another way to help.'
         });
-        
-        if (!response.ok) {
-            throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    // Let the model see exactly what was wrong so it can ask the user to clarify
+    const invalid = (issues: ToolValidationIssue[], userDecision: Record<string, unknown> = {}): FunctionCallOutcome => {
+        callbacks.onToolValidationError?.(name, issues);
+        const result = {
+            error: `Invalid arguments for ${name}`,
+            validation_errors: issues,
+            instructions: 'Ask the user for the missing or corrected values, then call the tool again.'
+        };
+        return { result, response: { ...result, ...userDecision }, args, durationMs: 0 };
+    };
+
+    // The user is only asked about calls that could run as they stand
+    let validation = validateToolArgs(tool, args);
+    if (!validation.valid) {
+        return invalid(validation.issues);
+    }
+
+    let userDecision: Record<string, unknown> = {};
+    if (policy === 'confirm') {
+        const decision: ToolConfirmationDecision = callbacks.onToolConfirmationRequest
+            ? await callbacks.onToolConfirmationRequest({ callId, toolName: name, args, tool })
+            : { approved: false, reason: 'No one was available to approve the call' };
+        if (!decision.approved) {
+            return notRun({
+                error: `The user rejected the call to ${name}`,
+                user_decision: 'rejected',
+                reason: decision.reason,
+                instructions: 'Do not call this tool again unless the user asks; ask how they would like to proceed.'
+            });
         }
-        
-        const data = await response.json();
-        
-        // Process and format the data
-        const processedData = {
-            report_type: 'General Ledger Report',
-            generated_at: new Date().toISOString(),
-            total_entries: data.length,
-            date_range: {
-                from: date_from || 'All dates',
-                to: date_to || 'All dates'
-            },
-            account_filter: account_filter || 'All accounts',
-            entries: data.map((entry: any) => ({
-                postingDate: entry.postingDate ? new Date(entry.postingDate).toLocaleDateString() : 'N/A',
-                account: entry.account || 'Unknown',
-                debit: typeof entry.debit === 'number' ? entry.debit.toFixed(2) : '0.00',
-                credit: typeof entry.credit === 'number' ? entry.credit.toFixed(2) : '0.00',
-                balance: typeof entry.balance === 'number' ? entry.balance.toFixed(2) : '0.00',
-                voucherType: entry.voucherType || 'N/A',
-                voucherNo: entry.voucherNo || 'N/A'
-            })),
-            summary: {
-                total_debits: data.reduce((sum: number, entry: any) => sum + (entry.debit || 0), 0).toFixed(2),
-                total_credits: data.reduce((sum: number, entry: any) => sum + (entry.credit || 0), 0).toFixed(2),
-                net_balance: data.reduce((sum: number, entry: any) => sum + (entry.balance || 0), 0).toFixed(2)
+        const edited = decision.args !== undefined && JSON.stringify(decision.args) !== JSON.stringify(args);
+        if (edited) {
+            args = decision.args!;
+            userDecision = { user_decision: 'approved_with_edits', arguments_used: args };
+            validation = validateToolArgs(tool, args);
+            if (!validation.valid) {
+                return invalid(validation.issues, userDecision);
             }
-        };
-        
-        return processedData;
-        
+        } else {
+            userDecision = { user_decision: 'approved' };
+        }
+    }
+
+    let result: unknown;
+    let durationMs = 0;
+    const startedAt = Date.now();
+    try {
+        result = await tool.handler(validation.args, { sessionData });
+        durationMs = Date.now() - startedAt;
+        if (!isErrorResult(result)) {
+            sessionData.record(name, validation.args, result);
+        }
     } catch (error) {
-        console.error('Error fetching General Ledger Report:', error);
-        return {
-            error: `Failed to fetch General Ledger Report: ${error instanceof Error ? error.message : 'Unknown error'}`,
-            report_type: 'General Ledger Report',
-            generated_at: new Date().toISOString()
-        };
+        durationMs = Date.now() - startedAt;
+        result = { error: `Error executing ${name}: ${error}` };
+    }
+    return { result, response: { ...(result as Record<string, unknown>), ...userDecision }, args, durationMs };
+};
+
+const sendFunctionResponses = (functionResponses: FunctionResponse[]) => {
+    if (isReconnecting) {
+        bufferedToolResponses.push(functionResponses);
+        return;
+    }
+    if (!session) {
+        return;
     }
+    session.sendToolResponse({ functionResponses });
 };
 
 // Handle tool calls
-const handleToolCall = async (toolCall: any, callbacks: GeminiLiveCallbacks) => {
-    const functionResponses = [];
-    
-    for (const fc of toolCall.functionCalls) {
-        let result;
-        
-        try {
-            switch (fc.name) {
-                case 'calculate_financial_metrics':
-                    result = calculateFinancialMetrics(fc.args);
-                    break;
-                case 'generate_financial_report':
-                    result = generateFinancialReport(fc.args);
-                    break;
-                case 'budget_tracker':
-                    result = trackBudget(fc.args);
-                    break;
-                case 'tax_calculator':
-                    result = calculateTax(fc.args);
-                    break;
-                case 'fetch_general_ledger_report':
-                    result = await fetchGeneralLedgerReport(fc.args);
-                    break;
-                default:
-                    result = { error: `Unknown function: ${fc.name}` };
-            }
-            
-            callbacks.onToolResponse?.(`Tool ${fc.name} executed: ${JSON.stringify(result, null, 2)}`);
-            
-        } catch (error) {
-            result = { error: `Error executing ${fc.name}: ${error}` };
-        }
-        
-        functionResponses.push({
-            id: fc.id,
-            name: fc.name,
-            response: result
-        });
+const handleToolCall = async (functionCalls: FunctionCall[], callbacks: GeminiLiveCallbacks) => {
+    const functionResponses: FunctionResponse[] = [];
+    const calls = functionCalls.map(fc => ({ fc, callId: fc.id ?? `local-call-${nextCallId++}` }));
+    calls.forEach(({ fc, callId }) => callbacks.onToolCall?.({ callId, name: fc.name ?? '', args: fc.args ?? {} }));
+
+    for (const { fc, callId } of calls) {
+        const { result, response, args, durationMs } = await executeFunctionCall(fc, callId, callbacks);
+        // The conversation ended while the user was deciding
+        if (callbacks !== activeCallbacks) return;
+
+        const error = isErrorResult(result) ? String(result.error) : undefined;
+        callbacks.onToolResult?.({ callId, name: fc.name ?? '', args, result, error, durationMs });
+        functionResponses.push({ id: fc.id, name: fc.name, response });
     }
-    
+
     // Send tool responses back to Gemini
-    if (session && !session.isClosed) {
-        await session.sendToolResponse({ functionResponses });
-    }
+    sendFunctionResponses(functionResponses);
 };
 
 export const closeGeminiLiveSession = () => {
-    if (session && !session.isClosed) {
-        session.close();
-        session = null;
+    const closingSession = session;
+    // Reset first so the close event of this session is not treated as a dropped connection
+    resetConnectionState();
+    // Detaches calls still in flight, e.g. ones waiting for the user's confirmation
+    activeCallbacks = {};
+    if (closingSession) {
+        closingSession.close();
     }
 };
 
 // Export tool response sender for manual use if needed
-export const sendToolResponse = async (functionResponses: any[]) => {
-    if (session && !session.isClosed) {
-        await session.sendToolResponse({ functionResponses });
-    }
+export const sendToolResponse = async (functionResponses: FunctionResponse[]) => {
+    sendFunctionResponses(functionResponses);
 };
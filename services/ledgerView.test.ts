@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import {
+    EMPTY_LEDGER_FILTERS,
+    buildLedgerRows,
+    compareLedgerEntries,
+    filterLedgerEntries,
+    normalizeLedgerEntry,
+    sortLedgerEntries
+} from "./ledgerView";
+import { LedgerEntry } from "./tools/generalLedger";
+
+const entry = (overrides: Partial<LedgerEntry>): LedgerEntry => ({
+    postingDate: '2025-01-15',
+    account: 'Cash',
+    debit: 0,
+    credit: 0,
+    balance: 0,
+    voucherType: 'Journal Entry',
+    voucherNo: 'JV-0001',
+    ...overrides
+});
+
+const entries = [
+    entry({ voucherNo: 'SI-0001', voucherType: 'Sales Invoice', account: 'Debtors', postingDate: '2025-01-05', debit: 1200 }),
+    entry({ voucherNo: 'PE-0001', voucherType: 'Payment Entry', account: 'Cash', postingDate: '2025-01-20', debit: 300 }),
+    entry({ voucherNo: 'PE-0001', voucherType: 'Payment Entry', account: 'Debtors', postingDate: '2025-01-20', credit: 300 }),
+    entry({ voucherNo: 'JV-0009', account: 'Rent', postingDate: null, debit: 50 })
+];
+
+describe('filterLedgerEntries', () => {
+    it('keeps everything with empty filters', () => {
+        expect(filterLedgerEntries(entries, EMPTY_LEDGER_FILTERS)).toEqual(entries);
+    });
+
+    it('matches text against account, voucher number and voucher type', () => {
+        const vouchers = (text: string) =>
+            filterLedgerEntries(entries, { ...EMPTY_LEDGER_FILTERS, text }).map(match => `${match.voucherNo} ${match.account}`);
+
+        expect(vouchers('  DEBTORS ')).toEqual(['SI-0001 Debtors', 'PE-0001 Debtors']);
+        expect(vouchers('jv-')).toEqual(['JV-0009 Rent']);
+        expect(vouchers('payment')).toEqual(['PE-0001 Cash', 'PE-0001 Debtors']);
+    });
+
+    it('drops undated entries once a date bound is set', () => {
+        expect(filterLedgerEntries(entries, { ...EMPTY_LEDGER_FILTERS, dateFrom: '2025-01-10' })).toEqual([entries[1], entries[2]]);
+        expect(filterLedgerEntries(entries, { ...EMPTY_LEDGER_FILTERS, dateTo: '2025-01-05' })).toEqual([entries[0]]);
+    });
+
+    it('compares the amount bounds against the larger side of each posting', () => {
+        expect(filterLedgerEntries(entries, { ...EMPTY_LEDGER_FILTERS, minAmount: '300', maxAmount: '1000' })).toEqual([entries[1], entries[2]]);
+        // Unparseable bounds are ignored rather than filtering everything out
+        expect(filterLedgerEntries(entries, { ...EMPTY_LEDGER_FILTERS, minAmount: 'abc' })).toEqual(entries);
+    });
+});
+
+describe('compareLedgerEntries', () => {
+    const dated = entry({ postingDate: '2025-01-01' });
+    const undated = entry({ postingDate: null });
+
+    it('sorts entries without a date last in both directions', () => {
+        for (const direction of ['asc', 'desc'] as const) {
+            const sort = { key: 'postingDate' as const, direction };
+            expect(compareLedgerEntries(undated, dated, sort)).toBeGreaterThan(0);
+            expect(compareLedgerEntries(dated, undated, sort)).toBeLessThan(0);
+            expect(compareLedgerEntries(undated, undated, sort)).toBe(0);
+        }
+        expect(sortLedgerEntries(entries, { key: 'postingDate', direction: 'desc' }).map(sorted => sorted.postingDate))
+            .toEqual(['2025-01-20', '2025-01-20', '2025-01-05', null]);
+    });
+
+    it('compares voucher numbers naturally and amounts numerically', () => {
+        expect(compareLedgerEntries(entry({ voucherNo: 'JV-2' }), entry({ voucherNo: 'JV-10' }), { key: 'voucherNo', direction: 'asc' })).toBeLessThan(0);
+        expect(compareLedgerEntries(entry({ debit: 9 }), entry({ debit: 100 }), { key: 'debit', direction: 'desc' })).toBeGreaterThan(0);
+    });
+});
+
+describe('buildLedgerRows', () => {
+    it('lists entries in order when not grouped', () => {
+        expect(buildLedgerRows(entries, false).map(row => row.type)).toEqual(['entry', 'entry', 'entry', 'entry']);
+    });
+
+    it('wraps each account in a header and a subtotal', () => {
+        const rows = buildLedgerRows(entries, true);
+
+        expect(rows.map(row => `${row.type} ${row.type === 'entry' ? row.entry.voucherNo : row.account}`)).toEqual([
+            'group Cash', 'entry PE-0001', 'subtotal Cash',
+            'group Debtors', 'entry SI-0001', 'entry PE-0001', 'subtotal Debtors',
+            'group Rent', 'entry JV-0009', 'subtotal Rent'
+        ]);
+        expect(rows.find(row => row.type === 'subtotal' && row.account === 'Debtors')).toMatchObject({
+            totals: { debit: 1200, credit: 300, net: 900, count: 2 }
+        });
+        expect(new Set(rows.map(row => row.key)).size).toBe(rows.length);
+    });
+
+    it('rounds subtotals to cents', () => {
+        const rows = buildLedgerRows([entry({ debit: 0.1 }), entry({ debit: 0.2 })], true);
+        expect(rows.at(-1)).toMatchObject({ type: 'subtotal', totals: { debit: 0.3, credit: 0, net: 0.3, count: 2 } });
+    });
+});
+
+describe('normalizeLedgerEntry', () => {
+    it('parses amounts saved as formatted strings', () => {
+        expect(normalizeLedgerEntry({
+            postingDate: '2025-01-15T00:00:00',
+            account: 'Cash',
+            debit: '$1,234.50',
+            credit: '0.00',
+            balance: '-99.5',
+            voucherType: 'Journal Entry',
+            voucherNo: 'JV-0001'
+        })).toEqual(entry({ debit: 1234.5, balance: -99.5 }));
+    });
+
+    it('falls back for missing or unreadable fields', () => {
+        expect(normalizeLedgerEntry({ postingDate: 'N/A', debit: 'n/a', credit: null })).toEqual({
+            postingDate: null,
+            account: 'Unknown',
+            debit: 0,
+            credit: 0,
+            balance: 0,
+            voucherType: 'N/A',
+            voucherNo: 'N/A'
+        });
+        expect(normalizeLedgerEntry('not an entry')).toMatchObject({ account: 'Unknown', postingDate: null });
+    });
+
+    it('reads locale dates as ISO dates', () => {
+        expect(normalizeLedgerEntry({ postingDate: 'March 3, 2025' }).postingDate).toBe('2025-03-03');
+    });
+});
@@ -0,0 +1,168 @@
+import { GeneralLedgerReport, LedgerEntry } from "./tools/generalLedger";
+
+export type LedgerSortKey = keyof LedgerEntry;
+export type SortDirection = 'asc' | 'desc';
+
+export interface LedgerSort {
+    key: LedgerSortKey;
+    direction: SortDirection;
+}
+
+export interface LedgerFilters {
+    text: string;
+    dateFrom: string;
+    dateTo: string;
+    // Compared against the larger of debit and credit, so "amount" means the size of the posting
+    minAmount: string;
+    maxAmount: string;
+}
+
+export const EMPTY_LEDGER_FILTERS: LedgerFilters = { text: '', dateFrom: '', dateTo: '', minAmount: '', maxAmount: '' };
+
+export interface LedgerTotals {
+    debit: number;
+    credit: number;
+    net: number;
+    count: number;
+}
+
+// Flattened rows so grouped and ungrouped views share one virtualized list
+export type LedgerRow =
+    | { type: 'group'; key: string; account: string; totals: LedgerTotals }
+    | { type: 'entry'; key: string; entry: LedgerEntry }
+    | { type: 'subtotal'; key: string; account: string; totals: LedgerTotals };
+
+const NUMERIC_KEYS: LedgerSortKey[] = ['debit', 'credit', 'balance'];
+
+// A general ledger result as it may come back from history: older or partial results can
+// miss any field, and their entries go through normalizeLedgerEntry
+export interface SavedLedgerReport {
+    report_type?: string;
+    total_entries?: number;
+    date_range?: Partial<GeneralLedgerReport['date_range']>;
+    account_filter?: string;
+    entries?: unknown[];
+    summary?: { [Key in keyof GeneralLedgerReport['summary']]?: unknown };
+}
+
+// Ledger results saved before amounts became numeric carry "1234.00" strings and locale dates
+export const normalizeLedgerEntry = (value: unknown): LedgerEntry => {
+    const raw: Record<string, unknown> = typeof value === 'object' && value !== null ? value as Record<string, unknown> : {};
+    const amount = (field: unknown) => {
+        const parsed = typeof field === 'number' ? field : parseFloat(String(field ?? '').replace(/[^0-9.-]/g, ''));
+        return Number.isFinite(parsed) ? parsed : 0;
+    };
+    let postingDate: string | null = null;
+    if (typeof raw.postingDate === 'string' && raw.postingDate !== 'N/A') {
+        if (/^\d{4}-\d{2}-\d{2}/.test(raw.postingDate)) {
+            postingDate = raw.postingDate.slice(0, 10);
+        } else {
+            const parsed = new Date(raw.postingDate);
+            if (!Number.isNaN(parsed.getTime())) {
+                postingDate = `${parsed.getFullYear()}-${String(parsed.getMonth() + 1).padStart(2, '0')}-${String(parsed.getDate()).padStart(2, '0')}`;
+            }
+        }
+    }
+    return {
+        postingDate,
+        account: String(raw.account ?? 'Unknown'),
+        debit: amount(raw.debit),
+        credit: amount(raw.credit),
+        balance: amount(raw.balance),
+        voucherType: String(raw.voucherType ?? 'N/A'),
+        voucherNo: String(raw.voucherNo ?? 'N/A')
+    };
+};
+
+const parseAmount = (value: string) => {
+    if (value.trim() === '') return null;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+};
+
+export const filterLedgerEntries = (entries: LedgerEntry[], filters: LedgerFilters): LedgerEntry[] => {
+    const text = filters.text.trim().toLowerCase();
+    const minAmount = parseAmount(filters.minAmount);
+    const maxAmount = parseAmount(filters.maxAmount);
+
+    return entries.filter(entry => {
+        if (text && ![entry.account, entry.voucherNo, entry.voucherType].some(field => field.toLowerCase().includes(text))) {
+            return false;
+        }
+        // ISO dates compare correctly as strings; undated entries drop out once a date filter is set
+        if (filters.dateFrom && (!entry.postingDate || entry.postingDate < filters.dateFrom)) return false;
+        if (filters.dateTo && (!entry.postingDate || entry.postingDate > filters.dateTo)) return false;
+        const size = Math.max(Math.abs(entry.debit), Math.abs(entry.credit));
+        if (minAmount !== null && size < minAmount) return false;
+        if (maxAmount !== null && size > maxAmount) return false;
+        return true;
+    });
+};
+
+export const compareLedgerEntries = (a: LedgerEntry, b: LedgerEntry, sort: LedgerSort): number => {
+    const direction = sort.direction === 'asc' ? 1 : -1;
+    const left = a[sort.key];
+    const right = b[sort.key];
+    if (NUMERIC_KEYS.includes(sort.key)) {
+        return ((left as number) - (right as number)) * direction;
+    }
+    // Missing dates always sort last regardless of direction
+    if (left === null || right === null) {
+        return left === right ? 0 : left === null ? 1 : -1;
+    }
+    return String(left).localeCompare(String(right), undefined, { numeric: true }) * direction;
+};
+
+export const sortLedgerEntries = (entries: LedgerEntry[], sort: LedgerSort): LedgerEntry[] =>
+    // Array sort is stable, so ties keep the order the accounting system returned
+    [...entries].sort((a, b) => compareLedgerEntries(a, b, sort));
+
+export const totalLedgerEntries = (entries: LedgerEntry[]): LedgerTotals => {
+    const totals = entries.reduce(
+        (sum, entry) => ({ debit: sum.debit + entry.debit, credit: sum.credit + entry.credit }),
+        { debit: 0, credit: 0 }
+    );
+    return {
+        debit: Math.round(totals.debit * 100) / 100,
+        credit: Math.round(totals.credit * 100) / 100,
+        net: Math.round((totals.debit - totals.credit) * 100) / 100,
+        count: entries.length
+    };
+};
+
+export const buildLedgerRows = (entries: LedgerEntry[], groupByAccount: boolean): LedgerRow[] => {
+    if (!groupByAccount) {
+        return entries.map((entry, index) => ({ type: 'entry', key: `e${index}`, entry }));
+    }
+
+    const groups = new Map<string, LedgerEntry[]>();
+    for (const entry of entries) {
+        const group = groups.get(entry.account);
+        if (group) {
+            group.push(entry);
+        } else {
+            groups.set(entry.account, [entry]);
+        }
+    }
+
+    const rows: LedgerRow[] = [];
+    const accounts = [...groups.keys()].sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+    for (const account of accounts) {
+        const groupEntries = groups.get(account)!;
+        const totals = totalLedgerEntries(groupEntries);
+        rows.push({ type: 'group', key: `g:${account}`, account, totals });
+        groupEntries.forEach((entry, index) => rows.push({ type: 'entry', key: `g:${account}:${index}`, entry }));
+        rows.push({ type: 'subtotal', key: `s:${account}`, account, totals });
+    }
+    return rows;
+};
+
+const currencyFormatter = new Intl.NumberFormat(undefined, { style: 'currency', currency: 'USD' });
+
+export const formatAmount = (amount: number) => currencyFormatter.format(amount);
+
+export const formatPostingDate = (postingDate: string | null) => {
+    if (!postingDate) return 'N/A';
+    const [year, month, day] = postingDate.split('-').map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString();
+};
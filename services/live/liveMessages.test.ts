@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { decodeLiveMessage, parseDurationMs } from "./liveMessages";
+import { audioChunk, goAway, inputTranscript, interrupted, resumptionUpdate, toolCall, toolCallCancellation, usage } from "./scriptedTransport";
+
+describe('decodeLiveMessage', () => {
+    it('decodes each kind of scripted message', () => {
+        expect(decodeLiveMessage(inputTranscript('Hello', true))).toEqual([{ type: 'inputTranscription', text: 'Hello', finished: true }]);
+        expect(decodeLiveMessage(audioChunk('AAAA'))).toEqual([{ type: 'audio', data: 'AAAA' }]);
+        expect(decodeLiveMessage(interrupted())).toEqual([{ type: 'interrupted' }]);
+        expect(decodeLiveMessage(resumptionUpdate('handle-1'))).toEqual([{ type: 'resumptionUpdate', handle: 'handle-1' }]);
+        expect(decodeLiveMessage(toolCallCancellation('call-1'))).toEqual([{ type: 'toolCallCancellation', ids: ['call-1'] }]);
+        expect(decodeLiveMessage(goAway('10s'))).toEqual([{ type: 'goAway', timeLeftMs: 10000 }]);
+        expect(decodeLiveMessage(usage(100, 20))).toEqual([{ type: 'usage', usage: { promptTokens: 100, responseTokens: 20, totalTokens: 120 } }]);
+        expect(decodeLiveMessage(toolCall({ id: 'call-1', name: 'budget_tracker' }))).toEqual([
+            { type: 'toolCall', functionCalls: [{ id: 'call-1', name: 'budget_tracker', args: {} }] }
+        ]);
+    });
+
+    it('orders several signals in one message the way the client should handle them', () => {
+        const events = decodeLiveMessage({
+            serverContent: {
+                outputTranscription: { text: 'Sure' },
+                modelTurn: { parts: [{ inlineData: { mimeType: 'audio/pcm;rate=24000', data: 'AAAA' } }, { inlineData: { mimeType: 'audio/pcm;rate=24000', data: 'BBBB' } }] },
+                interrupted: true,
+                turnComplete: true
+            },
+            data: 'AAAABBBB',
+            usageMetadata: { totalTokenCount: 5 }
+        });
+        expect(events.map(event => event.type)).toEqual(['outputTranscription', 'audio', 'audio', 'interrupted', 'turnComplete', 'usage']);
+        // Audio comes from the parts rather than the joined `data`, so it is not delivered twice
+        expect(events.filter(event => event.type === 'audio')).toEqual([{ type: 'audio', data: 'AAAA' }, { type: 'audio', data: 'BBBB' }]);
+    });
+
+    it('skips thoughts and reports a non-resumable update without a handle', () => {
+        expect(decodeLiveMessage({ serverContent: { modelTurn: { parts: [{ text: 'plan', thought: true }, { text: 'Answer' }] } } }))
+            .toEqual([{ type: 'text', text: 'Answer' }]);
+        expect(decodeLiveMessage({ sessionResumptionUpdate: { resumable: false, newHandle: '' } }))
+            .toEqual([{ type: 'resumptionUpdate', handle: null }]);
+    });
+});
+
+describe('parseDurationMs', () => {
+    it('reads protobuf durations', () => {
+        expect(parseDurationMs('1.5s')).toBe(1500);
+        expect(parseDurationMs('0s')).toBe(0);
+        expect(parseDurationMs(undefined)).toBeNull();
+        expect(parseDurationMs('soon')).toBeNull();
+    });
+});
@@ -0,0 +1,100 @@
+import type { FunctionCall, UsageMetadata } from "@google/genai";
+import { LiveTransportMessage } from "./liveTransport";
+
+// Typed view of Live server messages. One message can carry several signals at once (a transcript
+// fragment alongside audio, an interruption followed by turnComplete), so each message decodes to
+// a list of events in the order the client should handle them.
+
+export interface LiveUsage {
+    promptTokens: number;
+    responseTokens: number;
+    totalTokens: number;
+}
+
+export type LiveServerEvent =
+    | { type: 'setupComplete' }
+    // The server's handle for resuming this conversation on a new connection; null when not resumable right now
+    | { type: 'resumptionUpdate'; handle: string | null }
+    | { type: 'inputTranscription'; text: string; finished: boolean }
+    | { type: 'outputTranscription'; text: string; finished: boolean }
+    | { type: 'text'; text: string }
+    // Base64 PCM16 audio of the answer
+    | { type: 'audio'; data: string }
+    // The user spoke over the answer; the rest of it will not be sent
+    | { type: 'interrupted' }
+    // The model has produced the whole answer, though it may still be playing
+    | { type: 'generationComplete' }
+    | { type: 'turnComplete' }
+    | { type: 'toolCall'; functionCalls: FunctionCall[] }
+    | { type: 'toolCallCancellation'; ids: string[] }
+    | { type: 'usage'; usage: LiveUsage }
+    // The server will close the connection soon; null when it did not say when
+    | { type: 'goAway'; timeLeftMs: number | null };
+
+export type LiveServerEventType = LiveServerEvent['type'];
+
+// Protobuf durations arrive as strings like "10s" or "1.5s"
+export const parseDurationMs = (duration: string | undefined): number | null => {
+    const match = duration?.match(/^(\d+(?:\.\d+)?)s$/);
+    return match ? Math.round(Number(match[1]) * 1000) : null;
+};
+
+const toUsage = (metadata: UsageMetadata): LiveUsage => {
+    const promptTokens = metadata.promptTokenCount ?? 0;
+    const responseTokens = metadata.responseTokenCount ?? 0;
+    return { promptTokens, responseTokens, totalTokens: metadata.totalTokenCount ?? promptTokens + responseTokens };
+};
+
+export const decodeLiveMessage = (message: LiveTransportMessage): LiveServerEvent[] => {
+    const events: LiveServerEvent[] = [];
+    if (message.setupComplete) {
+        events.push({ type: 'setupComplete' });
+    }
+    if (message.sessionResumptionUpdate) {
+        const { resumable, newHandle } = message.sessionResumptionUpdate;
+        events.push({ type: 'resumptionUpdate', handle: resumable && newHandle ? newHandle : null });
+    }
+
+    const content = message.serverContent;
+    if (content?.inputTranscription?.text) {
+        events.push({ type: 'inputTranscription', text: content.inputTranscription.text, finished: !!content.inputTranscription.finished });
+    }
+    if (content?.outputTranscription?.text) {
+        events.push({ type: 'outputTranscription', text: content.outputTranscription.text, finished: !!content.outputTranscription.finished });
+    }
+    const parts = content?.modelTurn?.parts ?? [];
+    const text = parts
+        .filter(part => typeof part.text === 'string' && !part.thought)
+        .map(part => part.text)
+        .join('');
+    if (text) {
+        events.push({ type: 'text', text });
+    }
+    const audioParts = parts.flatMap(part => part.inlineData?.data && part.inlineData.mimeType?.startsWith('audio/') ? [part.inlineData.data] : []);
+    // Real messages expose their audio parts through `data` too; scripted ones only set `data`
+    const audio = audioParts.length > 0 ? audioParts : message.data ? [message.data] : [];
+    audio.forEach(data => events.push({ type: 'audio', data }));
+    if (content?.interrupted) {
+        events.push({ type: 'interrupted' });
+    }
+    if (content?.generationComplete) {
+        events.push({ type: 'generationComplete' });
+    }
+    if (content?.turnComplete) {
+        events.push({ type: 'turnComplete' });
+    }
+
+    if (message.toolCall) {
+        events.push({ type: 'toolCall', functionCalls: message.toolCall.functionCalls ?? [] });
+    }
+    if (message.toolCallCancellation) {
+        events.push({ type: 'toolCallCancellation', ids: message.toolCallCancellation.ids ?? [] });
+    }
+    if (message.usageMetadata) {
+        events.push({ type: 'usage', usage: toUsage(message.usageMetadata) });
+    }
+    if (message.goAway) {
+        events.push({ type: 'goAway', timeLeftMs: parseDurationMs(message.goAway.timeLeft) });
+    }
+    return events;
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it, vi } from "vitest";
+import { createLiveTokenProvider } from "./liveTokens";
+
+const respond = (status: number, body: unknown) => vi.fn(async () => new Response(JSON.stringify(body), { status }));
+
+describe('createLiveTokenProvider', () => {
+    it('posts to the token endpoint and returns the token', async () => {
+        const token = { token: 'auth_tokens/abc', expiresAt: '2025-06-01T12:30:00Z', newSessionExpiresAt: '2025-06-01T12:01:00Z' };
+        const fetchImpl = respond(200, token);
+
+        expect(await createLiveTokenProvider('/api/live-token', fetchImpl)()).toEqual(token);
+        expect(fetchImpl).toHaveBeenCalledWith('/api/live-token', expect.objectContaining({ method: 'POST' }));
+    });
+
+    it('fetches a new token on every call', async () => {
+        const fetchImpl = respond(200, { token: 'auth_tokens/abc' });
+        const getToken = createLiveTokenProvider('/api/live-token', fetchImpl);
+        await getToken();
+        await getToken();
+        expect(fetchImpl).toHaveBeenCalledTimes(2);
+    });
+
+    it('surfaces the server error message', async () => {
+        const getToken = createLiveTokenProvider('/api/live-token', respond(500, { error: 'GEMINI_API_KEY is not set on the server' }));
+        await expect(getToken()).rejects.toThrow('Live token request failed (500): GEMINI_API_KEY is not set on the server');
+    });
+
+    it('rejects responses without a token', async () => {
+        await expect(createLiveTokenProvider('/x', respond(200, {}))()).rejects.toThrow('Live token endpoint returned no token');
+    });
+
+    it('reports network failures', async () => {
+        const getToken = createLiveTokenProvider('/x', vi.fn(async () => { throw new TypeError('Failed to fetch'); }));
+        await expect(getToken()).rejects.toThrow('Could not reach the Live token endpoint: Failed to fetch');
+    });
+});
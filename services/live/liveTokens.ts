@@ -0,0 +1,28 @@
+import type { LiveTokenResponse } from "../../server/liveTokenServer";
+
+// Client side of the ephemeral-token backend: the browser never sees the Gemini API key,
+// only single-use tokens minted by the server for one Live connection each
+
+export type LiveToken = LiveTokenResponse;
+
+export type LiveTokenProvider = () => Promise<LiveToken>;
+
+export const createLiveTokenProvider = (
+    url: string = process.env.LIVE_TOKEN_URL || '/api/live-token',
+    fetchImpl: typeof fetch = (...args) => fetch(...args)
+): LiveTokenProvider => async () => {
+    let response: Response;
+    try {
+        response = await fetchImpl(url, { method: 'POST', headers: { Accept: 'application/json' } });
+    } catch (error) {
+        throw new Error(`Could not reach the Live token endpoint: ${error instanceof Error ? error.message : error}`);
+    }
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+        throw new Error(`Live token request failed (${response.status}): ${body?.error ?? response.statusText}`);
+    }
+    if (typeof body?.token !== 'string') {
+        throw new Error('Live token endpoint returned no token');
+    }
+    return body as LiveToken;
+};
@@ -0,0 +1,59 @@
+import { GoogleGenAI } from "@google/genai";
+import { LiveTokenProvider, createLiveTokenProvider } from "./liveTokens";
+import type {
+    LiveConnectConfig,
+    LiveSendClientContentParameters,
+    LiveSendRealtimeInputParameters,
+    LiveSendToolResponseParameters,
+    LiveServerMessage
+} from "@google/genai";
+
+// The slice of the Live API that geminiService uses, so the real Gemini connection can be
+// swapped for a scripted stand-in in offline development and tests
+
+// Real messages are LiveServerMessage instances with a `data` getter; scripted ones are plain objects
+export type LiveTransportMessage = Partial<Omit<LiveServerMessage, 'data' | 'text'>> & { data?: string };
+
+export interface LiveTransportCallbacks {
+    onopen?: () => void;
+    onmessage: (message: LiveTransportMessage) => void;
+    onerror?: (e: Event) => void;
+    onclose?: (e: CloseEvent) => void;
+}
+
+export interface LiveTransportConnectParams {
+    model: string;
+    config: LiveConnectConfig;
+    callbacks: LiveTransportCallbacks;
+}
+
+export interface LiveTransportSession {
+    sendRealtimeInput: (params: LiveSendRealtimeInputParameters) => void;
+    sendClientContent: (params: LiveSendClientContentParameters) => void;
+    sendToolResponse: (params: LiveSendToolResponseParameters) => void;
+    close: () => void;
+}
+
+export interface LiveTransport {
+    connect: (params: LiveTransportConnectParams) => Promise<LiveTransportSession>;
+}
+
+// Talks to the Gemini Live API with an ephemeral token fetched before every connect. Tokens are
+// single-use, so reconnects get a fresh one; a failed fetch surfaces as a connection error.
+export const createGeminiLiveTransport = (getToken: LiveTokenProvider = createLiveTokenProvider()): LiveTransport => ({
+    connect: async ({ model, config, callbacks }) => {
+        const { token } = await getToken();
+        // Ephemeral tokens are only accepted by the v1alpha Live endpoint
+        const ai = new GoogleGenAI({ apiKey: token, httpOptions: { apiVersion: 'v1alpha' } });
+        return ai.live.connect({
+            model,
+            config,
+            callbacks: {
+                onopen: callbacks.onopen,
+                onmessage: callbacks.onmessage,
+                onerror: callbacks.onerror,
+                onclose: callbacks.onclose
+            }
+        });
+    }
+});
@@ -0,0 +1,276 @@
+import type { FunctionResponse, LiveConnectConfig, Part } from "@google/genai";
+import { LiveTransport, LiveTransportCallbacks, LiveTransportMessage, LiveTransportSession } from "./liveTransport";
+import { PLAYER_SAMPLE_RATE, encodePcm16Base64 } from "../audio/pcm";
+
+// A stand-in for the Gemini Live server that replays scripted sessions: transcripts, audio,
+// tool calls, turn completion, interruptions and dropped connections. Scripts can pause until
+// the client speaks, types or answers a tool call, so whole conversations run offline.
+
+export type ScriptedClientEvent =
+    | { type: 'audio'; data: string }
+    | { type: 'text'; text: string }
+    | { type: 'toolResponse'; functionResponses: FunctionResponse[] }
+    | { type: 'activityStart' }
+    | { type: 'activityEnd' }
+    | { type: 'audioStreamEnd' }
+    | { type: 'close' };
+
+export type ScriptStep =
+    // Deliver a server message to the client
+    | { type: 'message'; message: LiveTransportMessage }
+    | { type: 'wait'; ms: number }
+    // Pause until the client sends something. Audio counts once `minAudioChunks` frames arrived;
+    // when it was speech, `transcriptIfSpoken` is sent back as the input transcription.
+    | { type: 'awaitClient'; event: 'input' | 'toolResponse'; minAudioChunks?: number; transcriptIfSpoken?: string }
+    // Drop the connection from the server side
+    | { type: 'close'; code?: number; reason?: string }
+    | { type: 'error'; message: string };
+
+export interface LiveScript {
+    steps: ScriptStep[];
+    // Step to continue from once the script ends, for open-ended demo sessions
+    repeatFrom?: number;
+}
+
+export interface ScriptedConnection {
+    index: number;
+    config: LiveConnectConfig;
+    clientEvents: ScriptedClientEvent[];
+    closed: boolean;
+}
+
+export interface ScriptedTransportOptions {
+    // One script per connection; a function can tailor it to the config (e.g. audio vs text replies).
+    // Reconnects get the next script, and the last one is reused when the list runs out.
+    scripts: LiveScript | LiveScript[] | ((config: LiveConnectConfig, connectionIndex: number) => LiveScript);
+    // Rejects the connect call for these connection indexes, to exercise reconnect handling
+    failConnections?: number[];
+    // Delay between consecutive server messages; 0 keeps tests fast
+    stepDelayMs?: number;
+}
+
+export interface ScriptedTransport extends LiveTransport {
+    readonly connections: ScriptedConnection[];
+    // Resolves once every started script has run to completion or its connection closed
+    whenIdle: () => Promise<void>;
+}
+
+const DEFAULT_AUDIO_CHUNKS = 25;
+
+const createCloseEvent = (code: number, reason: string): CloseEvent =>
+    typeof CloseEvent !== 'undefined'
+        ? new CloseEvent('close', { code, reason })
+        : Object.assign(new Event('close'), { code, reason, wasClean: code === 1000 }) as CloseEvent;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const createScriptedTransport = (options: ScriptedTransportOptions): ScriptedTransport => {
+    const connections: ScriptedConnection[] = [];
+    const running = new Set<Promise<void>>();
+
+    const scriptFor = (config: LiveConnectConfig, index: number): LiveScript => {
+        const { scripts } = options;
+        if (typeof scripts === 'function') return scripts(config, index);
+        if (Array.isArray(scripts)) return scripts[Math.min(index, scripts.length - 1)];
+        return scripts;
+    };
+
+    const run = async (connection: ScriptedConnection, script: LiveScript, callbacks: LiveTransportCallbacks, waitForClient: () => Promise<void>) => {
+        // Client events not yet consumed by an awaitClient step
+        let cursor = 0;
+        const deliver = (message: LiveTransportMessage) => {
+            if (!connection.closed) callbacks.onmessage(message);
+        };
+
+        // Let connect() resolve and the caller store the session before the first message
+        await sleep(0);
+        let stepIndex = 0;
+        while (!connection.closed && stepIndex < script.steps.length) {
+            const step = script.steps[stepIndex];
+            switch (step.type) {
+                case 'message':
+                    deliver(step.message);
+                    if (options.stepDelayMs) await sleep(options.stepDelayMs);
+                    break;
+                case 'wait':
+                    await sleep(step.ms);
+                    break;
+                case 'awaitClient': {
+                    for (;;) {
+                        const pending = connection.clientEvents.slice(cursor);
+                        const audioChunks = pending.filter(event => event.type === 'audio').length;
+                        const matchIndex = step.event === 'toolResponse'
+                            ? pending.findIndex(event => event.type === 'toolResponse')
+                            : pending.findIndex(event => event.type === 'text' || event.type === 'activityEnd');
+                        if (matchIndex >= 0) {
+                            cursor += matchIndex + 1;
+                            if (step.transcriptIfSpoken && pending[matchIndex].type === 'activityEnd') {
+                                deliver(inputTranscript(step.transcriptIfSpoken, true));
+                            }
+                            break;
+                        }
+                        if (step.event === 'input' && audioChunks >= (step.minAudioChunks ?? DEFAULT_AUDIO_CHUNKS)) {
+                            cursor = connection.clientEvents.length;
+                            if (step.transcriptIfSpoken) {
+                                deliver(inputTranscript(step.transcriptIfSpoken, true));
+                            }
+                            break;
+                        }
+                        if (connection.closed) return;
+                        await waitForClient();
+                    }
+                    break;
+                }
+                case 'close':
+                    connection.closed = true;
+                    callbacks.onclose?.(createCloseEvent(step.code ?? 1006, step.reason ?? 'Scripted disconnect'));
+                    return;
+                case 'error':
+                    connection.closed = true;
+                    callbacks.onerror?.(Object.assign(new Event('error'), { message: step.message }));
+                    return;
+            }
+            stepIndex++;
+            if (stepIndex >= script.steps.length && script.repeatFrom !== undefined) {
+                stepIndex = script.repeatFrom;
+            }
+        }
+    };
+
+    return {
+        connections,
+        whenIdle: async () => {
+            while (running.size > 0) {
+                await Promise.all([...running]);
+            }
+        },
+        connect: async ({ config, callbacks }) => {
+            const index = connections.length;
+            const connection: ScriptedConnection = { index, config, clientEvents: [], closed: false };
+            connections.push(connection);
+            if (options.failConnections?.includes(index)) {
+                connection.closed = true;
+                throw new Error(`Scripted connection ${index} refused`);
+            }
+
+            // Wakes an awaitClient step whenever the client sends something
+            let notify: (() => void) | null = null;
+            const waitForClient = () => new Promise<void>(resolve => { notify = resolve; });
+            const record = (event: ScriptedClientEvent) => {
+                if (connection.closed) return;
+                connection.clientEvents.push(event);
+                const wake = notify;
+                notify = null;
+                wake?.();
+            };
+
+            const session: LiveTransportSession = {
+                sendRealtimeInput: (params) => {
+                    if (params.audio?.data) record({ type: 'audio', data: params.audio.data });
+                    if (params.media && 'data' in params.media && params.media.data) record({ type: 'audio', data: params.media.data });
+                    if (params.activityStart) record({ type: 'activityStart' });
+                    if (params.activityEnd) record({ type: 'activityEnd' });
+                    if (params.audioStreamEnd) record({ type: 'audioStreamEnd' });
+                    if (params.text) record({ type: 'text', text: params.text });
+                },
+                sendClientContent: (params) => {
+                    const turns = Array.isArray(params.turns) ? params.turns : params.turns ? [params.turns] : [];
+                    const text = turns
+                        .flatMap((turn): Part[] => typeof turn === 'string' ? [{ text: turn }] : 'parts' in turn ? turn.parts ?? [] : [turn as Part])
+                        .map(part => part.text ?? '')
+                        .join('');
+                    if (text) record({ type: 'text', text });
+                },
+                sendToolResponse: (params) => {
+                    const responses = Array.isArray(params.functionResponses) ? params.functionResponses : [params.functionResponses];
+                    record({ type: 'toolResponse', functionResponses: responses });
+                },
+                close: () => {
+                    if (connection.closed) return;
+                    connection.clientEvents.push({ type: 'close' });
+                    connection.closed = true;
+                    const wake = notify;
+                    notify = null;
+                    wake?.();
+                    setTimeout(() => callbacks.onclose?.(createCloseEvent(1000, 'Client closed')), 0);
+                }
+            };
+
+            callbacks.onopen?.();
+            const runner = run(connection, scriptFor(config, index), callbacks, waitForClient)
+                .finally(() => running.delete(runner));
+            running.add(runner);
+            return session;
+        }
+    };
+};
+
+// --- Message builders for scripts ---
+
+export const inputTranscript = (text: string, finished = false): LiveTransportMessage =>
+    ({ serverContent: { inputTranscription: { text, finished } } });
+
+export const outputTranscript = (text: string, finished = false): LiveTransportMessage =>
+    ({ serverContent: { outputTranscription: { text, finished } } });
+
+export const modelText = (text: string): LiveTransportMessage =>
+    ({ serverContent: { modelTurn: { role: 'model', parts: [{ text }] } } });
+
+export const audioChunk = (data: string): LiveTransportMessage => ({ data });
+
+export const turnComplete = (): LiveTransportMessage => ({ serverContent: { turnComplete: true } });
+
+export const generationComplete = (): LiveTransportMessage => ({ serverContent: { generationComplete: true } });
+
+export const interrupted = (): LiveTransportMessage => ({ serverContent: { interrupted: true } });
+
+export const toolCall = (...calls: { name: string; args?: Record<string, unknown>; id?: string }[]): LiveTransportMessage => ({
+    toolCall: {
+        functionCalls: calls.map((call, index) => ({ id: call.id ?? `call-${call.name}-${index}`, name: call.name, args: call.args ?? {} }))
+    }
+});
+
+export const resumptionUpdate = (newHandle: string): LiveTransportMessage =>
+    ({ sessionResumptionUpdate: { newHandle, resumable: true } });
+
+export const goAway = (timeLeft = '5s'): LiveTransportMessage => ({ goAway: { timeLeft } });
+
+export const toolCallCancellation = (...ids: string[]): LiveTransportMessage => ({ toolCallCancellation: { ids } });
+
+export const usage = (promptTokenCount: number, responseTokenCount: number): LiveTransportMessage =>
+    ({ usageMetadata: { promptTokenCount, responseTokenCount, totalTokenCount: promptTokenCount + responseTokenCount } });
+
+// A soft tone standing in for speech, split into 100 ms chunks of 24 kHz PCM16
+export const toneChunks = (durationMs: number, frequency = 220): string[] => {
+    const chunkSamples = PLAYER_SAMPLE_RATE / 10;
+    const chunkCount = Math.max(1, Math.round(durationMs / 100));
+    return Array.from({ length: chunkCount }, (_, chunk) => {
+        const samples = new Float32Array(chunkSamples);
+        for (let i = 0; i < chunkSamples; i++) {
+            const t = (chunk * chunkSamples + i) / PLAYER_SAMPLE_RATE;
+            samples[i] = 0.1 * Math.sin(2 * Math.PI * frequency * t);
+        }
+        return encodePcm16Base64(samples);
+    });
+};
+
+// Steps for one spoken (or, in text mode, written) assistant answer followed by turnComplete
+export const assistantReply = (text: string, responseModality: 'audio' | 'text'): ScriptStep[] => {
+    if (responseModality === 'text') {
+        return [
+            { type: 'message', message: modelText(text) },
+            { type: 'message', message: turnComplete() }
+        ];
+    }
+    const words = text.split(' ');
+    const chunks = toneChunks(Math.min(6000, words.length * 250));
+    // Interleave transcript fragments with audio, as the real server does
+    const steps = chunks.flatMap((chunk, index): ScriptStep[] => {
+        const from = Math.floor(index * words.length / chunks.length);
+        const to = Math.floor((index + 1) * words.length / chunks.length);
+        const fragment = words.slice(from, to).join(' ');
+        const audio: ScriptStep = { type: 'message', message: audioChunk(chunk) };
+        return fragment ? [{ type: 'message', message: outputTranscript(`${from > 0 ? ' ' : ''}${fragment}`) }, audio] : [audio];
+    });
+    return [...steps, { type: 'message', message: generationComplete() }, { type: 'message', message: turnComplete() }];
+};
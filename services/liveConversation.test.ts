@@ -0,0 +1,705 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AssistantState } from "../types";
+import { LiveConversation } from "./liveConversation";
+import { ToolPolicy, createToolRegistry } from "./toolRegistry";
+import { budgetTrackerTool } from "./tools/budgetTracker";
+import {
+    LiveScript,
+    assistantReply,
+    audioChunk,
+    createScriptedTransport,
+    goAway,
+    inputTranscript,
+    interrupted,
+    outputTranscript,
+    toneChunks,
+    toolCall,
+    toolCallCancellation,
+    turnComplete,
+    usage
+} from "./live/scriptedTransport";
+import { LiveTransportSession } from "./live/liveTransport";
+import { FakeCapture, FakePlayback } from "../test/fakeAudio";
+import { DEFAULT_VOICE_ACTIVITY, VoiceActivitySettings } from "./voiceActivity";
+
+const SPEECH = 0.3;
+
+interface SetupOptions {
+    failConnections?: number[];
+    responseModality?: 'audio' | 'text';
+    toolPolicies?: Record<string, ToolPolicy>;
+    voiceActivity?: VoiceActivitySettings;
+    // Replaces parts of every scripted session, e.g. to make sending fail
+    sessionOverrides?: Partial<LiveTransportSession>;
+}
+
+const setup = (scripts: LiveScript | LiveScript[], options: SetupOptions = {}) => {
+    const transport = createScriptedTransport({ scripts, failConnections: options.failConnections });
+    const capture = new FakeCapture();
+    const playback = new FakePlayback();
+    const conversation = new LiveConversation({
+        transport: options.sessionOverrides
+            ? { connect: async params => ({ ...await transport.connect(params), ...options.sessionOverrides }) }
+            : transport,
+        tools: createToolRegistry([budgetTrackerTool]),
+        responseModality: options.responseModality,
+        toolPolicies: options.toolPolicies,
+        voiceActivity: options.voiceActivity,
+        createCapture: () => capture,
+        createPlayback: () => playback
+    });
+    const states: AssistantState[] = [];
+    conversation.subscribe(() => {
+        const { assistantState } = conversation.getSnapshot();
+        if (states[states.length - 1] !== assistantState) states.push(assistantState);
+    });
+    active.push(conversation);
+    return { transport, capture, playback, conversation, states, snapshot: () => conversation.getSnapshot() };
+};
+
+const active: LiveConversation[] = [];
+
+beforeEach(() => {
+    // Connection lifecycle and barge-in logging
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    active.splice(0).forEach(conversation => conversation.stop());
+    vi.restoreAllMocks();
+});
+
+const untilState = (conversation: LiveConversation, state: AssistantState) =>
+    vi.waitFor(() => expect(conversation.getSnapshot().assistantState).toBe(state), { timeout: 3000 });
+
+const spokenTurn = (question: string, answer: string): LiveScript['steps'] => [
+    { type: 'awaitClient', event: 'input', minAudioChunks: 3, transcriptIfSpoken: question },
+    ...assistantReply(answer, 'audio')
+];
+
+describe('LiveConversation', () => {
+    it('connects, listens, speaks and returns to listening', async () => {
+        const { conversation, capture, playback, states, snapshot } = setup({ steps: spokenTurn('What is my budget?', 'You have plenty left.') });
+
+        await conversation.start();
+        expect(states).toEqual([AssistantState.PROCESSING, AssistantState.LISTENING]);
+        expect(capture.started).toBe(true);
+
+        capture.emit(3, SPEECH);
+        await untilState(conversation, AssistantState.SPEAKING);
+        expect(snapshot().statusMessage).toBe('Speaking...');
+        expect(playback.queued.length).toBeGreaterThan(0);
+
+        playback.drain();
+        expect(states).toEqual([AssistantState.PROCESSING, AssistantState.LISTENING, AssistantState.SPEAKING, AssistantState.LISTENING]);
+        expect(snapshot().transcript.map(entry => entry.kind === 'user' || entry.kind === 'assistant' ? [entry.kind, entry.text] : entry.kind)).toEqual([
+            ['user', 'What is my budget?'],
+            ['assistant', 'You have plenty left.']
+        ]);
+    });
+
+    it('stops speaking when the user talks over the answer', async () => {
+        const { conversation, capture, playback, snapshot } = setup({ steps: spokenTurn('Read me the whole report.', 'This is a very long answer that goes on and on.') });
+
+        await conversation.start();
+        capture.emit(3, SPEECH);
+        await untilState(conversation, AssistantState.SPEAKING);
+
+        capture.emit(1, SPEECH);
+        expect(snapshot().assistantState).toBe(AssistantState.LISTENING);
+        expect(playback.flushCount).toBe(1);
+        expect(playback.queued).toEqual([]);
+    });
+
+    it('lets the server detect turns by default', async () => {
+        const { conversation, transport } = setup({ steps: [{ type: 'awaitClient', event: 'input' }] });
+
+        await conversation.start();
+        expect(transport.connections[0].config.realtimeInputConfig).toEqual({
+            automaticActivityDetection: expect.objectContaining({ disabled: false, silenceDurationMs: DEFAULT_VOICE_ACTIVITY.silenceDurationMs })
+        });
+    });
+
+    it('frames speech with activity signals when this device detects turns', async () => {
+        const { conversation, capture, playback, transport, snapshot } = setup({
+            steps: [{ type: 'awaitClient', event: 'input', minAudioChunks: 100, transcriptIfSpoken: 'What is my budget?' }, ...assistantReply('You have plenty left.', 'audio')]
+        }, { voiceActivity: { ...DEFAULT_VOICE_ACTIVITY, detection: 'client', silenceDurationMs: 200 } });
+
+        await conversation.start();
+        expect(transport.connections[0].config.realtimeInputConfig).toEqual({ automaticActivityDetection: { disabled: true } });
+
+        // Silence is held back until speech starts, then sent ahead of it
+        capture.emit(2, 0.001);
+        expect(transport.connections[0].clientEvents).toEqual([]);
+        capture.emit(3, SPEECH);
+        // 200 ms of silence ends the turn
+        capture.emit(5, 0.001);
+        await untilState(conversation, AssistantState.SPEAKING);
+
+        expect(transport.connections[0].clientEvents.map(event => event.type)).toEqual([
+            'activityStart', ...Array(10).fill('audio'), 'activityEnd'
+        ]);
+        playback.drain();
+        expect(snapshot().transcript.map(entry => 'text' in entry ? entry.text : entry.kind)).toEqual(['What is my budget?', 'You have plenty left.']);
+    });
+
+    describe('push to talk', () => {
+        const pushToTalk: VoiceActivitySettings = { ...DEFAULT_VOICE_ACTIVITY, detection: 'pushToTalk' };
+
+        it('sends audio only while the key is held, framed by activity signals', async () => {
+            const { conversation, capture, transport, snapshot } = setup({
+                steps: [{ type: 'awaitClient', event: 'input', minAudioChunks: 100, transcriptIfSpoken: 'What is my budget?' }, ...assistantReply('You have plenty left.', 'audio')]
+            }, { voiceActivity: pushToTalk });
+
+            await conversation.start();
+            expect(snapshot().detection).toBe('pushToTalk');
+            expect(transport.connections[0].config.realtimeInputConfig).toEqual({ automaticActivityDetection: { disabled: true } });
+
+            capture.emit(2, SPEECH);
+            conversation.startTalking();
+            expect(snapshot().isTalking).toBe(true);
+            capture.emit(2, SPEECH);
+            conversation.stopTalking();
+            capture.emit(2, SPEECH);
+            await untilState(conversation, AssistantState.SPEAKING);
+
+            expect(transport.connections[0].clientEvents.map(event => event.type)).toEqual(['activityStart', 'audio', 'audio', 'activityEnd']);
+            expect(snapshot().isTalking).toBe(false);
+        });
+
+        it('cuts the answer off when the key is pressed, not when the room is loud', async () => {
+            const { conversation, capture, playback } = setup({
+                steps: [{ type: 'awaitClient', event: 'input' }, ...assistantReply('This is a very long answer that goes on and on.', 'audio')]
+            }, { voiceActivity: pushToTalk });
+
+            await conversation.start();
+            conversation.sendText('Read me the whole report.');
+            await untilState(conversation, AssistantState.SPEAKING);
+
+            capture.emit(2, SPEECH);
+            expect(conversation.getSnapshot().assistantState).toBe(AssistantState.SPEAKING);
+
+            conversation.startTalking();
+            expect(conversation.getSnapshot().assistantState).toBe(AssistantState.LISTENING);
+            expect(playback.flushCount).toBe(1);
+        });
+
+        it('ignores the key while muted', async () => {
+            const { conversation, capture, transport, snapshot } = setup({ steps: [{ type: 'awaitClient', event: 'input' }] }, { voiceActivity: pushToTalk });
+
+            await conversation.start();
+            conversation.toggleMute();
+            conversation.startTalking();
+            capture.emit(2, SPEECH);
+
+            expect(snapshot()).toMatchObject({ isMuted: true, isTalking: false });
+            expect(transport.connections[0].clientEvents).toEqual([]);
+        });
+
+        it('ends the turn in progress when muted', async () => {
+            const { conversation, transport, snapshot } = setup({ steps: [{ type: 'awaitClient', event: 'input' }] }, { voiceActivity: pushToTalk });
+
+            await conversation.start();
+            conversation.startTalking();
+            conversation.setMuted(true);
+
+            expect(snapshot().isTalking).toBe(false);
+            expect(transport.connections[0].clientEvents).toEqual([{ type: 'activityStart' }, { type: 'activityEnd' }]);
+        });
+    });
+
+    it('stops sending audio while muted without ending the conversation', async () => {
+        const { conversation, capture, transport, snapshot } = setup({ steps: [{ type: 'awaitClient', event: 'input', minAudioChunks: 100 }] });
+
+        await conversation.start();
+        conversation.setMuted(true);
+        capture.emit(3, SPEECH);
+        expect(transport.connections[0].clientEvents).toEqual([{ type: 'audioStreamEnd' }]);
+        expect(snapshot()).toMatchObject({ assistantState: AssistantState.LISTENING, isMuted: true });
+
+        conversation.setMuted(false);
+        capture.emit(1, SPEECH);
+        expect(transport.connections[0].clientEvents.map(event => event.type)).toEqual(['audioStreamEnd', 'audio']);
+
+        conversation.stop();
+        expect(snapshot().isMuted).toBe(false);
+    });
+
+    describe('interruptions', () => {
+        // An answer whose second half is only sent once the user has said something more
+        const [firstChunk, secondChunk, thirdChunk] = toneChunks(300);
+        const interruptibleAnswer = (afterUserSpeaks: LiveScript['steps']): LiveScript => ({
+            steps: [
+                { type: 'awaitClient', event: 'input', minAudioChunks: 1, transcriptIfSpoken: 'What is the balance?' },
+                { type: 'message', message: outputTranscript('The balance') },
+                { type: 'message', message: audioChunk(firstChunk) },
+                { type: 'message', message: outputTranscript(' is forty two.') },
+                { type: 'message', message: audioChunk(secondChunk) },
+                { type: 'awaitClient', event: 'input', minAudioChunks: 1 },
+                ...afterUserSpeaks
+            ]
+        });
+        const assistantEntries = (conversation: LiveConversation) =>
+            conversation.getSnapshot().transcript.filter(entry => entry.kind === 'assistant');
+
+        it('keeps only what was heard when the user talks over the answer', async () => {
+            const { conversation, capture, playback, transport, snapshot } = setup(interruptibleAnswer([
+                { type: 'message', message: outputTranscript(' And more.') },
+                { type: 'message', message: audioChunk(thirdChunk) },
+                { type: 'message', message: turnComplete() }
+            ]));
+            await conversation.start();
+            capture.emit(1, SPEECH);
+            await vi.waitFor(() => expect(playback.queued).toHaveLength(2));
+
+            playback.play(1);
+            capture.emit(1, SPEECH);
+            await transport.whenIdle();
+
+            // The rest of the interrupted answer arrived after the barge-in and was dropped
+            expect(snapshot().assistantState).toBe(AssistantState.LISTENING);
+            expect(playback.queued).toEqual([]);
+            expect(assistantEntries(conversation)).toEqual([
+                expect.objectContaining({ text: 'The balance is forty two.', heardText: 'The balance' })
+            ]);
+        });
+
+        it('stops playback when the server reports an interruption and plays the next answer', async () => {
+            const { conversation, capture, playback, transport, snapshot } = setup(interruptibleAnswer([
+                { type: 'message', message: interrupted() },
+                { type: 'message', message: turnComplete() },
+                ...assistantReply('Sure.', 'audio')
+            ]));
+            await conversation.start();
+            capture.emit(1, SPEECH);
+            await vi.waitFor(() => expect(playback.queued).toHaveLength(2));
+
+            playback.play(1);
+            // Too quiet for local barge-in; the server noticed the user first
+            capture.emit(1, 0.001);
+            await transport.whenIdle();
+
+            expect(playback.flushCount).toBe(1);
+            expect(snapshot().assistantState).toBe(AssistantState.SPEAKING);
+            expect(playback.queued.length).toBeGreaterThan(0);
+            expect(assistantEntries(conversation)).toEqual([
+                expect.objectContaining({ text: 'The balance is forty two.', heardText: 'The balance' }),
+                expect.objectContaining({ text: 'Sure.' })
+            ]);
+        });
+
+        it('plays the next answer when no turnComplete follows the interruption', async () => {
+            const { conversation, capture, playback, transport, snapshot } = setup(interruptibleAnswer([
+                { type: 'message', message: interrupted() },
+                ...assistantReply('Sure.', 'audio')
+            ]));
+            await conversation.start();
+            capture.emit(1, SPEECH);
+            await vi.waitFor(() => expect(playback.queued).toHaveLength(2));
+
+            playback.play(1);
+            capture.emit(1, 0.001);
+            await transport.whenIdle();
+
+            expect(playback.flushCount).toBe(1);
+            expect(snapshot().assistantState).toBe(AssistantState.SPEAKING);
+            expect(playback.queued.length).toBeGreaterThan(0);
+            expect(assistantEntries(conversation)).toEqual([
+                expect.objectContaining({ text: 'The balance is forty two.', heardText: 'The balance' }),
+                expect.objectContaining({ text: 'Sure.' })
+            ]);
+        });
+    });
+
+    it('ignores quiet microphone input while speaking', async () => {
+        const { conversation, capture } = setup({ steps: spokenTurn('Hello?', 'Hello there, how can I help?') });
+
+        await conversation.start();
+        capture.emit(3, SPEECH);
+        await untilState(conversation, AssistantState.SPEAKING);
+
+        capture.emit(2, 0.001);
+        expect(conversation.getSnapshot().assistantState).toBe(AssistantState.SPEAKING);
+    });
+
+    it('runs tool calls and sends the results back to the model', async () => {
+        const { conversation, capture, transport, snapshot } = setup({
+            steps: [
+                { type: 'awaitClient', event: 'input', minAudioChunks: 1, transcriptIfSpoken: 'How is marketing doing?' },
+                { type: 'message', message: toolCall({ id: 'call-1', name: 'budget_tracker', args: { category: 'marketing', budgeted_amount: 1000, actual_amount: 1200 } }) },
+                { type: 'awaitClient', event: 'toolResponse' },
+                ...assistantReply('Marketing is over budget.', 'audio')
+            ]
+        });
+
+        await conversation.start();
+        capture.emit(1, SPEECH);
+        await untilState(conversation, AssistantState.SPEAKING);
+
+        expect(snapshot().transcript.map(entry => entry.kind)).toEqual(['user', 'tool_call', 'tool_result', 'assistant']);
+        expect(snapshot().transcript[2]).toMatchObject({ callId: 'call-1', name: 'budget_tracker', result: { status: 'Over Budget' }, durationMs: expect.any(Number) });
+        expect(snapshot().toolCalls).toEqual([{ callId: 'call-1', name: 'budget_tracker', args: expect.objectContaining({ category: 'marketing' }) }]);
+        expect(snapshot().toolResults).toEqual([expect.objectContaining({ callId: 'call-1', name: 'budget_tracker', error: undefined })]);
+        const toolResponse = transport.connections[0].clientEvents.find(event => event.type === 'toolResponse');
+        expect(toolResponse).toMatchObject({ functionResponses: [{ id: 'call-1', name: 'budget_tracker', response: { variance: '$200.00' } }] });
+    });
+
+    it('reports invalid tool arguments back to the model', async () => {
+        const { conversation, capture, transport, snapshot } = setup({
+            steps: [
+                { type: 'awaitClient', event: 'input', minAudioChunks: 1 },
+                { type: 'message', message: toolCall({ id: 'call-1', name: 'budget_tracker', args: { category: 'rent', budgeted_amount: 0, actual_amount: 5 } }) },
+                { type: 'awaitClient', event: 'toolResponse' }
+            ]
+        });
+
+        await conversation.start();
+        capture.emit(1, SPEECH);
+        await transport.whenIdle();
+
+        expect(snapshot().toolValidationErrors).toEqual([{ toolName: 'budget_tracker', issues: [expect.objectContaining({ path: 'budgeted_amount' })] }]);
+        // Failed calls are in the transcript but get no result card
+        expect(snapshot().transcript.find(entry => entry.kind === 'tool_result')).toMatchObject({ error: 'Invalid arguments for budget_tracker', durationMs: 0 });
+        expect(snapshot().toolResults).toEqual([]);
+        expect(transport.connections[0].clientEvents.find(event => event.type === 'toolResponse')).toMatchObject({
+            functionResponses: [{ response: { error: 'Invalid arguments for budget_tracker' } }]
+        });
+    });
+
+    it('keeps the latest result of each tool and lets the user dismiss it', async () => {
+        const args = (actual: number) => ({ category: 'marketing', budgeted_amount: 1000, actual_amount: actual });
+        const { conversation, capture, transport, snapshot } = setup({
+            steps: [
+                { type: 'awaitClient', event: 'input', minAudioChunks: 1 },
+                { type: 'message', message: toolCall({ id: 'call-1', name: 'budget_tracker', args: args(1200) }) },
+                { type: 'awaitClient', event: 'toolResponse' },
+                { type: 'message', message: { toolCall: { functionCalls: [{ name: 'budget_tracker', args: args(800) }] } } },
+                { type: 'awaitClient', event: 'toolResponse' }
+            ]
+        });
+
+        await conversation.start();
+        capture.emit(1, SPEECH);
+        await transport.whenIdle();
+
+        const [latest] = snapshot().toolResults;
+        expect(snapshot().toolResults).toHaveLength(1);
+        // Calls without an id from the model still get one, shared by the call and its result
+        expect(latest).toMatchObject({ name: 'budget_tracker', result: { status: 'Under Budget' } });
+        expect(latest.callId).not.toBe('call-1');
+        expect(snapshot().toolCalls.map(call => call.callId)).toEqual(['call-1', latest.callId]);
+
+        conversation.dismissToolResult(latest.callId);
+        expect(snapshot().toolResults).toEqual([]);
+    });
+
+    describe('tool confirmation', () => {
+        const budgetCall = toolCall({ id: 'call-1', name: 'budget_tracker', args: { category: 'marketing', budgeted_amount: 1000, actual_amount: 1200 } });
+        const confirmScript: LiveScript = {
+            steps: [
+                { type: 'awaitClient', event: 'input', minAudioChunks: 1 },
+                { type: 'message', message: budgetCall },
+                { type: 'awaitClient', event: 'toolResponse' }
+            ]
+        };
+        const toolResponseOf = (transport: ReturnType<typeof setup>['transport']) =>
+            transport.connections[0].clientEvents.find(event => event.type === 'toolResponse');
+
+        const untilPending = async (conversation: LiveConversation) => {
+            await vi.waitFor(() => expect(conversation.getSnapshot().pendingConfirmations).toHaveLength(1));
+            return conversation.getSnapshot().pendingConfirmations[0];
+        };
+
+        it('waits for approval before running the tool', async () => {
+            const { conversation, capture, transport, snapshot } = setup(confirmScript, { toolPolicies: { budget_tracker: 'confirm' } });
+            await conversation.start();
+            capture.emit(1, SPEECH);
+
+            const pending = await untilPending(conversation);
+            expect(pending).toMatchObject({ id: 'call-1', toolName: 'budget_tracker', args: { budgeted_amount: 1000 } });
+            expect(snapshot().statusMessage).toBe('Waiting for your approval...');
+            expect(toolResponseOf(transport)).toBeUndefined();
+
+            conversation.approveToolCall(pending.id);
+            await transport.whenIdle();
+            expect(snapshot().pendingConfirmations).toEqual([]);
+            expect(toolResponseOf(transport)).toMatchObject({
+                functionResponses: [{ response: { status: 'Over Budget', user_decision: 'approved' } }]
+            });
+        });
+
+        it('runs the tool with the arguments the user edited', async () => {
+            const { conversation, capture, transport } = setup(confirmScript, { toolPolicies: { budget_tracker: 'confirm' } });
+            await conversation.start();
+            capture.emit(1, SPEECH);
+
+            const pending = await untilPending(conversation);
+            conversation.approveToolCall(pending.id, { ...pending.args, actual_amount: 900 });
+            await transport.whenIdle();
+            expect(toolResponseOf(transport)).toMatchObject({
+                functionResponses: [{
+                    response: { status: 'Under Budget', user_decision: 'approved_with_edits', arguments_used: { actual_amount: 900 } }
+                }]
+            });
+        });
+
+        it('reports invalid arguments without asking for approval', async () => {
+            const { conversation, capture, transport, snapshot } = setup({
+                steps: [
+                    { type: 'awaitClient', event: 'input', minAudioChunks: 1 },
+                    { type: 'message', message: toolCall({ id: 'call-1', name: 'budget_tracker', args: { category: 'rent', budgeted_amount: 0, actual_amount: 5 } }) },
+                    { type: 'awaitClient', event: 'toolResponse' }
+                ]
+            }, { toolPolicies: { budget_tracker: 'confirm' } });
+            const onConfirmation = vi.fn();
+            conversation.subscribe(() => {
+                if (snapshot().pendingConfirmations.length > 0) onConfirmation();
+            });
+            await conversation.start();
+            capture.emit(1, SPEECH);
+            await transport.whenIdle();
+
+            expect(onConfirmation).not.toHaveBeenCalled();
+            expect(snapshot().toolValidationErrors).toEqual([{ toolName: 'budget_tracker', issues: [expect.objectContaining({ path: 'budgeted_amount' })] }]);
+            expect(toolResponseOf(transport)).toMatchObject({
+                functionResponses: [{ response: { error: 'Invalid arguments for budget_tracker' } }]
+            });
+        });
+
+        it('validates the arguments the user edited', async () => {
+            const { conversation, capture, transport } = setup(confirmScript, { toolPolicies: { budget_tracker: 'confirm' } });
+            await conversation.start();
+            capture.emit(1, SPEECH);
+
+            const pending = await untilPending(conversation);
+            conversation.approveToolCall(pending.id, { ...pending.args, budgeted_amount: 0 });
+            await transport.whenIdle();
+            expect(toolResponseOf(transport)).toMatchObject({
+                functionResponses: [{
+                    response: { error: 'Invalid arguments for budget_tracker', user_decision: 'approved_with_edits', arguments_used: { budgeted_amount: 0 } }
+                }]
+            });
+        });
+
+        it('tells the model when the user rejects the call', async () => {
+            const { conversation, capture, transport, snapshot } = setup(confirmScript, { toolPolicies: { budget_tracker: 'confirm' } });
+            await conversation.start();
+            capture.emit(1, SPEECH);
+
+            conversation.rejectToolCall((await untilPending(conversation)).id, 'Wrong category');
+            await transport.whenIdle();
+            expect(toolResponseOf(transport)).toMatchObject({
+                functionResponses: [{ response: { user_decision: 'rejected', reason: 'Wrong category' } }]
+            });
+            expect(snapshot().transcript.find(entry => entry.kind === 'tool_result')).toMatchObject({ error: 'The user rejected the call to budget_tracker' });
+        });
+
+        it('drops the card when the model cancels the call', async () => {
+            const { conversation, capture, transport, snapshot } = setup({
+                steps: [
+                    ...confirmScript.steps.slice(0, 2),
+                    { type: 'message', message: toolCallCancellation('call-1') }
+                ]
+            }, { toolPolicies: { budget_tracker: 'confirm' } });
+            await conversation.start();
+            capture.emit(1, SPEECH);
+            await transport.whenIdle();
+
+            expect(snapshot().pendingConfirmations).toEqual([]);
+            expect(snapshot().transcript.find(entry => entry.kind === 'tool_result')).toMatchObject({ error: 'The user rejected the call to budget_tracker' });
+        });
+
+        it('accepts a spoken yes', async () => {
+            const { conversation, capture, transport } = setup({
+                steps: [
+                    { type: 'awaitClient', event: 'input', minAudioChunks: 1 },
+                    { type: 'message', message: budgetCall },
+                    { type: 'awaitClient', event: 'input', minAudioChunks: 1, transcriptIfSpoken: 'Yes, go ahead.' },
+                    { type: 'awaitClient', event: 'toolResponse' }
+                ]
+            }, { toolPolicies: { budget_tracker: 'confirm' } });
+            await conversation.start();
+            capture.emit(1, SPEECH);
+            await untilPending(conversation);
+
+            capture.emit(1, SPEECH);
+            await transport.whenIdle();
+            expect(toolResponseOf(transport)).toMatchObject({ functionResponses: [{ response: { user_decision: 'approved' } }] });
+        });
+
+        it('waits for the end of the utterance before reading it as an answer', async () => {
+            const { conversation, capture, transport, snapshot } = setup({
+                steps: [
+                    { type: 'awaitClient', event: 'input', minAudioChunks: 1 },
+                    { type: 'message', message: budgetCall },
+                    { type: 'awaitClient', event: 'input', minAudioChunks: 1 },
+                    { type: 'message', message: inputTranscript('Yes') },
+                    { type: 'message', message: inputTranscript(' and also show me') },
+                    { type: 'message', message: inputTranscript(' the balance sheet for March.', true) },
+                    { type: 'awaitClient', event: 'input', minAudioChunks: 1 },
+                    { type: 'message', message: inputTranscript('No') },
+                    { type: 'message', message: inputTranscript(' problem, go ahead.', true) },
+                    { type: 'awaitClient', event: 'toolResponse' }
+                ]
+            }, { toolPolicies: { budget_tracker: 'confirm' } });
+            await conversation.start();
+            capture.emit(1, SPEECH);
+            await untilPending(conversation);
+
+            capture.emit(1, SPEECH);
+            await vi.waitFor(() => expect(snapshot().transcript).toContainEqual(
+                expect.objectContaining({ kind: 'user', text: 'Yes and also show me the balance sheet for March.' })
+            ));
+            expect(snapshot().pendingConfirmations).toHaveLength(1);
+            expect(toolResponseOf(transport)).toBeUndefined();
+
+            capture.emit(1, SPEECH);
+            await transport.whenIdle();
+            expect(toolResponseOf(transport)).toMatchObject({ functionResponses: [{ response: { user_decision: 'approved' } }] });
+        });
+
+        it('refuses tools the user has turned off without asking', async () => {
+            const { conversation, capture, transport, snapshot } = setup(confirmScript, { toolPolicies: { budget_tracker: 'deny' } });
+            await conversation.start();
+            capture.emit(1, SPEECH);
+            await transport.whenIdle();
+
+            expect(snapshot().pendingConfirmations).toEqual([]);
+            expect(toolResponseOf(transport)).toMatchObject({ functionResponses: [{ response: { user_decision: 'denied_by_policy' } }] });
+        });
+
+        it('rejects calls still waiting when the conversation ends', async () => {
+            const { conversation, capture, transport } = setup(confirmScript, { toolPolicies: { budget_tracker: 'confirm' } });
+            await conversation.start();
+            capture.emit(1, SPEECH);
+            await untilPending(conversation);
+
+            conversation.stop();
+            expect(conversation.getSnapshot().pendingConfirmations).toEqual([]);
+            await transport.whenIdle();
+            expect(toolResponseOf(transport)).toBeUndefined();
+        });
+
+        it('sends an answer given while reconnecting once the connection is back', async () => {
+            const { conversation, capture, transport, snapshot } = setup([
+                {
+                    steps: [
+                        { type: 'awaitClient', event: 'input', minAudioChunks: 1 },
+                        { type: 'message', message: budgetCall },
+                        { type: 'close', code: 1006 }
+                    ]
+                },
+                { steps: [{ type: 'awaitClient', event: 'toolResponse' }] }
+            ], { toolPolicies: { budget_tracker: 'confirm' } });
+            await conversation.start();
+            capture.emit(1, SPEECH);
+            const pending = await untilPending(conversation);
+            await untilState(conversation, AssistantState.RECONNECTING);
+
+            conversation.approveToolCall(pending.id);
+            await untilState(conversation, AssistantState.LISTENING);
+            await transport.whenIdle();
+            expect(transport.connections[1].clientEvents.find(event => event.type === 'toolResponse')).toMatchObject({
+                functionResponses: [{ id: 'call-1', response: { user_decision: 'approved' } }]
+            });
+            expect(snapshot().error).toBeNull();
+        });
+
+        it('ends the conversation with an error when the answer cannot be sent', async () => {
+            vi.spyOn(console, 'error').mockImplementation(() => {});
+            const { conversation, capture, snapshot } = setup(confirmScript, {
+                toolPolicies: { budget_tracker: 'confirm' },
+                sessionOverrides: {
+                    sendToolResponse: () => {
+                        throw new Error('Socket closed');
+                    }
+                }
+            });
+            await conversation.start();
+            capture.emit(1, SPEECH);
+            conversation.approveToolCall((await untilPending(conversation)).id);
+
+            await vi.waitFor(() => expect(snapshot()).toMatchObject({ assistantState: AssistantState.IDLE, error: 'A tool call could not be completed.' }));
+        });
+    });
+
+    it('sends text typed before the connection opens once it does', async () => {
+        const { conversation, transport, snapshot } = setup({
+            steps: [{ type: 'awaitClient', event: 'input' }, ...assistantReply('Net profit was up 12%.', 'text')]
+        }, { responseModality: 'text' });
+
+        conversation.sendText('  How did we do this quarter?  ');
+        expect(snapshot().assistantState).toBe(AssistantState.PROCESSING);
+        await vi.waitFor(() => expect(transport.connections).toHaveLength(1));
+        await transport.whenIdle();
+
+        expect(transport.connections[0].clientEvents).toEqual([{ type: 'text', text: 'How did we do this quarter?' }]);
+        expect(snapshot().assistantState).toBe(AssistantState.LISTENING);
+        expect(snapshot().transcript.map(entry => 'text' in entry ? [entry.kind, entry.source, entry.text] : entry.kind)).toEqual([
+            ['user', 'text', 'How did we do this quarter?'],
+            ['assistant', 'text', 'Net profit was up 12%.']
+        ]);
+    });
+
+    it('reconnects after a dropped connection and keeps listening', async () => {
+        const { conversation, states, snapshot } = setup([
+            { steps: [{ type: 'close', code: 1006 }] },
+            { steps: [{ type: 'awaitClient', event: 'input' }] }
+        ]);
+
+        await conversation.start();
+        await untilState(conversation, AssistantState.RECONNECTING);
+        expect(snapshot().statusMessage).toBe('Connection lost. Reconnecting (attempt 1)...');
+
+        await untilState(conversation, AssistantState.LISTENING);
+        expect(snapshot().statusMessage).toBe('Reconnected. Listening...');
+        expect(states).toEqual([AssistantState.PROCESSING, AssistantState.LISTENING, AssistantState.RECONNECTING, AssistantState.LISTENING]);
+    });
+
+    it('returns to idle with an error when the connection is refused', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const { conversation, playback, snapshot } = setup({ steps: [] }, { failConnections: [0] });
+
+        await conversation.start();
+        expect(snapshot()).toMatchObject({ assistantState: AssistantState.IDLE, error: 'Could not connect to the service.' });
+        expect(playback.closed).toBe(true);
+    });
+
+    it('returns to idle with an error when the speaker cannot start', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const { conversation, playback, transport, snapshot } = setup({ steps: [] });
+        playback.startError = new Error('Unable to load a worklet');
+
+        await conversation.start();
+        expect(snapshot()).toMatchObject({ assistantState: AssistantState.IDLE, error: 'Could not start audio playback.' });
+        expect(playback.closed).toBe(true);
+        expect(transport.connections).toEqual([]);
+    });
+
+    it('reports token usage and warns before the server closes the connection', async () => {
+        const { conversation, transport, snapshot } = setup({
+            steps: [
+                { type: 'message', message: usage(120, 30) },
+                { type: 'message', message: goAway('10s') }
+            ]
+        });
+
+        await conversation.start();
+        await transport.whenIdle();
+
+        expect(snapshot().usage).toEqual({ promptTokens: 120, responseTokens: 30, totalTokens: 150 });
+        expect(snapshot().statusMessage).toMatch(/resume automatically/);
+    });
+
+    it('releases the microphone, speaker and session when stopped', async () => {
+        const { conversation, capture, playback, transport, snapshot } = setup({ steps: [{ type: 'awaitClient', event: 'input' }] });
+
+        await conversation.start();
+        conversation.stop();
+
+        expect(snapshot().assistantState).toBe(AssistantState.IDLE);
+        expect(capture.stopped).toBe(true);
+        expect(playback.closed).toBe(true);
+        expect(transport.connections[0].clientEvents).toContainEqual({ type: 'close' });
+    });
+});
@@ -0,0 +1,692 @@
+import { AssistantState, TranscriptEntry } from "../types";
+import {
+    closeGeminiLiveSession,
+    GeminiLiveCallbacks,
+    GeminiLiveSessionOptions,
+    ResponseModality,
+    sendActivityEndToGemini,
+    sendActivityStartToGemini,
+    sendAudioStreamEndToGemini,
+    sendAudioToGemini,
+    sendTextToGemini,
+    startGeminiLiveSession,
+    ToolCallEvent,
+    ToolResultEvent
+} from "./geminiService";
+import { JsonSchema, ToolPolicy, ToolRegistry } from "./toolRegistry";
+import { ToolConfirmationDecision, parseConfirmationUtterance, resolveToolPolicy } from "./toolConfirmation";
+import { LiveTransport } from "./live/liveTransport";
+import { LiveUsage } from "./live/liveMessages";
+import { AssistantGeneration, createGeneration, heardSamples, heardText } from "./assistantGeneration";
+import { ToolValidationIssue } from "./toolValidation";
+import { AudioCaptureSource, MicrophoneCapture } from "./audio/audioCapture";
+import { AudioPlaybackSink, RingBufferPlayback } from "./audio/audioPlayback";
+import { decodePcm16Base64, downsample, encodePcm16Base64 } from "./audio/pcm";
+import { VadResult, VoiceActivityDetector, createVoiceActivityDetector } from "./audio/vad";
+import { DEFAULT_VOICE_ACTIVITY, VoiceActivitySettings, VoiceDetectionMode, toRealtimeInputConfig, toVadOptions } from "./voiceActivity";
+
+// Microphone chunks kept from just before client-side detection is sure the user is talking,
+// so the start of the first word reaches the server; about a quarter second of the capture worklet's 40 ms frames
+const PRE_ROLL_CHUNKS = 6;
+
+export interface ToolValidationErrorEvent {
+    toolName: string;
+    issues: ToolValidationIssue[];
+}
+
+export interface LiveConversationSnapshot {
+    assistantState: AssistantState;
+    // Identifies the current conversation for history; null while idle
+    conversationId: string | null;
+    startedAt: number | null;
+    // User and assistant turns, tool calls and tool results in the order they happened
+    transcript: TranscriptEntry[];
+    responseModality: ResponseModality;
+    // How turns are detected in this conversation, or in the next one while idle
+    detection: VoiceDetectionMode;
+    // The microphone is on but nothing is sent
+    isMuted: boolean;
+    // The push-to-talk key or button is held
+    isTalking: boolean;
+    // Status line shown above the transcript ("Connecting...", "Speaking...")
+    statusMessage: string;
+    error: string | null;
+    toolCalls: ToolCallEvent[];
+    toolValidationErrors: ToolValidationErrorEvent[];
+    isUsingTools: boolean;
+    // Latest successful result of each tool, shown as result cards
+    toolResults: ToolResultEvent[];
+    // Tool calls waiting for the user to approve, edit or reject them, oldest first
+    pendingConfirmations: PendingToolConfirmation[];
+    // Token usage as last reported by the server; null until the first report
+    usage: LiveUsage | null;
+    analyserNode: AnalyserNode | null;
+}
+
+export interface PendingToolConfirmation {
+    id: string;
+    toolName: string;
+    description: string;
+    args: Record<string, unknown>;
+    // Schema of the arguments, for editing them before approval
+    parameters: JsonSchema;
+}
+
+// The Live session operations the conversation depends on; swapped for fakes in tests
+export interface LiveSessionApi {
+    start: (callbacks: GeminiLiveCallbacks, options?: GeminiLiveSessionOptions) => Promise<void>;
+    close: () => void;
+    sendAudio: (audioData: string) => void;
+    sendText: (text: string) => void;
+    // Turn boundaries for sessions without automatic activity detection
+    sendActivityStart: () => void;
+    sendActivityEnd: () => void;
+    sendAudioStreamEnd: () => void;
+}
+
+export interface LiveConversationOptions {
+    createCapture?: () => AudioCaptureSource;
+    createPlayback?: () => AudioPlaybackSink;
+    liveSession?: LiveSessionApi;
+    // Server connection used by the default Live session, e.g. a scripted transport in tests
+    transport?: LiveTransport;
+    tools?: ToolRegistry;
+    // Per-tool overrides of the tools' default policies
+    toolPolicies?: Record<string, ToolPolicy>;
+    responseModality?: ResponseModality;
+    voiceActivity?: VoiceActivitySettings;
+}
+
+// Omit that keeps a union discriminated
+type DistributiveOmit<T, K extends keyof any> = T extends unknown ? Omit<T, K> : never;
+
+const geminiLiveSession: LiveSessionApi = {
+    start: startGeminiLiveSession,
+    close: closeGeminiLiveSession,
+    sendAudio: sendAudioToGemini,
+    sendText: sendTextToGemini,
+    sendActivityStart: sendActivityStartToGemini,
+    sendActivityEnd: sendActivityEndToGemini,
+    sendAudioStreamEnd: sendAudioStreamEndToGemini
+};
+
+const initialSnapshot: LiveConversationSnapshot = {
+    assistantState: AssistantState.IDLE,
+    conversationId: null,
+    startedAt: null,
+    transcript: [],
+    responseModality: 'audio',
+    detection: 'server',
+    isMuted: false,
+    isTalking: false,
+    statusMessage: '',
+    error: null,
+    toolCalls: [],
+    toolValidationErrors: [],
+    isUsingTools: false,
+    toolResults: [],
+    pendingConfirmations: [],
+    usage: null,
+    analyserNode: null
+};
+
+// Owns microphone capture, speaker playback and the Live session for one voice conversation.
+// Framework-agnostic: UI layers read `getSnapshot()` and re-render on `subscribe` notifications.
+export class LiveConversation {
+    private snapshot: LiveConversationSnapshot = initialSnapshot;
+    private listeners = new Set<() => void>();
+    private capture: AudioCaptureSource | null = null;
+    private playback: AudioPlaybackSink | null = null;
+    private readonly createCapture: () => AudioCaptureSource;
+    private readonly createPlayback: () => AudioPlaybackSink;
+    private readonly liveSession: LiveSessionApi;
+    private readonly tools?: ToolRegistry;
+    private readonly transport?: LiveTransport;
+    private toolPolicies: Record<string, ToolPolicy>;
+    // Settles the promise the Live session is awaiting for each pending confirmation
+    private confirmationResolvers = new Map<string, (decision: ToolConfirmationDecision) => void>();
+    private responseModality: ResponseModality;
+    private nextEntryId = 1;
+    // Transcript entries still receiving incremental text, if any
+    private streamingUserEntryId: number | null = null;
+    private streamingAssistantEntryId: number | null = null;
+    // Text typed before the session finished connecting
+    private pendingText: string[] = [];
+    // The answer being received or played, if any
+    private generation: AssistantGeneration | null = null;
+    private nextGenerationId = 1;
+    // Where the audio queued so far ends, on the playback sink's playedSamples scale
+    private playbackQueueEnd = 0;
+    private voiceActivity: VoiceActivitySettings;
+    private readonly vad: VoiceActivityDetector;
+    // Detection mode of the current conversation, fixed when it connects
+    private detection: VoiceDetectionMode = 'server';
+    // Without server-side detection: whether an activityStart has been sent without its activityEnd,
+    // and the audio held back while the user is silent
+    private isUserTurnOpen = false;
+    private preRoll: string[] = [];
+
+    constructor(options: LiveConversationOptions = {}) {
+        this.createCapture = options.createCapture ?? (() => new MicrophoneCapture());
+        this.createPlayback = options.createPlayback ?? (() => new RingBufferPlayback());
+        this.liveSession = options.liveSession ?? geminiLiveSession;
+        this.tools = options.tools;
+        this.transport = options.transport;
+        this.toolPolicies = options.toolPolicies ?? {};
+        this.responseModality = options.responseModality ?? 'audio';
+        this.voiceActivity = options.voiceActivity ?? DEFAULT_VOICE_ACTIVITY;
+        this.vad = createVoiceActivityDetector(toVadOptions(this.voiceActivity));
+        this.snapshot = this.idleSnapshot();
+    }
+
+    getSnapshot = (): LiveConversationSnapshot => this.snapshot;
+
+    subscribe = (listener: () => void): (() => void) => {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    };
+
+    get isActive() {
+        return this.snapshot.assistantState !== AssistantState.IDLE;
+    }
+
+    start = async () => {
+        if (this.isActive) return;
+
+        this.update({
+            ...this.idleSnapshot(),
+            assistantState: AssistantState.PROCESSING,
+            statusMessage: 'Connecting...',
+            conversationId: crypto.randomUUID(),
+            startedAt: Date.now()
+        });
+        this.endStreamingEntries();
+        this.vad.reset();
+        this.detection = this.voiceActivity.detection;
+
+        const playback = this.createPlayback();
+        playback.onDrained = this.handlePlaybackDrained;
+        this.playback = playback;
+        try {
+            // Creates the AudioContext and loads the playback worklet, either of which the browser may refuse
+            await playback.start();
+        } catch (e) {
+            console.error("Could not start audio playback:", e);
+            this.fail("Could not start audio playback.");
+            return;
+        }
+        // Stopped while the speaker was starting
+        if (this.playback !== playback) return;
+
+        try {
+            await this.liveSession.start(this.createSessionCallbacks(), {
+                tools: this.tools,
+                responseModality: this.responseModality,
+                transport: this.transport,
+                toolPolicy: tool => resolveToolPolicy(tool, this.toolPolicies),
+                realtimeInputConfig: toRealtimeInputConfig(this.voiceActivity)
+            });
+        } catch (e) {
+            console.error("Could not connect to the service:", e);
+            this.fail("Could not connect to the service.");
+        }
+    };
+
+    // Stop everything and clean up
+    stop = () => {
+        this.teardown();
+        this.update(this.idleSnapshot());
+    };
+
+    // Sends a typed question, starting the conversation first if needed
+    sendText = (text: string) => {
+        const trimmed = text.trim();
+        if (!trimmed) return;
+
+        const isConnected = this.isActive && this.snapshot.assistantState !== AssistantState.PROCESSING;
+        if (!this.isActive) {
+            // start() resets the snapshot synchronously, so it must run before the turn is recorded
+            this.start();
+        }
+
+        this.endStreamingEntries();
+        this.appendEntry({ kind: 'user', text: trimmed, source: 'text' });
+
+        if (isConnected) {
+            this.update({ statusMessage: 'Thinking...' });
+            this.liveSession.sendText(trimmed);
+        } else {
+            this.pendingText.push(trimmed);
+        }
+    };
+
+    // Takes effect from the next conversation; the Live API fixes the modality per session
+    setResponseModality = (modality: ResponseModality) => {
+        this.responseModality = modality;
+        if (!this.isActive) {
+            this.update({ responseModality: modality });
+        }
+    };
+
+    // Cut the assistant off mid-answer and go back to listening
+    interrupt = () => {
+        if (this.snapshot.assistantState !== AssistantState.SPEAKING) return;
+        this.interruptGeneration();
+        this.update({ assistantState: AssistantState.LISTENING, statusMessage: 'Listening...' });
+    };
+
+    // Detector thresholds apply at once; the detection mode and server settings from the next conversation
+    setVoiceActivity = (settings: VoiceActivitySettings) => {
+        this.voiceActivity = settings;
+        this.vad.setOptions(toVadOptions(settings));
+        if (!this.isActive) {
+            this.update({ detection: settings.detection });
+        }
+    };
+
+    // Keeps the session open but stops sending microphone audio, ending any turn in progress
+    setMuted = (muted: boolean) => {
+        if (!this.isActive || muted === this.snapshot.isMuted) return;
+        if (muted) {
+            if (this.isUserTurnOpen) {
+                this.isUserTurnOpen = false;
+                this.liveSession.sendActivityEnd();
+            } else if (this.detection === 'server') {
+                this.liveSession.sendAudioStreamEnd();
+            }
+            this.preRoll = [];
+        }
+        this.vad.reset();
+        this.update({ isMuted: muted, isTalking: false });
+    };
+
+    toggleMute = () => {
+        this.setMuted(!this.snapshot.isMuted);
+    };
+
+    // Push-to-talk: the key or button went down. Talking over the answer cuts it off.
+    startTalking = () => {
+        if (this.detection !== 'pushToTalk' || this.snapshot.isMuted || this.snapshot.isTalking) return;
+        if (!this.isActive || this.snapshot.assistantState === AssistantState.PROCESSING) return;
+        this.interrupt();
+        this.isUserTurnOpen = true;
+        this.liveSession.sendActivityStart();
+        this.update({ isTalking: true });
+    };
+
+    stopTalking = () => {
+        if (!this.snapshot.isTalking) return;
+        this.isUserTurnOpen = false;
+        this.liveSession.sendActivityEnd();
+        this.update({ isTalking: false });
+    };
+
+    // Applies to tool calls from now on, including in the current conversation
+    setToolPolicies = (policies: Record<string, ToolPolicy>) => {
+        this.toolPolicies = policies;
+    };
+
+    // Runs a pending tool call, with the user's edits to its arguments if any
+    approveToolCall = (id: string, args?: Record<string, unknown>) => {
+        this.resolveConfirmation(id, { approved: true, args });
+    };
+
+    rejectToolCall = (id: string, reason?: string) => {
+        this.resolveConfirmation(id, { approved: false, reason });
+    };
+
+    dismissToolResult = (callId: string) => {
+        this.update({ toolResults: this.snapshot.toolResults.filter(result => result.callId !== callId) });
+    };
+
+    private update(partial: Partial<LiveConversationSnapshot>) {
+        this.snapshot = { ...this.snapshot, ...partial };
+        this.listeners.forEach(listener => listener());
+    }
+
+    private idleSnapshot(): LiveConversationSnapshot {
+        return { ...initialSnapshot, responseModality: this.responseModality, detection: this.voiceActivity.detection };
+    }
+
+    private appendEntry(entry: DistributiveOmit<TranscriptEntry, 'id' | 'timestamp'>): number {
+        const id = this.nextEntryId++;
+        this.update({ transcript: [...this.snapshot.transcript, { ...entry, id, timestamp: Date.now() } as TranscriptEntry] });
+        return id;
+    }
+
+    // Appends incremental text to the turn being streamed, or starts a new turn; returns the entry's id
+    private appendStreamingText(kind: 'user' | 'assistant', source: 'voice' | 'text', text: string): number {
+        const streamingId = kind === 'user' ? this.streamingUserEntryId : this.streamingAssistantEntryId;
+        const { transcript } = this.snapshot;
+        const streaming = transcript.find(entry => entry.id === streamingId);
+        if (streaming && streaming.kind === kind) {
+            this.update({
+                transcript: transcript.map(entry => entry === streaming ? { ...streaming, text: streaming.text + text } : entry)
+            });
+            return streaming.id;
+        }
+        const id = this.appendEntry({ kind, text: text.trimStart(), source });
+        if (kind === 'user') {
+            this.streamingUserEntryId = id;
+        } else {
+            this.streamingAssistantEntryId = id;
+        }
+        return id;
+    }
+
+    // The answer new model output belongs to; output after a finished turn starts a new answer
+    private currentGeneration(): AssistantGeneration {
+        if (!this.generation || this.generation.complete) {
+            this.generation = createGeneration(this.nextGenerationId++);
+        }
+        return this.generation;
+    }
+
+    // Stops the current answer where the user stopped hearing it. Its transcript entry keeps what was
+    // heard, and chunks of it still on their way from the server are dropped when they arrive.
+    private interruptGeneration() {
+        const playedSamples = this.playback?.playedSamples ?? 0;
+        this.playback?.flush();
+        this.playbackQueueEnd = playedSamples;
+        this.streamingAssistantEntryId = null;
+
+        const generation = this.generation;
+        if (!generation || generation.interrupted) return;
+        generation.interrupted = true;
+        const heard = heardSamples(generation, playedSamples);
+        if (generation.entryId === null || heard >= generation.queuedSamples) return;
+        const text = heardText(generation, heard);
+        this.update({
+            transcript: this.snapshot.transcript.map(entry =>
+                entry.id === generation.entryId && entry.kind === 'assistant' ? { ...entry, heardText: text } : entry
+            )
+        });
+    }
+
+    private endStreamingEntries() {
+        this.endUserEntry();
+        this.streamingAssistantEntryId = null;
+    }
+
+    // The user's turn is over, so its whole text can be read as an answer to a pending confirmation
+    private endUserEntry() {
+        this.answerConfirmationByVoice();
+        this.streamingUserEntryId = null;
+    }
+
+    private resolveConfirmation(id: string, decision: ToolConfirmationDecision) {
+        const resolve = this.confirmationResolvers.get(id);
+        if (!resolve) return;
+        this.confirmationResolvers.delete(id);
+        const pendingConfirmations = this.snapshot.pendingConfirmations.filter(pending => pending.id !== id);
+        this.update({
+            pendingConfirmations,
+            statusMessage: pendingConfirmations.length > 0 ? 'Waiting for your approval...' : decision.approved ? 'Using financial tools...' : ''
+        });
+        resolve(decision);
+    }
+
+    private teardown() {
+        this.pendingText = [];
+        this.isUserTurnOpen = false;
+        this.preRoll = [];
+        this.generation = null;
+        this.playbackQueueEnd = 0;
+        this.confirmationResolvers.forEach(resolve => resolve({ approved: false, reason: 'The conversation ended' }));
+        this.confirmationResolvers.clear();
+        this.capture?.stop();
+        this.capture = null;
+        this.playback?.close();
+        this.playback = null;
+        this.liveSession.close();
+    }
+
+    // Ends the conversation but keeps the error visible
+    private fail(error: string) {
+        this.teardown();
+        this.update({ ...this.idleSnapshot(), error });
+    }
+
+    private createSessionCallbacks(): GeminiLiveCallbacks {
+        return {
+            onOpen: () => {
+                this.update({ statusMessage: 'Connected. Listening...', assistantState: AssistantState.LISTENING });
+                this.startCapture();
+                const queued = this.pendingText;
+                this.pendingText = [];
+                if (queued.length > 0) {
+                    this.update({ statusMessage: 'Thinking...' });
+                    queued.forEach(text => this.liveSession.sendText(text));
+                }
+            },
+            onError: (e) => {
+                this.fail(e instanceof Error ? "A tool call could not be completed." : "A connection error occurred.");
+            },
+            onReconnecting: (attempt) => {
+                // Drop any half-played answer; the resumed session picks up from the server's context
+                this.interruptGeneration();
+                if (this.generation) {
+                    this.generation.complete = true;
+                }
+                this.update({
+                    assistantState: AssistantState.RECONNECTING,
+                    statusMessage: `Connection lost. Reconnecting (attempt ${attempt})...`
+                });
+            },
+            onReconnected: () => {
+                this.update({ assistantState: AssistantState.LISTENING, statusMessage: 'Reconnected. Listening...' });
+            },
+            onTranscript: (text, isFinal) => {
+                // The user speaking ends whatever the assistant was saying
+                this.streamingAssistantEntryId = null;
+                // When user is speaking, clear any status message from Gemini
+                if (text.trim()) {
+                    this.update({ statusMessage: '' });
+                }
+                this.appendStreamingText('user', 'voice', text);
+                if (isFinal) {
+                    this.endUserEntry();
+                }
+            },
+            onOutputTranscript: (text, isFinal) => {
+                const generation = this.currentGeneration();
+                if (generation.interrupted) return;
+                this.endUserEntry();
+                const entryId = this.appendStreamingText('assistant', 'voice', text);
+                // The answer continues in a new entry, e.g. after a tool call; heard text is per entry
+                if (entryId !== generation.entryId) {
+                    generation.entryId = entryId;
+                    generation.fragments = [];
+                }
+                generation.fragments.push({ text, audioOffset: generation.queuedSamples });
+                if (isFinal) {
+                    this.streamingAssistantEntryId = null;
+                }
+            },
+            onText: (text) => {
+                const generation = this.currentGeneration();
+                if (generation.interrupted) return;
+                this.endUserEntry();
+                if (this.snapshot.statusMessage === 'Thinking...') {
+                    this.update({ statusMessage: '' });
+                }
+                generation.entryId = this.appendStreamingText('assistant', 'text', text);
+            },
+            onTurnComplete: () => {
+                if (this.generation) {
+                    this.generation.complete = true;
+                }
+                this.endStreamingEntries();
+            },
+            onInterrupted: () => {
+                // The server heard the user over the answer, possibly before local barge-in did
+                this.interruptGeneration();
+                // It sends nothing more of that answer, so the next chunk starts a new one even
+                // without a turnComplete in between. Local barge-in waits for the turn to end instead.
+                if (this.generation) {
+                    this.generation.complete = true;
+                }
+                if (this.snapshot.assistantState === AssistantState.SPEAKING) {
+                    this.update({ assistantState: AssistantState.LISTENING, statusMessage: 'Listening...' });
+                }
+            },
+            onAudio: (audioData) => {
+                const generation = this.currentGeneration();
+                // A chunk of an answer that was already cut off
+                if (generation.interrupted) return;
+                // First audio chunk for a new response
+                if (this.snapshot.assistantState === AssistantState.LISTENING) {
+                    this.update({ assistantState: AssistantState.SPEAKING, statusMessage: 'Speaking...' });
+                }
+                this.playAudioChunk(generation, audioData);
+            },
+            onToolCall: (call) => {
+                this.endStreamingEntries();
+                this.appendEntry({ kind: 'tool_call', callId: call.callId, name: call.name, args: call.args });
+                this.update({
+                    isUsingTools: true,
+                    toolCalls: [...this.snapshot.toolCalls, call],
+                    statusMessage: 'Using financial tools...'
+                });
+            },
+            onToolResult: (event) => {
+                const { callId, name, result, error, durationMs } = event;
+                this.appendEntry({ kind: 'tool_result', callId, name, result, error, durationMs });
+                const update: Partial<LiveConversationSnapshot> = { isUsingTools: false };
+                if (!error) {
+                    update.toolResults = [...this.snapshot.toolResults.filter(existing => existing.name !== name), event];
+                }
+                this.update(update);
+            },
+            onToolConfirmationRequest: (request) => new Promise(resolve => {
+                const id = request.callId;
+                this.confirmationResolvers.set(id, resolve);
+                const pending: PendingToolConfirmation = {
+                    id,
+                    toolName: request.toolName,
+                    description: request.tool.description,
+                    args: request.args,
+                    parameters: request.tool.parameters
+                };
+                this.update({
+                    pendingConfirmations: [...this.snapshot.pendingConfirmations, pending],
+                    statusMessage: 'Waiting for your approval...'
+                });
+            }),
+            onToolCallCancellation: (callIds) => {
+                // The model no longer wants these calls, so there is nothing left to approve
+                callIds.forEach(id => this.rejectToolCall(id, 'The model cancelled the call'));
+            },
+            onUsage: (usage) => {
+                this.update({ usage });
+            },
+            onGoAway: () => {
+                this.update({ statusMessage: 'The server is about to close the connection. The conversation will resume automatically.' });
+            },
+            onToolValidationError: (toolName, issues) => {
+                this.update({
+                    toolValidationErrors: [...this.snapshot.toolValidationErrors, { toolName, issues }],
+                    isUsingTools: false
+                });
+            }
+        };
+    }
+
+    // A short "yes" or "no" while a call is waiting answers the oldest confirmation. Only finished
+    // turns count: "Yes and also show me the balance sheet" starts with a fragment that reads "Yes".
+    private answerConfirmationByVoice() {
+        const [pending] = this.snapshot.pendingConfirmations;
+        const entry = this.snapshot.transcript.find(candidate => candidate.id === this.streamingUserEntryId);
+        if (!pending || !entry || entry.kind !== 'user' || entry.source !== 'voice') return;
+        const answer = parseConfirmationUtterance(entry.text);
+        if (answer === 'approve') {
+            this.approveToolCall(pending.id);
+        } else if (answer === 'reject') {
+            this.rejectToolCall(pending.id, 'The user said no');
+        }
+    }
+
+    private async startCapture() {
+        const capture = this.createCapture();
+        this.capture = capture;
+        try {
+            await capture.start(this.handleCapturedFrame);
+            this.update({ analyserNode: capture.analyserNode });
+        } catch (err) {
+            console.error("Error starting audio recording:", err);
+            this.fail("Microphone access is required. Please grant permission and refresh.");
+        }
+    }
+
+    // Recording Logic: downsamples raw microphone audio and sends it to Gemini
+    private handleCapturedFrame = (samples: Float32Array, sampleRate: number) => {
+        if (this.snapshot.isMuted) return;
+        const downsampled = downsample(samples, sampleRate);
+        if (this.detection === 'pushToTalk') {
+            if (this.snapshot.isTalking) {
+                this.liveSession.sendAudio(encodePcm16Base64(downsampled));
+            }
+            return;
+        }
+        const voice = this.vad.process(downsampled);
+
+        // If user speaks while assistant is speaking, trigger interrupt
+        if (this.snapshot.assistantState === AssistantState.SPEAKING && voice.isSpeech && voice.isVoiced) {
+            console.debug(`Barge-in detected (level ${voice.level.toFixed(4)}, noise floor ${voice.noiseFloor.toFixed(4)}).`);
+            this.interrupt();
+        }
+
+        const chunk = encodePcm16Base64(downsampled);
+        if (this.detection === 'server') {
+            this.liveSession.sendAudio(chunk);
+        } else {
+            this.sendClientDetectedAudio(chunk, voice);
+        }
+    };
+
+    // With client-side detection only speech is sent, framed by activity start and end signals
+    private sendClientDetectedAudio(chunk: string, voice: VadResult) {
+        if (!this.isUserTurnOpen && voice.speechStarted) {
+            this.isUserTurnOpen = true;
+            this.liveSession.sendActivityStart();
+            this.preRoll.forEach(held => this.liveSession.sendAudio(held));
+            this.preRoll = [];
+        }
+        if (!this.isUserTurnOpen) {
+            this.preRoll.push(chunk);
+            if (this.preRoll.length > PRE_ROLL_CHUNKS) {
+                this.preRoll.shift();
+            }
+            return;
+        }
+        this.liveSession.sendAudio(chunk);
+        if (!voice.isSpeech) {
+            this.isUserTurnOpen = false;
+            this.liveSession.sendActivityEnd();
+        }
+    }
+
+    private playAudioChunk(generation: AssistantGeneration, base64Chunk: string) {
+        // Do not queue audio if we are not in a speaking state (e.g., while reconnecting)
+        if (this.snapshot.assistantState !== AssistantState.SPEAKING || !this.playback) return;
+        try {
+            const samples = decodePcm16Base64(base64Chunk);
+            const queueEnd = Math.max(this.playbackQueueEnd, this.playback.playedSamples);
+            generation.playbackStart ??= queueEnd;
+            generation.queuedSamples += samples.length;
+            this.playbackQueueEnd = queueEnd + samples.length;
+            this.playback.enqueue(samples);
+        } catch (e) {
+            console.error("Error processing audio chunk for playback:", e);
+        }
+    }
+
+    // After Gemini finishes speaking, go back to listening
+    private handlePlaybackDrained = () => {
+        if (this.snapshot.assistantState === AssistantState.SPEAKING) {
+            this.update({ assistantState: AssistantState.LISTENING, statusMessage: 'Listening...' });
+        }
+    };
+}
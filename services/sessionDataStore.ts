@@ -0,0 +1,43 @@
+// Results of the tools run during one Live session, so later tools can build on data the
+// user already fetched (e.g. a report generated from the ledger pulled a few turns earlier)
+
+export interface SessionToolRecord {
+    toolName: string;
+    args: unknown;
+    result: unknown;
+    recordedAt: number;
+}
+
+export interface SessionDataReader {
+    // Newest first
+    list: (toolName?: string) => SessionToolRecord[];
+    latest: (toolName: string) => SessionToolRecord | undefined;
+}
+
+export interface SessionDataStore extends SessionDataReader {
+    record: (toolName: string, args: unknown, result: unknown) => void;
+    clear: () => void;
+}
+
+// Older results are dropped beyond this, keeping memory bounded in long sessions
+const MAX_RECORDS = 50;
+
+export const createSessionDataStore = (): SessionDataStore => {
+    let records: SessionToolRecord[] = [];
+
+    const list = (toolName?: string) => {
+        const matching = toolName ? records.filter(record => record.toolName === toolName) : records;
+        return [...matching].reverse();
+    };
+
+    return {
+        record: (toolName, args, result) => {
+            records = [...records, { toolName, args, result, recordedAt: Date.now() }].slice(-MAX_RECORDS);
+        },
+        clear: () => {
+            records = [];
+        },
+        list,
+        latest: (toolName) => list(toolName)[0]
+    };
+};
@@ -0,0 +1,65 @@
+import { ToolPolicy } from "./toolRegistry";
+import { DEFAULT_VOICE_ACTIVITY, DurationRange, VOICE_DURATION_RANGES, VoiceActivitySettings, VoiceDetectionMode, VoiceSensitivity } from "./voiceActivity";
+
+// User preferences kept in localStorage, so they survive reloads and apply to every conversation
+
+export interface AppSettings {
+    // Per-tool overrides of the tools' default policies
+    toolPolicies: Record<string, ToolPolicy>;
+    voiceActivity: VoiceActivitySettings;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+    toolPolicies: {},
+    voiceActivity: DEFAULT_VOICE_ACTIVITY
+};
+
+const SETTINGS_KEY = 'fm-accounting-assistant.settings';
+const TOOL_POLICIES: ToolPolicy[] = ['auto', 'confirm', 'deny'];
+const DETECTION_MODES: VoiceDetectionMode[] = ['server', 'client', 'pushToTalk'];
+const SENSITIVITIES: VoiceSensitivity[] = ['low', 'medium', 'high'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const oneOf = <T extends string>(value: unknown, allowed: T[], fallback: T): T =>
+    allowed.includes(value as T) ? value as T : fallback;
+
+const durationMs = (value: unknown, range: DurationRange, fallback: number): number =>
+    typeof value === 'number' && value >= range.min && value <= range.max ? Math.round(value) : fallback;
+
+const sanitizeVoiceActivity = (stored: unknown): VoiceActivitySettings => {
+    if (!isRecord(stored)) return DEFAULT_VOICE_ACTIVITY;
+    return {
+        detection: oneOf(stored.detection, DETECTION_MODES, DEFAULT_VOICE_ACTIVITY.detection),
+        sensitivity: oneOf(stored.sensitivity, SENSITIVITIES, DEFAULT_VOICE_ACTIVITY.sensitivity),
+        minSpeechMs: durationMs(stored.minSpeechMs, VOICE_DURATION_RANGES.minSpeechMs, DEFAULT_VOICE_ACTIVITY.minSpeechMs),
+        silenceDurationMs: durationMs(stored.silenceDurationMs, VOICE_DURATION_RANGES.silenceDurationMs, DEFAULT_VOICE_ACTIVITY.silenceDurationMs)
+    };
+};
+
+// Drops anything a previous version or a hand edit left behind that this version cannot use
+const sanitizeSettings = (stored: unknown): AppSettings => {
+    if (!isRecord(stored)) return DEFAULT_SETTINGS;
+    const toolPolicies = isRecord(stored.toolPolicies)
+        ? Object.fromEntries(Object.entries(stored.toolPolicies).filter((entry): entry is [string, ToolPolicy] => TOOL_POLICIES.includes(entry[1] as ToolPolicy)))
+        : {};
+    return { ...DEFAULT_SETTINGS, toolPolicies, voiceActivity: sanitizeVoiceActivity(stored.voiceActivity) };
+};
+
+export const loadSettings = (): AppSettings => {
+    try {
+        const stored = localStorage.getItem(SETTINGS_KEY);
+        return stored ? sanitizeSettings(JSON.parse(stored)) : DEFAULT_SETTINGS;
+    } catch (e) {
+        console.error("Could not load settings:", e);
+        return DEFAULT_SETTINGS;
+    }
+};
+
+export const saveSettings = (settings: AppSettings) => {
+    try {
+        localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    } catch (e) {
+        console.error("Could not save settings:", e);
+    }
+};
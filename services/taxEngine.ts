@@ -0,0 +1,94 @@
+import type { TaxTable } from "./taxTables";
+
+export interface TaxCredit {
+    type?: string;
+    amount: number;
+    // Refundable credits can take the liability below zero
+    refundable?: boolean;
+}
+
+export interface BracketBreakdown {
+    rate: number;
+    from: number;
+    to: number | null;
+    taxable_amount: number;
+    tax: number;
+}
+
+export interface TaxComputation {
+    gross_income: number;
+    standard_deduction: number;
+    itemized_deductions: number;
+    deduction_method: 'standard' | 'itemized';
+    deduction_applied: number;
+    taxable_income: number;
+    brackets: BracketBreakdown[];
+    marginal_rate: number;
+    tax_before_credits: number;
+    nonrefundable_credits_applied: number;
+    refundable_credits_applied: number;
+    tax_after_credits: number;
+    effective_rate: number;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+// Progressive bracket computation for a single filing status in a tax table
+export const computeProgressiveTax = (
+    table: TaxTable,
+    filingStatus: string,
+    income: number,
+    itemizedDeductions: number,
+    credits: TaxCredit[] = []
+): TaxComputation => {
+    const statusTable = table.filing_statuses[filingStatus];
+    if (!statusTable) {
+        throw new Error(`No ${filingStatus} bracket table for ${table.jurisdiction} ${table.tax_year}`);
+    }
+
+    const { standard_deduction } = statusTable;
+    const deductionMethod = itemizedDeductions > standard_deduction ? 'itemized' : 'standard';
+    const deductionApplied = Math.max(itemizedDeductions, standard_deduction);
+    const taxableIncome = Math.max(0, income - deductionApplied);
+
+    const brackets: BracketBreakdown[] = [];
+    let lowerBound = 0;
+    let marginalRate = statusTable.brackets[0].rate;
+    for (const bracket of statusTable.brackets) {
+        if (taxableIncome <= lowerBound) break;
+        const upperBound = bracket.up_to ?? Infinity;
+        const amountInBracket = Math.min(taxableIncome, upperBound) - lowerBound;
+        brackets.push({
+            rate: bracket.rate,
+            from: lowerBound,
+            to: bracket.up_to,
+            taxable_amount: roundCents(amountInBracket),
+            tax: roundCents(amountInBracket * bracket.rate)
+        });
+        marginalRate = bracket.rate;
+        lowerBound = upperBound;
+    }
+
+    const taxBeforeCredits = roundCents(brackets.reduce((sum, b) => sum + b.tax, 0));
+    const nonrefundable = credits.filter(c => !c.refundable).reduce((sum, c) => sum + c.amount, 0);
+    const refundable = credits.filter(c => c.refundable).reduce((sum, c) => sum + c.amount, 0);
+    // Non-refundable credits can only reduce the liability to zero
+    const nonrefundableApplied = Math.min(nonrefundable, taxBeforeCredits);
+    const taxAfterCredits = roundCents(taxBeforeCredits - nonrefundableApplied - refundable);
+
+    return {
+        gross_income: income,
+        standard_deduction,
+        itemized_deductions: itemizedDeductions,
+        deduction_method: deductionMethod,
+        deduction_applied: deductionApplied,
+        taxable_income: taxableIncome,
+        brackets,
+        marginal_rate: marginalRate,
+        tax_before_credits: taxBeforeCredits,
+        nonrefundable_credits_applied: roundCents(nonrefundableApplied),
+        refundable_credits_applied: roundCents(refundable),
+        tax_after_credits: taxAfterCredits,
+        effective_rate: income > 0 ? taxAfterCredits / income : 0
+    };
+};
@@ -0,0 +1,96 @@
+// Versioned income tax tables, one JSON file per jurisdiction and tax year under data/tax.
+// Dropping a new file into that directory makes it available without touching the calculator.
+
+export interface TaxBracket {
+    rate: number;
+    // Upper bound of the bracket in taxable income; null for the top bracket
+    up_to: number | null;
+}
+
+export interface FilingStatusTable {
+    standard_deduction: number;
+    brackets: TaxBracket[];
+}
+
+export interface TaxTable {
+    jurisdiction: string;
+    name?: string;
+    tax_year: string;
+    // Higher versions supersede earlier ones for the same jurisdiction and year
+    version: number;
+    currency: string;
+    source?: string;
+    filing_statuses: Record<string, FilingStatusTable>;
+}
+
+export const DEFAULT_JURISDICTION = 'US-federal';
+
+const tableKey = (jurisdiction: string, taxYear: string) => `${jurisdiction.toLowerCase()}:${taxYear}`;
+
+const tables = new Map<string, TaxTable>();
+
+const assertValidTable = (table: TaxTable, origin: string) => {
+    const fail = (reason: string) => {
+        throw new Error(`Invalid tax table ${origin}: ${reason}`);
+    };
+    if (!table.jurisdiction || !table.tax_year) fail('jurisdiction and tax_year are required');
+    if (typeof table.version !== 'number') fail('version must be a number');
+    const statuses = Object.entries(table.filing_statuses ?? {});
+    if (statuses.length === 0) fail('at least one filing status is required');
+
+    for (const [status, { standard_deduction, brackets }] of statuses) {
+        if (typeof standard_deduction !== 'number' || standard_deduction < 0) fail(`${status}: standard_deduction must be a non-negative number`);
+        if (!Array.isArray(brackets) || brackets.length === 0) fail(`${status}: brackets are required`);
+        let previousBound = 0;
+        brackets.forEach((bracket, index) => {
+            const isLast = index === brackets.length - 1;
+            if (typeof bracket.rate !== 'number' || bracket.rate < 0 || bracket.rate > 1) fail(`${status}: bracket ${index} rate must be between 0 and 1`);
+            if (isLast && bracket.up_to !== null) fail(`${status}: the top bracket must have up_to = null`);
+            if (!isLast && (typeof bracket.up_to !== 'number' || bracket.up_to <= previousBound)) fail(`${status}: bracket ${index} up_to must increase`);
+            previousBound = bracket.up_to ?? previousBound;
+        });
+    }
+};
+
+export const registerTaxTable = (table: TaxTable, origin = `${table.jurisdiction} ${table.tax_year}`) => {
+    assertValidTable(table, origin);
+    const key = tableKey(table.jurisdiction, table.tax_year);
+    const existing = tables.get(key);
+    if (!existing || existing.version <= table.version) {
+        tables.set(key, table);
+    }
+};
+
+// Fetches a table published as a static file, e.g. one uploaded by the accounting team
+export const loadTaxTable = async (url: string): Promise<TaxTable> => {
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(`Failed to load tax table from ${url}: HTTP ${response.status}`);
+    }
+    const table = await response.json() as TaxTable;
+    registerTaxTable(table, url);
+    return table;
+};
+
+export const getTaxTable = (jurisdiction: string, taxYear: string): TaxTable | undefined =>
+    tables.get(tableKey(jurisdiction, taxYear));
+
+export const listTaxYears = (jurisdiction: string): string[] =>
+    Array.from(tables.values())
+        .filter(table => table.jurisdiction.toLowerCase() === jurisdiction.toLowerCase())
+        .map(table => table.tax_year)
+        .sort();
+
+// Filing status keys across the loaded tables, optionally for one jurisdiction
+export const listFilingStatuses = (jurisdiction?: string): string[] =>
+    Array.from(new Set(Array.from(tables.values())
+        .filter(table => !jurisdiction || table.jurisdiction.toLowerCase() === jurisdiction.toLowerCase())
+        .flatMap(table => Object.keys(table.filing_statuses)))).sort();
+
+export const listJurisdictions = (): string[] =>
+    Array.from(new Set(Array.from(tables.values()).map(table => table.jurisdiction))).sort();
+
+const bundledTables = import.meta.glob<TaxTable>('../data/tax/*.json', { eager: true, import: 'default' });
+for (const [path, table] of Object.entries(bundledTables)) {
+    registerTaxTable(table, path);
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { parseConfirmationUtterance, resolveToolPolicy } from "./toolConfirmation";
+import { budgetTrackerTool } from "./tools/budgetTracker";
+import { trialBalanceTool } from "./tools/trialBalance";
+
+describe('parseConfirmationUtterance', () => {
+    it.each(['Yes', 'Yeah, go ahead.', 'okay', 'Sure, run it', 'No problem, go ahead'])('reads "%s" as approval', text => {
+        expect(parseConfirmationUtterance(text)).toBe('approve');
+    });
+
+    it.each(['No', 'Nope.', 'cancel that', "No, don't do it", 'Dont'])('reads "%s" as rejection', text => {
+        expect(parseConfirmationUtterance(text)).toBe('reject');
+    });
+
+    it('ignores words that only contain an answer', () => {
+        expect(parseConfirmationUtterance('nothing')).toBeNull();
+        expect(parseConfirmationUtterance('yesterday')).toBeNull();
+    });
+
+    it('treats longer sentences as a new request', () => {
+        expect(parseConfirmationUtterance('yes and also show me the balance sheet for March')).toBeNull();
+    });
+});
+
+describe('resolveToolPolicy', () => {
+    it('falls back to the tool default, then to auto', () => {
+        expect(resolveToolPolicy(trialBalanceTool)).toBe('confirm');
+        expect(resolveToolPolicy(budgetTrackerTool)).toBe('auto');
+    });
+
+    it('prefers the user override', () => {
+        expect(resolveToolPolicy(trialBalanceTool, { fetch_trial_balance: 'auto' })).toBe('auto');
+        expect(resolveToolPolicy(budgetTrackerTool, { budget_tracker: 'deny' })).toBe('deny');
+    });
+});
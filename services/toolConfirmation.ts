@@ -0,0 +1,46 @@
+import { RegisteredTool, ToolPolicy } from "./toolRegistry";
+
+// Human-in-the-loop support for tool calls: which calls need the user's approval, and how a
+// spoken "yes" or "no" is recognised as an answer to a pending confirmation
+
+export interface ToolConfirmationRequest {
+    callId: string;
+    toolName: string;
+    args: Record<string, unknown>;
+    tool: RegisteredTool;
+}
+
+export type ToolConfirmationDecision =
+    // `args` replaces the model's arguments when the user edited them
+    | { approved: true; args?: Record<string, unknown> }
+    | { approved: false; reason?: string };
+
+export const TOOL_POLICY_LABELS: Record<ToolPolicy, string> = {
+    auto: 'Run automatically',
+    confirm: 'Ask first',
+    deny: 'Never run'
+};
+
+// A user's override takes precedence over the tool's own default
+export const resolveToolPolicy = (tool: RegisteredTool, overrides: Record<string, ToolPolicy> = {}): ToolPolicy =>
+    overrides[tool.name] ?? tool.policy ?? 'auto';
+
+const APPROVE_PHRASES = ['yes', 'yeah', 'yep', 'sure', 'ok', 'okay', 'approve', 'approved', 'confirm', 'go ahead', 'do it', 'run it', 'proceed'];
+const REJECT_PHRASES = ['no', 'nope', 'reject', 'deny', 'cancel', 'stop', "don't", 'do not', 'never mind', 'nevermind'];
+// Agreement that happens to start with "no"
+const APPROVE_IDIOMS = ['no problem', 'no worries'];
+// Longer utterances are treated as a new request rather than an answer
+const MAX_ANSWER_WORDS = 6;
+
+const containsPhrase = (words: string, phrase: string) => new RegExp(`(^|\\s)${phrase.replace(/'/g, "'?")}(\\s|$)`).test(words);
+
+// Reads a short spoken answer as approval or rejection, or null when it is neither.
+// Any refusal wins ("no, don't do it"), since a wrongly rejected call is easy to retry.
+export const parseConfirmationUtterance = (text: string): 'approve' | 'reject' | null => {
+    const words = text.toLowerCase().replace(/[’]/g, "'").replace(/[^a-z'\s]/g, ' ').replace(/\s+/g, ' ').trim();
+    if (!words || words.split(' ').length > MAX_ANSWER_WORDS) return null;
+    const idioms = APPROVE_IDIOMS.filter(idiom => containsPhrase(words, idiom));
+    const rest = idioms.reduce((remaining, idiom) => remaining.replace(idiom, ' '), words);
+    if (REJECT_PHRASES.some(phrase => containsPhrase(rest, phrase))) return 'reject';
+    return idioms.length > 0 || APPROVE_PHRASES.some(phrase => containsPhrase(rest, phrase)) ? 'approve' : null;
+};
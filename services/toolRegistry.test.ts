@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { createToolRegistry, defineTool, validateToolArgs } from "./toolRegistry";
+import { resolveToolPolicy } from "./toolConfirmation";
+
+const echoTool = defineTool({
+    name: 'echo',
+    description: 'Returns its input',
+    parameters: {
+        type: 'object',
+        properties: { text: { type: 'string' }, repeat: { type: 'integer', minimum: 1 } },
+        required: ['text']
+    },
+    policy: 'confirm',
+    validate: (args: { text: string; repeat?: number }) =>
+        args.text.trim() === '' ? [{ path: 'text', message: 'Must not be blank' }] : [],
+    handler: (args: { text: string; repeat?: number }) => args.text.repeat(args.repeat ?? 1)
+});
+
+const pingTool = defineTool({
+    name: 'ping',
+    description: 'Answers pong',
+    parameters: { type: 'object', properties: {} },
+    handler: () => 'pong'
+});
+
+describe('createToolRegistry', () => {
+    it('registers and unregisters tools', () => {
+        const registry = createToolRegistry([echoTool]);
+        const unregisterPing = registry.register(pingTool);
+
+        expect(registry.list().map(tool => tool.name)).toEqual(['echo', 'ping']);
+        expect(registry.get('ping')).toBe(pingTool);
+
+        unregisterPing();
+        expect(registry.has('ping')).toBe(false);
+        expect(registry.unregister('echo')).toBe(true);
+        expect(registry.unregister('echo')).toBe(false);
+        expect(registry.list()).toEqual([]);
+    });
+
+    it('refuses a second tool with the same name', () => {
+        const registry = createToolRegistry([pingTool]);
+        expect(() => registry.register({ ...pingTool })).toThrow('Tool already registered: ping');
+    });
+
+    it('leaves a replacement in place when a stale unregister runs', () => {
+        const registry = createToolRegistry();
+        const unregisterFirst = registry.register(pingTool);
+        registry.unregister('ping');
+        const replacement = { ...pingTool, description: 'Answers pong, again' };
+        registry.register(replacement);
+
+        unregisterFirst();
+        expect(registry.get('ping')).toBe(replacement);
+    });
+
+    it('keeps clones independent', () => {
+        const registry = createToolRegistry([pingTool]);
+        const clone = registry.clone();
+        clone.register(echoTool);
+
+        expect(registry.has('echo')).toBe(false);
+        expect(clone.list().map(tool => tool.name)).toEqual(['ping', 'echo']);
+    });
+
+    it('declares every tool to Gemini in one Tool', () => {
+        expect(createToolRegistry().toLiveTools()).toEqual([]);
+        expect(createToolRegistry([echoTool, pingTool]).toLiveTools()).toEqual([{
+            functionDeclarations: [
+                { name: 'echo', description: echoTool.description, parameters: echoTool.parameters },
+                { name: 'ping', description: pingTool.description, parameters: pingTool.parameters }
+            ]
+        }]);
+    });
+
+    it('looks up the policy of a registered tool', () => {
+        const registry = createToolRegistry([echoTool, pingTool]);
+
+        expect(resolveToolPolicy(registry.get('echo')!)).toBe('confirm');
+        expect(resolveToolPolicy(registry.get('ping')!)).toBe('auto');
+        expect(resolveToolPolicy(registry.get('echo')!, { echo: 'deny' })).toBe('deny');
+    });
+});
+
+describe('validateToolArgs', () => {
+    it('returns the arguments once schema and semantic checks pass', () => {
+        expect(validateToolArgs(echoTool, { text: 'hi', repeat: 2 })).toEqual({ valid: true, args: { text: 'hi', repeat: 2 } });
+    });
+
+    it('treats missing arguments as an empty object', () => {
+        expect(validateToolArgs(pingTool, undefined)).toEqual({ valid: true, args: {} });
+        expect(validateToolArgs(echoTool, null)).toEqual({
+            valid: false,
+            issues: [{ path: 'text', message: 'Missing required argument' }]
+        });
+    });
+
+    it('runs semantic checks only after the schema checks pass', () => {
+        expect(validateToolArgs(echoTool, { text: ' ', repeat: 0 })).toEqual({
+            valid: false,
+            issues: [{ path: 'repeat', message: 'Must be at least 1' }]
+        });
+        expect(validateToolArgs(echoTool, { text: ' ' })).toEqual({
+            valid: false,
+            issues: [{ path: 'text', message: 'Must not be blank' }]
+        });
+    });
+});
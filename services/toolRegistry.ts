@@ -0,0 +1,112 @@
+import type { FunctionDeclaration, Schema, Tool } from "@google/genai";
+import { ToolValidationIssue, validateAgainstSchema } from "./toolValidation";
+import { SessionDataReader, createSessionDataStore } from "./sessionDataStore";
+
+// Subset of JSON Schema used to describe tool parameters to Gemini
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+
+export interface JsonSchema {
+    type: JsonSchemaType;
+    description?: string;
+    properties?: Record<string, JsonSchema>;
+    items?: JsonSchema;
+    enum?: string[];
+    required?: string[];
+    minimum?: number;
+    maximum?: number;
+    minItems?: number;
+    maxItems?: number;
+}
+
+// What a handler can see beyond its own arguments
+export interface ToolContext {
+    // Earlier tool results from the same Live session
+    sessionData: SessionDataReader;
+}
+
+// Whether a call runs straight away, waits for the user's approval, or is refused
+export type ToolPolicy = 'auto' | 'confirm' | 'deny';
+
+export interface ToolDefinition<TArgs = Record<string, unknown>, TResult = unknown> {
+    name: string;
+    description: string;
+    parameters: JsonSchema;
+    // Default policy for calls to this tool; users can override it per tool. Defaults to 'auto'.
+    policy?: ToolPolicy;
+    // Semantic checks that JSON Schema cannot express; runs only once the schema checks pass
+    validate?: (args: TArgs) => ToolValidationIssue[];
+    handler: (args: TArgs, context: ToolContext) => TResult | Promise<TResult>;
+}
+
+// A tool of any argument type, as the registry holds them. Its handler cannot be called with
+// raw model output; validateToolArgs narrows the arguments first.
+export type RegisteredTool = ToolDefinition<never, unknown>;
+
+export type ToolArgsValidation<TArgs = Record<string, unknown>> =
+    | { valid: true; args: TArgs }
+    | { valid: false; issues: ToolValidationIssue[] };
+
+export interface ToolRegistry {
+    register: <TArgs, TResult>(tool: ToolDefinition<TArgs, TResult>) => () => void;
+    unregister: (name: string) => boolean;
+    get: (name: string) => RegisteredTool | undefined;
+    has: (name: string) => boolean;
+    list: () => RegisteredTool[];
+    toLiveTools: () => Tool[];
+    clone: () => ToolRegistry;
+}
+
+// For calling handlers outside a Live session, e.g. from scripts
+export const emptyToolContext = (): ToolContext => ({ sessionData: createSessionDataStore() });
+
+// Identity helper that ties a handler's argument type to its declaration
+export const defineTool = <TArgs, TResult = unknown>(tool: ToolDefinition<TArgs, TResult>): ToolDefinition<TArgs, TResult> => tool;
+
+export const validateToolArgs = <TArgs>(tool: ToolDefinition<TArgs>, rawArgs: unknown): ToolArgsValidation<TArgs> => {
+    const args = rawArgs ?? {};
+    const schemaIssues = validateAgainstSchema(tool.parameters, args);
+    if (schemaIssues.length > 0) {
+        return { valid: false, issues: schemaIssues };
+    }
+    const semanticIssues = tool.validate?.(args as TArgs) ?? [];
+    if (semanticIssues.length > 0) {
+        return { valid: false, issues: semanticIssues };
+    }
+    return { valid: true, args: args as TArgs };
+};
+
+export const createToolRegistry = (initialTools: RegisteredTool[] = []): ToolRegistry => {
+    const tools = new Map<string, RegisteredTool>();
+
+    const registry: ToolRegistry = {
+        register: (tool) => {
+            if (tools.has(tool.name)) {
+                throw new Error(`Tool already registered: ${tool.name}`);
+            }
+            tools.set(tool.name, tool);
+            return () => {
+                // Only remove the entry if it has not been replaced since
+                if (tools.get(tool.name) === tool) {
+                    tools.delete(tool.name);
+                }
+            };
+        },
+        unregister: (name) => tools.delete(name),
+        get: (name) => tools.get(name),
+        has: (name) => tools.has(name),
+        list: () => Array.from(tools.values()),
+        toLiveTools: () => {
+            const functionDeclarations: FunctionDeclaration[] = registry.list().map(tool => ({
+                name: tool.name,
+                description: tool.description,
+                // Gemini accepts the lowercase JSON Schema type names as well as its own Type enum
+                parameters: tool.parameters as unknown as Schema
+            }));
+            return functionDeclarations.length > 0 ? [{ functionDeclarations }] : [];
+        },
+        clone: () => createToolRegistry(registry.list())
+    };
+
+    initialTools.forEach(tool => registry.register(tool));
+    return registry;
+};
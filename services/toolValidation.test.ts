@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { validateAgainstSchema } from "./toolValidation";
+import { JsonSchema } from "./toolRegistry";
+
+const schema: JsonSchema = {
+    type: 'object',
+    properties: {
+        income: { type: 'number', minimum: 0 },
+        year: { type: 'integer', minimum: 2000, maximum: 2100 },
+        status: { type: 'string', enum: ['single', 'married'] },
+        itemize: { type: 'boolean' },
+        deductions: {
+            type: 'array',
+            minItems: 1,
+            items: {
+                type: 'object',
+                properties: { name: { type: 'string' }, amount: { type: 'number', minimum: 0 } },
+                required: ['amount']
+            }
+        }
+    },
+    required: ['income', 'status']
+};
+
+describe('validateAgainstSchema', () => {
+    it('accepts arguments that match the schema', () => {
+        expect(validateAgainstSchema(schema, {
+            income: 50000,
+            year: 2025,
+            status: 'single',
+            itemize: true,
+            deductions: [{ name: 'Charity', amount: 200 }]
+        })).toEqual([]);
+    });
+
+    it('reports type mismatches with what was received', () => {
+        expect(validateAgainstSchema(schema, { income: '50000', status: 3, itemize: 'yes', deductions: {} })).toEqual([
+            { path: 'income', message: 'Expected a number but received string' },
+            { path: 'status', message: 'Expected a string but received number' },
+            { path: 'itemize', message: 'Expected a boolean but received string' },
+            { path: 'deductions', message: 'Expected an array but received object' }
+        ]);
+        expect(validateAgainstSchema(schema, [])).toEqual([{ path: 'arguments', message: 'Expected an object but received array' }]);
+        expect(validateAgainstSchema(schema, { income: Number.NaN, status: 'single' })).toEqual([
+            { path: 'income', message: 'Expected a number but received NaN' }
+        ]);
+    });
+
+    it('requires whole numbers for integers', () => {
+        expect(validateAgainstSchema(schema, { income: 1, status: 'single', year: 2025.5 })).toEqual([
+            { path: 'year', message: 'Expected a whole number but received 2025.5' }
+        ]);
+    });
+
+    it('checks enum values', () => {
+        expect(validateAgainstSchema(schema, { income: 1, status: 'widowed' })).toEqual([
+            { path: 'status', message: 'Must be one of: single, married' }
+        ]);
+    });
+
+    it('checks minimum and maximum', () => {
+        expect(validateAgainstSchema(schema, { income: -1, status: 'single', year: 1999 })).toEqual([
+            { path: 'income', message: 'Must be at least 0' },
+            { path: 'year', message: 'Must be at least 2000' }
+        ]);
+        expect(validateAgainstSchema(schema, { income: 0, status: 'single', year: 2101 })).toEqual([
+            { path: 'year', message: 'Must be at most 2100' }
+        ]);
+    });
+
+    it('checks minItems', () => {
+        expect(validateAgainstSchema(schema, { income: 1, status: 'single', deductions: [] })).toEqual([
+            { path: 'deductions', message: 'Must contain at least 1 item(s)' }
+        ]);
+    });
+
+    it('reports nested issues by their path', () => {
+        expect(validateAgainstSchema(schema, {
+            income: 1,
+            status: 'single',
+            deductions: [{ amount: 10 }, { name: 'Rent', amount: -5 }, { name: 7 }]
+        })).toEqual([
+            { path: 'deductions[1].amount', message: 'Must be at least 0' },
+            { path: 'deductions[2].amount', message: 'Missing required argument' },
+            { path: 'deductions[2].name', message: 'Expected a string but received number' }
+        ]);
+    });
+
+    it('treats null as missing', () => {
+        expect(validateAgainstSchema(schema, { income: null, status: 'single', year: null })).toEqual([
+            { path: 'income', message: 'Missing required argument' }
+        ]);
+    });
+
+    it('ignores properties the schema does not declare', () => {
+        expect(validateAgainstSchema(schema, { income: 1, status: 'single', currency: 'EUR' })).toEqual([]);
+    });
+});
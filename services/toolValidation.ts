@@ -0,0 +1,92 @@
+import type { JsonSchema } from "./toolRegistry";
+
+export interface ToolValidationIssue {
+    // Dotted path to the offending argument, e.g. "cash_flows[2]" or "deductions[0].amount"
+    path: string;
+    message: string;
+}
+
+const describe = (value: unknown): string => {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number' && !Number.isFinite(value)) return String(value);
+    return typeof value;
+};
+
+const joinPath = (parent: string, key: string | number) =>
+    typeof key === 'number' ? `${parent}[${key}]` : parent ? `${parent}.${key}` : key;
+
+// Validates a value against the subset of JSON Schema used by tool declarations
+export const validateAgainstSchema = (schema: JsonSchema, value: unknown, path = ''): ToolValidationIssue[] => {
+    const label = path || 'arguments';
+    const issues: ToolValidationIssue[] = [];
+
+    switch (schema.type) {
+        case 'number':
+        case 'integer':
+            if (typeof value !== 'number' || !Number.isFinite(value)) {
+                return [{ path: label, message: `Expected a ${schema.type} but received ${describe(value)}` }];
+            }
+            if (schema.type === 'integer' && !Number.isInteger(value)) {
+                issues.push({ path: label, message: `Expected a whole number but received ${value}` });
+            }
+            if (schema.minimum !== undefined && value < schema.minimum) {
+                issues.push({ path: label, message: `Must be at least ${schema.minimum}` });
+            }
+            if (schema.maximum !== undefined && value > schema.maximum) {
+                issues.push({ path: label, message: `Must be at most ${schema.maximum}` });
+            }
+            break;
+
+        case 'string':
+            if (typeof value !== 'string') {
+                return [{ path: label, message: `Expected a string but received ${describe(value)}` }];
+            }
+            if (schema.enum && !schema.enum.includes(value)) {
+                issues.push({ path: label, message: `Must be one of: ${schema.enum.join(', ')}` });
+            }
+            break;
+
+        case 'boolean':
+            if (typeof value !== 'boolean') {
+                return [{ path: label, message: `Expected a boolean but received ${describe(value)}` }];
+            }
+            break;
+
+        case 'array':
+            if (!Array.isArray(value)) {
+                return [{ path: label, message: `Expected an array but received ${describe(value)}` }];
+            }
+            if (schema.minItems !== undefined && value.length < schema.minItems) {
+                issues.push({ path: label, message: `Must contain at least ${schema.minItems} item(s)` });
+            }
+            if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+                issues.push({ path: label, message: `Must contain at most ${schema.maxItems} item(s)` });
+            }
+            if (schema.items) {
+                value.forEach((item, index) => {
+                    issues.push(...validateAgainstSchema(schema.items!, item, joinPath(path, index)));
+                });
+            }
+            break;
+
+        case 'object':
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                return [{ path: label, message: `Expected an object but received ${describe(value)}` }];
+            }
+            const record = value as Record<string, unknown>;
+            for (const key of schema.required ?? []) {
+                if (record[key] === undefined || record[key] === null) {
+                    issues.push({ path: joinPath(path, key), message: 'Missing required argument' });
+                }
+            }
+            for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+                if (record[key] !== undefined && record[key] !== null) {
+                    issues.push(...validateAgainstSchema(propertySchema, record[key], joinPath(path, key)));
+                }
+            }
+            break;
+    }
+
+    return issues;
+};
@@ -0,0 +1,68 @@
+import { defineTool } from "../toolRegistry";
+import { OpenInvoiceKind, getAccountingApiClient } from "../accountingApiClient";
+import { computeAging } from "../accountingReports";
+import { reportContext, reportToolError, todayIsoDate, validateIsoDates } from "./reportToolSupport";
+
+export interface AgingArgs {
+    as_of_date?: string;
+    party_filter?: string;
+}
+
+const REPORT_TYPES: Record<OpenInvoiceKind, string> = {
+    receivable: 'Accounts Receivable Aging',
+    payable: 'Accounts Payable Aging'
+};
+
+const fetchAgingReport = (kind: OpenInvoiceKind) => async ({ as_of_date, party_filter }: AgingArgs) => {
+    const reportType = REPORT_TYPES[kind];
+    const asOfDate = as_of_date || todayIsoDate();
+    try {
+        const client = getAccountingApiClient();
+        const invoices = await client.getOpenInvoices(kind, { asOfDate, party: party_filter });
+        return {
+            report_type: reportType,
+            generated_at: new Date().toISOString(),
+            party_filter: party_filter || (kind === 'receivable' ? 'All customers' : 'All suppliers'),
+            ...reportContext(client),
+            ...computeAging(invoices, asOfDate)
+        };
+    } catch (error) {
+        return reportToolError(reportType, error);
+    }
+};
+
+const agingParameters = (partyLabel: string) => ({
+    type: "object" as const,
+    properties: {
+        as_of_date: {
+            type: "string" as const,
+            description: "Date to age invoices against (optional, format: YYYY-MM-DD, defaults to today)"
+        },
+        party_filter: {
+            type: "string" as const,
+            description: `Limit the report to one ${partyLabel} (optional)`
+        }
+    },
+    required: []
+});
+
+export const fetchReceivablesAging = fetchAgingReport('receivable');
+export const fetchPayablesAging = fetchAgingReport('payable');
+
+export const receivablesAgingTool = defineTool<AgingArgs>({
+    name: "fetch_ar_aging",
+    description: "Fetch an accounts receivable aging report: outstanding customer invoices grouped into current, 1-30, 31-60, 61-90 and over 90 days overdue, per customer and in total",
+    parameters: agingParameters('customer'),
+    validate: ({ as_of_date }) => validateIsoDates({ as_of_date }),
+    policy: 'confirm',
+    handler: fetchReceivablesAging
+});
+
+export const payablesAgingTool = defineTool<AgingArgs>({
+    name: "fetch_ap_aging",
+    description: "Fetch an accounts payable aging report: outstanding supplier bills grouped into current, 1-30, 31-60, 61-90 and over 90 days overdue, per supplier and in total",
+    parameters: agingParameters('supplier'),
+    validate: ({ as_of_date }) => validateIsoDates({ as_of_date }),
+    policy: 'confirm',
+    handler: fetchPayablesAging
+});
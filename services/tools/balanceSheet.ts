@@ -0,0 +1,44 @@
+import { defineTool } from "../toolRegistry";
+import { getAccountingApiClient } from "../accountingApiClient";
+import { computeBalanceSheet } from "../accountingReports";
+import { reportContext, reportToolError, todayIsoDate, validateIsoDates } from "./reportToolSupport";
+
+export interface BalanceSheetArgs {
+    as_of_date?: string;
+}
+
+export const fetchBalanceSheet = async ({ as_of_date }: BalanceSheetArgs) => {
+    const asOfDate = as_of_date || todayIsoDate();
+    try {
+        const client = getAccountingApiClient();
+        // No start date: balances accumulate from the first posting up to the report date
+        const balances = await client.getAccountBalances({ endDate: asOfDate });
+        return {
+            report_type: 'Balance Sheet',
+            generated_at: new Date().toISOString(),
+            as_of_date: asOfDate,
+            ...reportContext(client),
+            ...computeBalanceSheet(balances)
+        };
+    } catch (error) {
+        return reportToolError('Balance Sheet', error);
+    }
+};
+
+export const balanceSheetTool = defineTool<BalanceSheetArgs>({
+    name: "fetch_balance_sheet",
+    description: "Fetch a balance sheet from the accounting system as of a date: assets, liabilities and equity by account, with a check that assets equal liabilities plus equity",
+    parameters: {
+        type: "object",
+        properties: {
+            as_of_date: {
+                type: "string",
+                description: "Report date (optional, format: YYYY-MM-DD, defaults to today)"
+            }
+        },
+        required: []
+    },
+    validate: ({ as_of_date }) => validateIsoDates({ as_of_date }),
+    policy: 'confirm',
+    handler: fetchBalanceSheet
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { budgetTrackerTool, trackBudget } from "./budgetTracker";
+import { validateToolArgs } from "../toolRegistry";
+
+describe('trackBudget', () => {
+    it('flags spending over budget', () => {
+        expect(trackBudget({ category: 'marketing', budgeted_amount: 1000, actual_amount: 1250 })).toEqual({
+            category: 'marketing',
+            period: 'monthly',
+            budgeted_amount: '$1000.00',
+            actual_amount: '$1250.00',
+            variance: '$250.00',
+            variance_percentage: '25.0%',
+            status: 'Over Budget',
+            alert: 'Significant variance detected'
+        });
+    });
+
+    it('flags spending under budget', () => {
+        expect(trackBudget({ category: 'travel', budgeted_amount: 2000, actual_amount: 1900, period: 'quarterly' })).toMatchObject({
+            period: 'quarterly',
+            variance: '$-100.00',
+            variance_percentage: '-5.0%',
+            status: 'Under Budget',
+            alert: 'Within acceptable range'
+        });
+    });
+
+    it('reports an exact match as on budget', () => {
+        expect(trackBudget({ category: 'rent', budgeted_amount: 1500, actual_amount: 1500 })).toMatchObject({
+            variance: '$0.00',
+            status: 'On Budget'
+        });
+    });
+
+    it('treats a variance of exactly 10% as acceptable', () => {
+        expect(trackBudget({ category: 'payroll', budgeted_amount: 1000, actual_amount: 1100 }).alert).toBe('Within acceptable range');
+        expect(trackBudget({ category: 'payroll', budgeted_amount: 1000, actual_amount: 1101 }).alert).toBe('Significant variance detected');
+    });
+});
+
+describe('budgetTrackerTool arguments', () => {
+    it('rejects a zero budget, which has no variance percentage', () => {
+        const validation = validateToolArgs(budgetTrackerTool, { category: 'rent', budgeted_amount: 0, actual_amount: 100 });
+        expect(validation).toEqual({
+            valid: false,
+            issues: [{ path: 'budgeted_amount', message: 'Must be non-zero to calculate a variance percentage' }]
+        });
+    });
+
+    it('requires the amounts', () => {
+        const validation = validateToolArgs(budgetTrackerTool, { category: 'rent' });
+        expect(validation.valid).toBe(false);
+    });
+});
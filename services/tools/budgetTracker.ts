@@ -0,0 +1,58 @@
+import { defineTool } from "../toolRegistry";
+
+export interface BudgetTrackerArgs {
+    category: string;
+    budgeted_amount: number;
+    actual_amount: number;
+    period?: string;
+}
+
+export const trackBudget = (params: BudgetTrackerArgs) => {
+    const { category, budgeted_amount, actual_amount, period = 'monthly' } = params;
+    
+    const variance = actual_amount - budgeted_amount;
+    const variancePercentage = (variance / budgeted_amount) * 100;
+    
+    return {
+        category,
+        period,
+        budgeted_amount: `$${budgeted_amount.toFixed(2)}`,
+        actual_amount: `$${actual_amount.toFixed(2)}`,
+        variance: `$${variance.toFixed(2)}`,
+        variance_percentage: `${variancePercentage.toFixed(1)}%`,
+        status: variance > 0 ? 'Over Budget' : variance < 0 ? 'Under Budget' : 'On Budget',
+        alert: Math.abs(variancePercentage) > 10 ? 'Significant variance detected' : 'Within acceptable range'
+    };
+};
+
+export const budgetTrackerTool = defineTool<BudgetTrackerArgs>({
+    name: "budget_tracker",
+    description: "Track and analyze budget vs actual spending",
+    parameters: {
+        type: "object",
+        properties: {
+            category: {
+                type: "string",
+                description: "Budget category (e.g., 'marketing', 'operations', 'personnel')"
+            },
+            budgeted_amount: {
+                type: "number",
+                description: "Budgeted amount for the category"
+            },
+            actual_amount: {
+                type: "number",
+                description: "Actual spent amount"
+            },
+            period: {
+                type: "string",
+                description: "Budget period (e.g., 'monthly', 'quarterly', 'annual')"
+            }
+        },
+        required: ["category", "budgeted_amount", "actual_amount"]
+    },
+    validate: ({ budgeted_amount }) =>
+        budgeted_amount === 0
+            ? [{ path: 'budgeted_amount', message: 'Must be non-zero to calculate a variance percentage' }]
+            : [],
+    handler: trackBudget
+});
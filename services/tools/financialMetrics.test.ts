@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { calculateFinancialMetrics, FinancialMetricsArgs, financialMetricsTool } from "./financialMetrics";
+import { validateToolArgs } from "../toolRegistry";
+
+const metric = (args: Omit<FinancialMetricsArgs, 'initial_investment' | 'cash_flows'> & Partial<FinancialMetricsArgs>) =>
+    calculateFinancialMetrics({ initial_investment: 1000, cash_flows: [500, 500, 500], ...args });
+
+const valueOf = (result: ReturnType<typeof calculateFinancialMetrics>) => {
+    if (!('metric' in result)) throw new Error(result.error);
+    return result.value;
+};
+
+describe('calculateFinancialMetrics', () => {
+    it('computes ROI from total returns', () => {
+        const result = metric({ metric_type: 'roi', cash_flows: [300, 400, 500] });
+        expect(valueOf(result)).toBeCloseTo(20);
+        expect(result).toMatchObject({ metric: 'ROI', formatted: '20.00%' });
+    });
+
+    it('reports a negative ROI when the investment is not recovered', () => {
+        expect(valueOf(metric({ metric_type: 'roi', cash_flows: [200, 300] }))).toBeCloseTo(-50);
+    });
+
+    it('discounts cash flows for NPV, defaulting to a 10% rate', () => {
+        const result = metric({ metric_type: 'npv' });
+        expect(valueOf(result)).toBeCloseTo(243.43, 2);
+        expect(result).toMatchObject({ formatted: '$243.43', discount_rate: '10.00%' });
+    });
+
+    it('treats a zero discount rate as undiscounted NPV', () => {
+        expect(valueOf(metric({ metric_type: 'npv', discount_rate: 0 }))).toBeCloseTo(500);
+    });
+
+    it('finds the IRR of a single-period investment', () => {
+        const result = metric({ metric_type: 'irr', cash_flows: [1100] });
+        expect(valueOf(result)).toBeCloseTo(0.1, 6);
+        expect(result).toMatchObject({ converged: true, multiple_irr_warning: undefined });
+    });
+
+    it('warns when cash flows change sign more than once', () => {
+        const result = metric({ metric_type: 'irr', initial_investment: 100, cash_flows: [230, -132] });
+        const rate = valueOf(result);
+        expect([0.1, 0.2].some(root => Math.abs(rate! - root) < 1e-6)).toBe(true);
+        expect(result).toMatchObject({ sign_changes: 2 });
+        expect((result as { multiple_irr_warning?: string }).multiple_irr_warning).toContain('more than one IRR');
+    });
+
+    it('returns no IRR when cash flows never change sign', () => {
+        const result = metric({ metric_type: 'irr', initial_investment: 0 });
+        expect(valueOf(result)).toBeNull();
+        expect(result).toMatchObject({ formatted: 'Undefined', converged: false });
+    });
+
+    it('computes MIRR with separate finance and reinvestment rates', () => {
+        expect(valueOf(metric({ metric_type: 'mirr' }))).toBeCloseTo(Math.pow(1655 / 1000, 1 / 3) - 1, 6);
+        expect(valueOf(metric({ metric_type: 'mirr', reinvestment_rate: 0 }))).toBeCloseTo(Math.pow(1.5, 1 / 3) - 1, 6);
+    });
+
+    it('interpolates the payback period within the breakeven period', () => {
+        const result = metric({ metric_type: 'payback_period', cash_flows: [300, 400, 500] });
+        expect(valueOf(result)).toBeCloseTo(2.6);
+        expect(result).toMatchObject({ formatted: '2.60 periods', breakeven: true });
+    });
+
+    it('reports an unrecovered payback period as null', () => {
+        const result = metric({ metric_type: 'payback_period', cash_flows: [100, 100] });
+        expect(valueOf(result)).toBeNull();
+        expect(result).toMatchObject({ formatted: 'Not recovered', breakeven: false });
+    });
+
+    it('takes longer to pay back once cash flows are discounted', () => {
+        const discounted = valueOf(metric({ metric_type: 'discounted_payback_period' }));
+        expect(discounted).toBeCloseTo(2 + (1000 - 500 / 1.1 - 500 / 1.21) / (500 / 1.331), 6);
+        expect(discounted!).toBeGreaterThan(valueOf(metric({ metric_type: 'payback_period' }))!);
+    });
+
+    it('recommends projects by profitability index', () => {
+        expect(metric({ metric_type: 'profitability_index' })).toMatchObject({ formatted: '1.243', recommendation: expect.stringMatching(/^Accept/) });
+        expect(metric({ metric_type: 'profitability_index', discount_rate: 0.3 })).toMatchObject({ recommendation: expect.stringMatching(/^Reject/) });
+        expect(valueOf(metric({ metric_type: 'profitability_index', initial_investment: 0 }))).toBeNull();
+    });
+
+    it('rejects unknown metric types', () => {
+        expect(metric({ metric_type: 'wacc' as FinancialMetricsArgs['metric_type'] })).toEqual({ error: 'Unsupported metric type' });
+    });
+});
+
+describe('financialMetricsTool arguments', () => {
+    it('requires at least one cash flow and a known metric', () => {
+        const validation = validateToolArgs(financialMetricsTool, { initial_investment: 1000, cash_flows: [], metric_type: 'wacc' });
+        expect(validation.valid).toBe(false);
+        if (!validation.valid) {
+            expect(validation.issues.map(issue => issue.path)).toEqual(expect.arrayContaining(['cash_flows', 'metric_type']));
+        }
+    });
+});
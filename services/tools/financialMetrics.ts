@@ -0,0 +1,157 @@
+import { defineTool } from "../toolRegistry";
+import {
+    discountedPaybackPeriod,
+    internalRateOfReturn,
+    modifiedInternalRateOfReturn,
+    netPresentValue,
+    paybackPeriod,
+    profitabilityIndex
+} from "../financialMath";
+
+export type FinancialMetricType =
+    | 'roi'
+    | 'npv'
+    | 'irr'
+    | 'mirr'
+    | 'payback_period'
+    | 'discounted_payback_period'
+    | 'profitability_index';
+
+export interface FinancialMetricsArgs {
+    initial_investment: number;
+    cash_flows: number[];
+    discount_rate?: number;
+    finance_rate?: number;
+    reinvestment_rate?: number;
+    metric_type: FinancialMetricType;
+}
+
+// Every metric reports the raw number for the UI alongside a formatted string the model can read out
+export interface FinancialMetricResult {
+    metric: string;
+    value: number | null;
+    formatted: string;
+    [detail: string]: unknown;
+}
+
+const formatPercent = (rate: number) => `${(rate * 100).toFixed(2)}%`;
+const formatPeriods = (periods: number | null) => periods === null ? 'Not recovered' : `${periods.toFixed(2)} periods`;
+
+export const calculateFinancialMetrics = (params: FinancialMetricsArgs): FinancialMetricResult | { error: string } => {
+    const { initial_investment, cash_flows, discount_rate = 0.1, metric_type } = params;
+    const { finance_rate = discount_rate, reinvestment_rate = discount_rate } = params;
+    
+    switch (metric_type) {
+        case 'roi': {
+            const totalReturn = cash_flows.reduce((sum: number, cf: number) => sum + cf, 0);
+            const roi = ((totalReturn - initial_investment) / initial_investment) * 100;
+            return { metric: 'ROI', value: roi, formatted: `${roi.toFixed(2)}%`, calculation: `((${totalReturn} - ${initial_investment}) / ${initial_investment}) * 100` };
+        }
+            
+        case 'npv': {
+            const npv = netPresentValue(initial_investment, cash_flows, discount_rate);
+            return { metric: 'NPV', value: npv, formatted: `$${npv.toFixed(2)}`, discount_rate: formatPercent(discount_rate) };
+        }
+
+        case 'irr': {
+            const irr = internalRateOfReturn(initial_investment, cash_flows);
+            return {
+                metric: 'IRR',
+                value: irr.rate,
+                formatted: irr.rate === null ? 'Undefined' : formatPercent(irr.rate),
+                converged: irr.converged,
+                method: irr.method,
+                iterations: irr.iterations,
+                sign_changes: irr.signChanges,
+                multiple_irr_warning: irr.multipleRootsPossible
+                    ? `Cash flows change sign ${irr.signChanges} times, so more than one IRR may exist; consider MIRR instead`
+                    : undefined,
+                note: irr.message
+            };
+        }
+
+        case 'mirr': {
+            const mirr = modifiedInternalRateOfReturn(initial_investment, cash_flows, finance_rate, reinvestment_rate);
+            return {
+                metric: 'MIRR',
+                value: mirr,
+                formatted: mirr === null ? 'Undefined' : formatPercent(mirr),
+                finance_rate: formatPercent(finance_rate),
+                reinvestment_rate: formatPercent(reinvestment_rate)
+            };
+        }
+            
+        case 'payback_period': {
+            const payback = paybackPeriod(initial_investment, cash_flows);
+            return { metric: 'Payback Period', value: payback, formatted: formatPeriods(payback), breakeven: payback !== null };
+        }
+
+        case 'discounted_payback_period': {
+            const payback = discountedPaybackPeriod(initial_investment, cash_flows, discount_rate);
+            return {
+                metric: 'Discounted Payback Period',
+                value: payback,
+                formatted: formatPeriods(payback),
+                breakeven: payback !== null,
+                discount_rate: formatPercent(discount_rate)
+            };
+        }
+
+        case 'profitability_index': {
+            const index = profitabilityIndex(initial_investment, cash_flows, discount_rate);
+            return {
+                metric: 'Profitability Index',
+                value: index,
+                formatted: index === null ? 'Undefined' : index.toFixed(3),
+                discount_rate: formatPercent(discount_rate),
+                recommendation: index === null ? undefined : index >= 1 ? 'Accept: returns exceed the cost of capital' : 'Reject: returns fall short of the cost of capital'
+            };
+        }
+            
+        default:
+            return { error: 'Unsupported metric type' };
+    }
+};
+
+export const financialMetricsTool = defineTool<FinancialMetricsArgs>({
+    name: "calculate_financial_metrics",
+    description: "Calculate investment metrics: ROI, NPV, IRR, MIRR, simple and discounted payback period, and profitability index",
+    parameters: {
+        type: "object",
+        properties: {
+            initial_investment: {
+                type: "number",
+                description: "Initial investment amount"
+            },
+            cash_flows: {
+                type: "array",
+                items: { type: "number" },
+                minItems: 1,
+                description: "Array of cash flows over time periods"
+            },
+            discount_rate: {
+                type: "number",
+                description: "Discount rate for NPV, discounted payback and profitability index (as decimal, e.g., 0.1 for 10%)"
+            },
+            finance_rate: {
+                type: "number",
+                description: "Rate at which negative cash flows are financed, for MIRR (as decimal; defaults to discount_rate)"
+            },
+            reinvestment_rate: {
+                type: "number",
+                description: "Rate at which positive cash flows are reinvested, for MIRR (as decimal; defaults to discount_rate)"
+            },
+            metric_type: {
+                type: "string",
+                enum: ["roi", "npv", "irr", "mirr", "payback_period", "discounted_payback_period", "profitability_index"],
+                description: "Type of financial metric to calculate"
+            }
+        },
+        required: ["initial_investment", "cash_flows", "metric_type"]
+    },
+    validate: ({ initial_investment, metric_type }) =>
+        (metric_type === 'roi' || metric_type === 'profitability_index') && initial_investment === 0
+            ? [{ path: 'initial_investment', message: `Must be non-zero to calculate ${metric_type === 'roi' ? 'ROI' : 'the profitability index'}` }]
+            : [],
+    handler: calculateFinancialMetrics
+});
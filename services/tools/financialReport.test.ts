@@ -0,0 +1,243 @@
+import { describe, expect, it } from "vitest";
+import { financialReportTool, generateFinancialReport } from "./financialReport";
+import { ToolContext, emptyToolContext, validateToolArgs } from "../toolRegistry";
+import { createSessionDataStore } from "../sessionDataStore";
+import { computeBalanceSheet, computeProfitAndLoss, computeTrialBalance } from "../accountingReports";
+import { accountBalances, generateMockBooks } from "../../mock/accountingFixtures";
+
+const contextWith = (...records: [toolName: string, args: unknown, result: unknown][]): ToolContext => {
+    const sessionData = createSessionDataStore();
+    records.forEach(([toolName, args, result]) => sessionData.record(toolName, args, result));
+    return { sessionData };
+};
+
+const build = (params: Parameters<typeof generateFinancialReport>[0], context: ToolContext = emptyToolContext()) => {
+    const report = generateFinancialReport(params, context);
+    if ('error' in report) throw new Error(report.error);
+    return report;
+};
+
+describe('generateFinancialReport from line items', () => {
+    it('totals an income statement and derives its margins', () => {
+        const report = build({
+            report_type: 'income_statement',
+            period: 'Q1 2025',
+            line_items: [
+                { name: 'Product sales', category: 'revenue', amount: 10000 },
+                { name: 'Materials', category: 'cost_of_goods_sold', amount: 4000 },
+                { name: 'Rent', category: 'operating_expense', amount: 1500 },
+                { name: 'Salaries', category: 'operating_expense', amount: 2500 },
+                { name: 'Interest received', category: 'other_income', amount: 200 },
+                { name: 'Income tax', category: 'income_tax', amount: 550 }
+            ]
+        });
+
+        expect(report).toMatchObject({ report_type: 'income_statement', period: 'Q1 2025', source: 'line_items', comparison_period: null, prior_totals: null });
+        expect(report.totals).toMatchObject({
+            revenue: 10000,
+            gross_profit: 6000,
+            operating_expenses: 4000,
+            operating_income: 2000,
+            pre_tax_income: 2200,
+            net_income: 1650
+        });
+        expect(report.ratios).toMatchObject({ gross_margin_percent: 60, operating_margin_percent: 20, net_margin_percent: 16.5, effective_tax_rate_percent: 25 });
+        expect(report.observations[0]).toMatch(/^Net income is .*1,650\.00, a 16\.5% net margin\.$/);
+        expect(report.observations).toContainEqual(expect.stringMatching(/^Salaries is the largest operating expense/));
+    });
+
+    it('compares against prior amounts under the given label', () => {
+        const report = build({
+            report_type: 'income_statement',
+            period: 'Q1 2025',
+            comparison_period: 'Q4 2024',
+            line_items: [
+                { name: 'Sales', category: 'revenue', amount: 1200, prior_amount: 1000 },
+                { name: 'Rent', category: 'operating_expense', amount: 600, prior_amount: 400 }
+            ]
+        });
+
+        expect(report.comparison_period).toBe('Q4 2024');
+        expect(report.prior_totals).toMatchObject({ revenue: 1000, net_income: 600 });
+        expect(report.sections.find(section => section.category === 'revenue')).toMatchObject({ total: 1200, prior_total: 1000, change: 200, change_percent: 20 });
+        expect(report.observations).toContain('Revenue changed +20.0% compared with Q4 2024.');
+        expect(report.observations).toContain('Operating expenses grew faster than revenue (+50.0% vs +20.0%), squeezing operating margin.');
+    });
+
+    it('flags a balance sheet that does not balance', () => {
+        const report = build({
+            report_type: 'balance_sheet',
+            period: '2025-03-31',
+            line_items: [
+                { name: 'Cash', category: 'current_asset', amount: 5000 },
+                { name: 'Equipment', category: 'non_current_asset', amount: 3000 },
+                { name: 'Payables', category: 'current_liability', amount: 2500 },
+                { name: 'Share capital', category: 'equity', amount: 5000 }
+            ]
+        });
+
+        expect(report.totals).toMatchObject({ total_assets: 8000, total_liabilities_and_equity: 7500, working_capital: 2500 });
+        expect(report.ratios).toMatchObject({ current_ratio: 2, debt_ratio_percent: 31.25 });
+        expect(report.observations[0]).toMatch(/^The balance sheet does not balance: assets differ from liabilities plus equity by .*500\.00\./);
+    });
+
+    it('rolls a cash flow statement forward from opening cash', () => {
+        const report = build({
+            report_type: 'cash_flow',
+            period: 'FY 2024',
+            line_items: [
+                { name: 'Opening balance', category: 'opening_cash', amount: 1000 },
+                { name: 'Customer receipts', category: 'operating', amount: 4000 },
+                { name: 'New equipment', category: 'investing', amount: -1500 },
+                { name: 'Loan repayment', category: 'financing', amount: -500 }
+            ]
+        });
+
+        expect(report.totals).toEqual({
+            net_operating: 4000,
+            net_investing: -1500,
+            net_financing: -500,
+            net_change_in_cash: 2000,
+            free_cash_flow: 2500,
+            opening_cash: 1000,
+            closing_cash: 3000
+        });
+        expect(report.ratios.investment_coverage).toBe(2.67);
+    });
+
+    it('reports variance per budget line', () => {
+        const report = build({
+            report_type: 'budget_analysis',
+            period: 'March 2025',
+            line_items: [
+                { name: 'marketing', amount: 1250, budget_amount: 1000 },
+                { name: 'travel', amount: 400, budget_amount: 800 }
+            ]
+        });
+
+        expect(report.budget_lines).toEqual([
+            { name: 'marketing', budget_amount: 1000, actual_amount: 1250, variance: 250, variance_percent: 25, utilization_percent: 125, status: 'Over Budget' },
+            { name: 'travel', budget_amount: 800, actual_amount: 400, variance: -400, variance_percent: -50, utilization_percent: 50, status: 'Under Budget' }
+        ]);
+        expect(report.totals).toMatchObject({ total_budget: 1800, total_actual: 1650, total_variance: -150, lines_over_budget: 1, lines_under_budget: 1 });
+        expect(report.observations).toContainEqual(expect.stringMatching(/^Significantly under budget: travel \(-50\.0%\)/));
+    });
+});
+
+describe('generateFinancialReport from session data', () => {
+    it('asks for data when the session has none', () => {
+        expect(generateFinancialReport({ report_type: 'cash_flow', period: 'Q1 2025' }, emptyToolContext())).toEqual({
+            error: 'No data available to build a cash flow',
+            instructions: 'Ask the user for the figures and pass them as line_items, or first call fetch_general_ledger_report to fetch them from the accounting system.'
+        });
+    });
+
+    it('prefers supplied line items over session data', () => {
+        const context = contextWith(['budget_tracker', { category: 'rent', budgeted_amount: 100, actual_amount: 90 }, {}]);
+        const report = build({ report_type: 'budget_analysis', period: 'March', line_items: [{ name: 'travel', amount: 10, budget_amount: 20 }] }, context);
+        expect(report.source).toBe('line_items');
+        expect(report.budget_lines?.map(line => line.name)).toEqual(['travel']);
+    });
+
+    it('compares the latest profit and loss with an earlier run for another period', () => {
+        const books = generateMockBooks();
+        const profitAndLoss = (from: string, to: string) => ({
+            ...computeProfitAndLoss(accountBalances(books, from, to)),
+            date_range: { from, to }
+        });
+        const q4 = profitAndLoss('2024-10-01', '2024-12-31');
+        const q1 = profitAndLoss('2025-01-01', '2025-03-31');
+        const report = build({ report_type: 'income_statement', period: 'Q1 2025' }, contextWith(
+            ['fetch_profit_and_loss', {}, q4],
+            // A re-run of the current period is not a comparison
+            ['fetch_profit_and_loss', {}, q1],
+            ['fetch_profit_and_loss', {}, q1]
+        ));
+
+        expect(report.source).toBe('session:fetch_profit_and_loss');
+        expect(report.comparison_period).toBe('2024-10-01 to 2024-12-31');
+        expect(report.totals.revenue).toBe(q1.revenue.total);
+        expect(report.totals.net_income).toBe(q1.net_profit);
+        expect(report.prior_totals?.revenue).toBe(q4.revenue.total);
+        expect(report.prior_totals?.net_income).toBe(q4.net_profit);
+    });
+
+    it('falls back to the trial balance for an income statement', () => {
+        const balances = accountBalances(generateMockBooks(), '2025-01-01', '2025-03-31');
+        const report = build({ report_type: 'income_statement', period: 'Q1 2025' }, contextWith(['fetch_trial_balance', {}, computeTrialBalance(balances)]));
+
+        // Trial balance rows carry no account type, so cost of sales is counted as operating expense
+        const expected = computeProfitAndLoss(balances);
+        expect(report.source).toBe('session:fetch_trial_balance');
+        expect(report.totals.revenue).toBe(expected.revenue.total);
+        expect(report.totals.net_income).toBe(expected.net_profit);
+    });
+
+    it('builds a cash flow statement from cash movements in the ledger', () => {
+        const ledger = {
+            entries: [
+                { postingDate: '2025-01-05', account: 'Cash', debit: 500, credit: 0, balance: 500, voucherType: 'Payment Entry', voucherNo: 'PE-1' },
+                { postingDate: '2025-01-06', account: 'Main Bank', debit: 0, credit: 200, balance: -200, voucherType: 'Asset Purchase', voucherNo: 'AP-1' },
+                { postingDate: '2025-01-07', account: 'Main Bank', debit: 1000, credit: 0, balance: 800, voucherType: 'Loan Disbursement', voucherNo: 'LD-1' },
+                { postingDate: '2025-01-08', account: 'Sales', debit: 0, credit: 500, balance: -500, voucherType: 'Payment Entry', voucherNo: 'PE-1' }
+            ]
+        };
+        const report = build({ report_type: 'cash_flow', period: 'January 2025' }, contextWith(['fetch_general_ledger_report', {}, ledger]));
+
+        expect(report.source).toBe('session:fetch_general_ledger_report');
+        expect(report.totals).toMatchObject({ net_operating: 500, net_investing: -200, net_financing: 1000, net_change_in_cash: 1300 });
+    });
+
+    it('uses the latest budget_tracker figures per category', () => {
+        const report = build({ report_type: 'budget_analysis', period: 'March' }, contextWith(
+            ['budget_tracker', { category: 'rent', budgeted_amount: 1000, actual_amount: 900 }, {}],
+            ['budget_tracker', { category: 'rent', budgeted_amount: 1000, actual_amount: 1100 }, {}],
+            ['budget_tracker', { category: 'travel', budgeted_amount: 500, actual_amount: 500 }, {}]
+        ));
+
+        expect(report.source).toBe('session:budget_tracker');
+        expect(report.budget_lines?.map(line => [line.name, line.actual_amount])).toEqual([['travel', 500], ['rent', 1100]]);
+    });
+
+    it('builds a balance sheet from a trial balance that balances', () => {
+        const balances = accountBalances(generateMockBooks(), undefined, '2025-03-31');
+        const trialBalance = computeTrialBalance(balances);
+        const report = generateFinancialReport(
+            { report_type: 'balance_sheet', period: 'Q1 2025' },
+            contextWith(['fetch_trial_balance', { date_to: '2025-03-31' }, trialBalance])
+        );
+        if ('error' in report) throw new Error(report.error);
+
+        expect(report.source).toBe('session:fetch_trial_balance');
+        expect(report.totals.total_assets).toBe(report.totals.total_liabilities_and_equity);
+        expect(report.observations.join(' ')).not.toMatch(/does not balance/);
+
+        // Unclosed income and expense carry into equity the same way as in computeBalanceSheet
+        const expected = computeBalanceSheet(balances).equity.lines.find(line => line.account === 'Current Period Earnings');
+        const equity = report.sections.find(section => section.category === 'equity');
+        expect(equity?.lines.find(line => line.name === 'Current Period Earnings')?.amount).toBe(expected?.amount);
+    });
+});
+
+describe('financialReportTool arguments', () => {
+    it('requires a category that belongs to the report type', () => {
+        expect(validateToolArgs(financialReportTool, {
+            report_type: 'income_statement',
+            period: 'Q1',
+            line_items: [{ name: 'Cash', category: 'current_asset', amount: 1 }, { name: 'Sales', amount: 1 }]
+        })).toEqual({
+            valid: false,
+            issues: [
+                { path: 'line_items[0].category', message: 'Must be one of revenue, cost_of_goods_sold, operating_expense, other_income, other_expense, income_tax for a income statement' },
+                { path: 'line_items[1].category', message: 'Is required; use one of revenue, cost_of_goods_sold, operating_expense, other_income, other_expense, income_tax' }
+            ]
+        });
+    });
+
+    it('requires a budget amount for a budget analysis', () => {
+        expect(validateToolArgs(financialReportTool, { report_type: 'budget_analysis', period: 'Q1', line_items: [{ name: 'rent', amount: 1 }] })).toEqual({
+            valid: false,
+            issues: [{ path: 'line_items[0].budget_amount', message: 'Is required for a budget analysis' }]
+        });
+    });
+});
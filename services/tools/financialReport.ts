@@ -0,0 +1,276 @@
+import { ToolContext, defineTool } from "../toolRegistry";
+import { ToolValidationIssue } from "../toolValidation";
+import { ProfitAndLoss, BalanceSheet, ReportSection, TrialBalance, BALANCE_TOLERANCE, roundCents } from "../accountingReports";
+import { GeneralLedgerReport } from "./generalLedger";
+import { BudgetTrackerArgs } from "./budgetTracker";
+import {
+    STATEMENT_CATEGORIES,
+    StatementCategory,
+    StatementLineItem,
+    StatementReportType,
+    buildFinancialStatement
+} from "../financialStatements";
+
+export interface FinancialReportArgs {
+    report_type: StatementReportType;
+    period: string;
+    comparison_period?: string;
+    line_items?: StatementLineItem[];
+}
+
+interface StatementSource {
+    source: string;
+    items: StatementLineItem[];
+    comparison_period?: string;
+}
+
+const ALL_CATEGORIES = Object.values(STATEMENT_CATEGORIES).flat();
+
+const describeRange = (range?: { from: string; to: string }) => range ? `${range.from} to ${range.to}` : undefined;
+
+// Matches lines of two runs of the same report so the older one becomes the comparison period
+const withPriorAmounts = (current: StatementLineItem[], prior: StatementLineItem[] | null): StatementLineItem[] => {
+    if (!prior) return current;
+    const key = (item: StatementLineItem) => `${item.category}:${item.name}`;
+    const priorByKey = new Map(prior.map(item => [key(item), item.amount]));
+    const merged = current.map(item => ({ ...item, prior_amount: priorByKey.get(key(item)) ?? 0 }));
+    // Accounts that only had activity in the prior period still belong in the comparison
+    const currentKeys = new Set(current.map(key));
+    const priorOnly = prior.filter(item => !currentKeys.has(key(item))).map(item => ({ ...item, amount: 0, prior_amount: item.amount }));
+    return [...merged, ...priorOnly];
+};
+
+const sectionItems = (section: ReportSection, category: StatementCategory, classify?: (line: ReportSection['lines'][number]) => StatementCategory): StatementLineItem[] =>
+    section.lines.map(line => ({ name: line.account, category: classify ? classify(line) : category, amount: line.amount }));
+
+const profitAndLossItems = (report: ProfitAndLoss): StatementLineItem[] => [
+    ...sectionItems(report.revenue, 'revenue'),
+    ...sectionItems(report.cost_of_goods_sold, 'cost_of_goods_sold'),
+    ...sectionItems(report.operating_expenses, 'operating_expense')
+];
+
+// Account types are free text in most accounting systems, so current vs non-current is inferred from common names
+const NON_CURRENT_ASSET = /fixed|property|plant|equipment|depreciation|intangible|goodwill|investment|non.?current|long.?term/i;
+const NON_CURRENT_LIABILITY = /loan|mortgage|bond|debenture|non.?current|long.?term/i;
+
+const balanceSheetItems = (report: BalanceSheet): StatementLineItem[] => [
+    ...sectionItems(report.assets, 'current_asset', line => NON_CURRENT_ASSET.test(`${line.account_type ?? ''} ${line.account}`) ? 'non_current_asset' : 'current_asset'),
+    ...sectionItems(report.liabilities, 'current_liability', line => NON_CURRENT_LIABILITY.test(`${line.account_type ?? ''} ${line.account}`) ? 'non_current_liability' : 'current_liability'),
+    ...sectionItems(report.equity, 'equity')
+];
+
+// Trial balance rows carry no account type, so every expense is treated as operating
+const trialBalanceIncomeItems = (report: TrialBalance): StatementLineItem[] => report.rows
+    .filter(row => row.root_type === 'Income' || row.root_type === 'Expense')
+    .map(row => ({
+        name: row.account,
+        category: row.root_type === 'Income' ? 'revenue' : 'operating_expense',
+        amount: row.root_type === 'Income' ? row.credit - row.debit : row.debit - row.credit
+    }));
+
+// Income and expense not yet closed to retained earnings are rolled into equity, as computeBalanceSheet does
+const trialBalanceBalanceItems = (report: TrialBalance): StatementLineItem[] => {
+    const items: StatementLineItem[] = [];
+    let unclosedEarnings = 0;
+    for (const row of report.rows) {
+        const closing = row.closing_debit - row.closing_credit;
+        if (row.root_type === 'Income' || row.root_type === 'Expense') {
+            unclosedEarnings -= closing;
+        } else if (row.root_type === 'Asset') {
+            items.push({ name: row.account, category: NON_CURRENT_ASSET.test(row.account) ? 'non_current_asset' : 'current_asset', amount: closing });
+        } else {
+            const category: StatementCategory = row.root_type === 'Equity' ? 'equity' : NON_CURRENT_LIABILITY.test(row.account) ? 'non_current_liability' : 'current_liability';
+            items.push({ name: row.account, category, amount: -closing });
+        }
+    }
+    if (Math.abs(unclosedEarnings) >= BALANCE_TOLERANCE) {
+        items.push({ name: 'Current Period Earnings', category: 'equity', amount: roundCents(unclosedEarnings) });
+    }
+    return items;
+};
+
+const CASH_ACCOUNT = /cash|bank|petty/i;
+const INVESTING_VOUCHER = /asset|capital|depreciation/i;
+const FINANCING_VOUCHER = /loan|dividend|share|equity|capital contribution/i;
+
+// Movements on cash and bank accounts, grouped by voucher type and classified by what that type usually records
+const ledgerCashFlowItems = (report: GeneralLedgerReport): StatementLineItem[] => {
+    const byVoucherType = new Map<string, StatementLineItem>();
+    for (const entry of report.entries) {
+        if (!CASH_ACCOUNT.test(entry.account)) continue;
+        const category: StatementCategory = FINANCING_VOUCHER.test(entry.voucherType) ? 'financing'
+            : INVESTING_VOUCHER.test(entry.voucherType) ? 'investing'
+            : 'operating';
+        const key = `${category}:${entry.voucherType}`;
+        const item = byVoucherType.get(key) ?? { name: entry.voucherType, category, amount: 0 };
+        item.amount += entry.debit - entry.credit;
+        byVoucherType.set(key, item);
+    }
+    return [...byVoucherType.values()];
+};
+
+// Latest figures per budget category from earlier budget_tracker calls
+const budgetTrackerItems = (records: BudgetTrackerArgs[]): StatementLineItem[] => {
+    const byCategory = new Map<string, StatementLineItem>();
+    for (const args of records) {
+        if (!byCategory.has(args.category)) {
+            byCategory.set(args.category, { name: args.category, amount: args.actual_amount, budget_amount: args.budgeted_amount });
+        }
+    }
+    return [...byCategory.values()];
+};
+
+// Picks the most specific data fetched earlier in the session for the requested statement
+const sessionSource = (reportType: StatementReportType, { sessionData }: ToolContext): StatementSource | null => {
+    switch (reportType) {
+        case 'income_statement': {
+            const [latest, ...earlier] = sessionData.list('fetch_profit_and_loss');
+            if (latest) {
+                type DatedProfitAndLoss = ProfitAndLoss & { date_range?: { from: string; to: string } };
+                const current = latest.result as DatedProfitAndLoss;
+                // A re-run of the same period is not a comparison
+                const prior = earlier.map(record => record.result as DatedProfitAndLoss)
+                    .find(result => describeRange(result.date_range) !== describeRange(current.date_range));
+                return {
+                    source: 'session:fetch_profit_and_loss',
+                    items: withPriorAmounts(profitAndLossItems(current), prior ? profitAndLossItems(prior) : null),
+                    comparison_period: describeRange(prior?.date_range)
+                };
+            }
+            const trialBalance = sessionData.latest('fetch_trial_balance');
+            return trialBalance ? { source: 'session:fetch_trial_balance', items: trialBalanceIncomeItems(trialBalance.result as TrialBalance) } : null;
+        }
+        case 'balance_sheet': {
+            const [latest, ...earlier] = sessionData.list('fetch_balance_sheet');
+            if (latest) {
+                type DatedBalanceSheet = BalanceSheet & { as_of_date?: string };
+                const current = latest.result as DatedBalanceSheet;
+                const prior = earlier.map(record => record.result as DatedBalanceSheet)
+                    .find(result => result.as_of_date !== current.as_of_date);
+                return {
+                    source: 'session:fetch_balance_sheet',
+                    items: withPriorAmounts(balanceSheetItems(current), prior ? balanceSheetItems(prior) : null),
+                    comparison_period: prior?.as_of_date
+                };
+            }
+            const trialBalance = sessionData.latest('fetch_trial_balance');
+            return trialBalance ? { source: 'session:fetch_trial_balance', items: trialBalanceBalanceItems(trialBalance.result as TrialBalance) } : null;
+        }
+        case 'cash_flow': {
+            const ledger = sessionData.latest('fetch_general_ledger_report');
+            if (!ledger) return null;
+            const items = ledgerCashFlowItems(ledger.result as GeneralLedgerReport);
+            return items.length > 0 ? { source: 'session:fetch_general_ledger_report', items } : null;
+        }
+        case 'budget_analysis': {
+            const records = sessionData.list('budget_tracker').map(record => record.args as BudgetTrackerArgs);
+            return records.length > 0 ? { source: 'session:budget_tracker', items: budgetTrackerItems(records) } : null;
+        }
+    }
+};
+
+const SESSION_HINTS: Record<StatementReportType, string> = {
+    income_statement: 'fetch_profit_and_loss or fetch_trial_balance',
+    balance_sheet: 'fetch_balance_sheet or fetch_trial_balance',
+    cash_flow: 'fetch_general_ledger_report',
+    budget_analysis: 'budget_tracker'
+};
+
+export const generateFinancialReport = (params: FinancialReportArgs, context: ToolContext) => {
+    const { report_type, period, comparison_period, line_items } = params;
+
+    const source: StatementSource | null = line_items && line_items.length > 0
+        ? { source: 'line_items', items: line_items, comparison_period }
+        : sessionSource(report_type, context);
+
+    if (!source) {
+        return {
+            error: `No data available to build a ${report_type.replace(/_/g, ' ')}`,
+            instructions: `Ask the user for the figures and pass them as line_items, or first call ${SESSION_HINTS[report_type]} to fetch them from the accounting system.`
+        };
+    }
+
+    const comparisonLabel = comparison_period ?? source.comparison_period;
+    const statement = buildFinancialStatement(report_type, source.items, comparisonLabel);
+
+    return {
+        report_type,
+        period,
+        comparison_period: statement.prior_totals ? comparisonLabel ?? 'Prior period' : null,
+        generated_at: new Date().toISOString(),
+        source: source.source,
+        ...statement
+    };
+};
+
+export const financialReportTool = defineTool<FinancialReportArgs>({
+    name: "generate_financial_report",
+    description: "Build an income statement, balance sheet, cash flow statement or budget analysis with totals, ratios, period-over-period comparison and observations. Uses the supplied line_items, or if none are given, data fetched earlier in this conversation (profit and loss, balance sheet, trial balance, general ledger or budget_tracker results).",
+    parameters: {
+        type: "object",
+        properties: {
+            report_type: {
+                type: "string",
+                enum: ["income_statement", "balance_sheet", "cash_flow", "budget_analysis"],
+                description: "Type of financial report to generate"
+            },
+            period: {
+                type: "string",
+                description: "Time period for the report (e.g., 'Q1 2024', 'FY 2023')"
+            },
+            comparison_period: {
+                type: "string",
+                description: "Label of the period the prior_amount values belong to (e.g., 'Q4 2023')"
+            },
+            line_items: {
+                type: "array",
+                description: "Figures for the report. Omit to use data fetched earlier in the conversation.",
+                items: {
+                    type: "object",
+                    properties: {
+                        name: {
+                            type: "string",
+                            description: "Line name, e.g. 'Product sales', 'Rent', or the budget category"
+                        },
+                        category: {
+                            type: "string",
+                            enum: ALL_CATEGORIES,
+                            description: "Income statement: revenue, cost_of_goods_sold, operating_expense, other_income, other_expense, income_tax. Balance sheet: current_asset, non_current_asset, current_liability, non_current_liability, equity. Cash flow: operating, investing, financing, opening_cash. Not needed for budget analysis."
+                        },
+                        amount: {
+                            type: "number",
+                            description: "Amount for the period (the actual amount for budget analysis). Cash flow amounts are positive for inflows and negative for outflows."
+                        },
+                        prior_amount: {
+                            type: "number",
+                            description: "Amount for the comparison period (optional)"
+                        },
+                        budget_amount: {
+                            type: "number",
+                            description: "Budgeted amount (budget analysis only)"
+                        }
+                    },
+                    required: ["name", "amount"]
+                }
+            }
+        },
+        required: ["report_type", "period"]
+    },
+    validate: ({ report_type, line_items = [] }) => {
+        const issues: ToolValidationIssue[] = [];
+        const allowed = STATEMENT_CATEGORIES[report_type];
+        line_items.forEach((item, index) => {
+            if (report_type === 'budget_analysis') {
+                if (item.budget_amount === undefined) {
+                    issues.push({ path: `line_items[${index}].budget_amount`, message: 'Is required for a budget analysis' });
+                }
+            } else if (!item.category) {
+                issues.push({ path: `line_items[${index}].category`, message: `Is required; use one of ${allowed.join(', ')}` });
+            } else if (!allowed.includes(item.category)) {
+                issues.push({ path: `line_items[${index}].category`, message: `Must be one of ${allowed.join(', ')} for a ${report_type.replace(/_/g, ' ')}` });
+            }
+        });
+        return issues;
+    },
+    handler: generateFinancialReport
+});
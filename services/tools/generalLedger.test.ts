@@ -0,0 +1,75 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { fetchGeneralLedgerReport, generalLedgerTool } from "./generalLedger";
+import { AccountingApiClient, setAccountingApiClient } from "../accountingApiClient";
+import { validateToolArgs } from "../toolRegistry";
+
+const useLedgerResponse = (status: number, body: unknown) => {
+    const fetchImpl = vi.fn(async (_url: string | URL | Request) => new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    }));
+    setAccountingApiClient(new AccountingApiClient({ baseUrl: 'https://accounting.test/api', companyId: '7', maxRetries: 0, fetchImpl }));
+    return fetchImpl;
+};
+
+afterEach(() => {
+    setAccountingApiClient(null);
+    vi.restoreAllMocks();
+});
+
+describe('fetchGeneralLedgerReport', () => {
+    it('normalizes entries and totals the amounts', async () => {
+        useLedgerResponse(200, [
+            { postingDate: '2025-01-31T00:00:00Z', account: 'Cash', debit: 100.004, credit: 0, balance: 100, voucherType: 'Journal Entry', voucherNo: 'JV-1' },
+            { postingDate: '2025-02-01', account: '', debit: 0, credit: 40.5, balance: -40.5 },
+            { account: 'Sales', debit: 'not a number', credit: 59.5, balance: -59.5, voucherType: 'Sales Invoice', voucherNo: 'SI-9' }
+        ]);
+
+        const report = await fetchGeneralLedgerReport({ date_from: '2025-01-01', date_to: '2025-03-31' });
+        if ('error' in report) throw new Error(report.error);
+
+        expect(report.entries).toEqual([
+            { postingDate: '2025-01-31', account: 'Cash', debit: 100, credit: 0, balance: 100, voucherType: 'Journal Entry', voucherNo: 'JV-1' },
+            { postingDate: '2025-02-01', account: 'Unknown', debit: 0, credit: 40.5, balance: -40.5, voucherType: 'N/A', voucherNo: 'N/A' },
+            { postingDate: null, account: 'Sales', debit: 0, credit: 59.5, balance: -59.5, voucherType: 'Sales Invoice', voucherNo: 'SI-9' }
+        ]);
+        expect(report).toMatchObject({
+            total_entries: 3,
+            date_range: { from: '2025-01-01', to: '2025-03-31' },
+            account_filter: 'All accounts',
+            company_id: '7',
+            summary: { total_debits: 100, total_credits: 100, net_balance: 0 }
+        });
+    });
+
+    it('passes the filters to the accounting API', async () => {
+        const fetchImpl = useLedgerResponse(200, []);
+        await fetchGeneralLedgerReport({ date_from: '2025-01-01', account_filter: 'Cash' });
+
+        const url = new URL(String(fetchImpl.mock.calls[0][0]));
+        expect(url.pathname).toBe('/api/accountingreport/general-ledger-report');
+        expect(Object.fromEntries(url.searchParams)).toMatchObject({ startDate: '2025-01-01', account_filter: 'Cash', companyId: '7' });
+    });
+
+    it('returns API failures as an error result', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        useLedgerResponse(404, { message: 'Company not found' });
+
+        const report = await fetchGeneralLedgerReport({});
+        expect(report).toMatchObject({ status: 404, report_type: 'General Ledger Report' });
+        expect('error' in report && report.error).toMatch(/^Failed to fetch General Ledger Report/);
+    });
+});
+
+describe('generalLedgerTool arguments', () => {
+    it('rejects malformed and reversed date ranges', () => {
+        expect(validateToolArgs(generalLedgerTool, { date_from: '01/02/2025' })).toEqual({
+            valid: false,
+            issues: [{ path: 'date_from', message: 'Must use the format YYYY-MM-DD' }]
+        });
+        expect(validateToolArgs(generalLedgerTool, { date_from: '2025-03-01', date_to: '2025-01-01' })).toEqual({
+            valid: false,
+            issues: [{ path: 'date_from', message: 'Must not be after date_to' }]
+        });
+    });
+});
@@ -0,0 +1,115 @@
+import { defineTool } from "../toolRegistry";
+import { getAccountingApiClient } from "../accountingApiClient";
+import { reportContext, reportToolError, validateDateRange } from "./reportToolSupport";
+
+export interface GeneralLedgerArgs {
+    date_from?: string;
+    date_to?: string;
+    account_filter?: string;
+}
+
+export interface LedgerEntry {
+    // YYYY-MM-DD, or null when the accounting system did not provide one
+    postingDate: string | null;
+    account: string;
+    debit: number;
+    credit: number;
+    balance: number;
+    voucherType: string;
+    voucherNo: string;
+}
+
+export interface GeneralLedgerReport {
+    report_type: 'General Ledger Report';
+    generated_at: string;
+    total_entries: number;
+    date_range: { from: string; to: string };
+    account_filter: string;
+    company_id: string;
+    fiscal_year: number | null;
+    entries: LedgerEntry[];
+    summary: {
+        total_debits: number;
+        total_credits: number;
+        net_balance: number;
+    };
+}
+
+const toCents = (value: unknown) => typeof value === 'number' && Number.isFinite(value) ? Math.round(value * 100) / 100 : 0;
+
+const toIsoDate = (value: string) => {
+    // Keep the calendar date as sent; re-parsing a timestamp could shift it across midnight
+    const leadingDate = /^\d{4}-\d{2}-\d{2}/.exec(String(value));
+    if (leadingDate) return leadingDate[0];
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+};
+
+export const fetchGeneralLedgerReport = async (params: GeneralLedgerArgs) => {
+    const { date_from, date_to, account_filter } = params;
+    
+    try {
+        const client = getAccountingApiClient();
+        const data = await client.getGeneralLedger({ startDate: date_from, endDate: date_to, accountFilter: account_filter });
+        
+        const entries: LedgerEntry[] = data.map(entry => ({
+            postingDate: entry.postingDate ? toIsoDate(entry.postingDate) : null,
+            account: entry.account || 'Unknown',
+            debit: toCents(entry.debit),
+            credit: toCents(entry.credit),
+            balance: toCents(entry.balance),
+            voucherType: entry.voucherType || 'N/A',
+            voucherNo: entry.voucherNo || 'N/A'
+        }));
+
+        // Amounts stay numeric so the table can sort and total them; formatting happens at display time
+        const processedData: GeneralLedgerReport = {
+            report_type: 'General Ledger Report',
+            generated_at: new Date().toISOString(),
+            total_entries: entries.length,
+            date_range: {
+                from: date_from || 'All dates',
+                to: date_to || 'All dates'
+            },
+            account_filter: account_filter || 'All accounts',
+            ...reportContext(client),
+            entries,
+            summary: {
+                total_debits: toCents(entries.reduce((sum, entry) => sum + entry.debit, 0)),
+                total_credits: toCents(entries.reduce((sum, entry) => sum + entry.credit, 0)),
+                net_balance: toCents(entries.reduce((sum, entry) => sum + entry.balance, 0))
+            }
+        };
+        
+        return processedData;
+        
+    } catch (error) {
+        return reportToolError('General Ledger Report', error);
+    }
+};
+
+export const generalLedgerTool = defineTool<GeneralLedgerArgs>({
+    name: "fetch_general_ledger_report",
+    description: "Fetch General Ledger Report data from the accounting system API",
+    parameters: {
+        type: "object",
+        properties: {
+            date_from: {
+                type: "string",
+                description: "Start date for the report (optional, format: YYYY-MM-DD)"
+            },
+            date_to: {
+                type: "string",
+                description: "End date for the report (optional, format: YYYY-MM-DD)"
+            },
+            account_filter: {
+                type: "string",
+                description: "Filter by specific account name (optional)"
+            }
+        },
+        required: []
+    },
+    validate: ({ date_from, date_to }) => validateDateRange(date_from, date_to),
+    policy: 'confirm',
+    handler: fetchGeneralLedgerReport
+});
@@ -0,0 +1,26 @@
+import { createToolRegistry } from "../toolRegistry";
+import { financialMetricsTool } from "./financialMetrics";
+import { financialReportTool } from "./financialReport";
+import { budgetTrackerTool } from "./budgetTracker";
+import { taxCalculatorTool } from "./taxCalculator";
+import { generalLedgerTool } from "./generalLedger";
+import { trialBalanceTool } from "./trialBalance";
+import { payablesAgingTool, receivablesAgingTool } from "./agingReports";
+import { profitAndLossTool } from "./profitAndLoss";
+import { balanceSheetTool } from "./balanceSheet";
+
+// Tools available to every FM & Accounting Assistant session unless a session supplies its own registry.
+// Domain tools can be added with `defaultToolRegistry.register(...)` without touching the service core.
+// Their results get a generic card unless a renderer is registered in components/ToolResultCard.tsx.
+export const defaultToolRegistry = createToolRegistry([
+    financialMetricsTool,
+    financialReportTool,
+    budgetTrackerTool,
+    taxCalculatorTool,
+    generalLedgerTool,
+    trialBalanceTool,
+    receivablesAgingTool,
+    payablesAgingTool,
+    profitAndLossTool,
+    balanceSheetTool
+]);
@@ -0,0 +1,50 @@
+import { defineTool } from "../toolRegistry";
+import { getAccountingApiClient } from "../accountingApiClient";
+import { computeProfitAndLoss } from "../accountingReports";
+import { reportContext, reportToolError, validateDateRange } from "./reportToolSupport";
+
+export interface ProfitAndLossArgs {
+    date_from?: string;
+    date_to?: string;
+}
+
+export const fetchProfitAndLoss = async ({ date_from, date_to }: ProfitAndLossArgs) => {
+    try {
+        const client = getAccountingApiClient();
+        const balances = await client.getAccountBalances({ startDate: date_from, endDate: date_to });
+        return {
+            report_type: 'Profit and Loss',
+            generated_at: new Date().toISOString(),
+            date_range: {
+                from: date_from || 'All dates',
+                to: date_to || 'All dates'
+            },
+            ...reportContext(client),
+            ...computeProfitAndLoss(balances)
+        };
+    } catch (error) {
+        return reportToolError('Profit and Loss', error);
+    }
+};
+
+export const profitAndLossTool = defineTool<ProfitAndLossArgs>({
+    name: "fetch_profit_and_loss",
+    description: "Fetch a profit and loss statement from the accounting system for a period: revenue, cost of goods sold, gross profit, operating expenses, net profit and margins",
+    parameters: {
+        type: "object",
+        properties: {
+            date_from: {
+                type: "string",
+                description: "Start of the period (optional, format: YYYY-MM-DD)"
+            },
+            date_to: {
+                type: "string",
+                description: "End of the period (optional, format: YYYY-MM-DD)"
+            }
+        },
+        required: []
+    },
+    validate: ({ date_from, date_to }) => validateDateRange(date_from, date_to),
+    policy: 'confirm',
+    handler: fetchProfitAndLoss
+});
@@ -0,0 +1,39 @@
+import { AccountingApiClient, AccountingApiError } from "../accountingApiClient";
+import { ToolValidationIssue } from "../toolValidation";
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Shared checks for the YYYY-MM-DD arguments the accounting tools take
+export const validateIsoDates = (dates: Record<string, string | undefined>): ToolValidationIssue[] =>
+    Object.entries(dates)
+        .filter(([, value]) => value !== undefined && value !== '' && !(ISO_DATE.test(value) && !Number.isNaN(Date.parse(value))))
+        .map(([path]) => ({ path, message: 'Must use the format YYYY-MM-DD' }));
+
+export const validateDateRange = (date_from?: string, date_to?: string): ToolValidationIssue[] => {
+    const issues = validateIsoDates({ date_from, date_to });
+    if (issues.length === 0 && date_from && date_to && date_from > date_to) {
+        issues.push({ path: 'date_from', message: 'Must not be after date_to' });
+    }
+    return issues;
+};
+
+export const todayIsoDate = () => {
+    const now = new Date();
+    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+// Failed fetches come back to the model as data rather than exceptions, so it can explain the problem
+export const reportToolError = (reportType: string, error: unknown) => {
+    console.error(`Error fetching ${reportType}:`, error);
+    return {
+        error: `Failed to fetch ${reportType}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        status: error instanceof AccountingApiError ? error.status : null,
+        report_type: reportType,
+        generated_at: new Date().toISOString()
+    };
+};
+
+export const reportContext = (client: AccountingApiClient) => ({
+    company_id: client.config.companyId,
+    fiscal_year: client.config.fiscalYear ?? null
+});
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { calculateTax, taxCalculatorTool } from "./taxCalculator";
+import { validateToolArgs } from "../toolRegistry";
+import { registerTaxTable } from "../taxTables";
+
+describe('calculateTax', () => {
+    it('applies the standard deduction and progressive brackets', () => {
+        const result = calculateTax({ income: 50000, tax_year: '2024', filing_status: 'single' });
+        expect(result).toMatchObject({
+            jurisdiction: 'US-federal',
+            deduction_method: 'standard',
+            total_deductions: '$14600.00',
+            taxable_income: '$35400.00',
+            estimated_tax: '$4016.00',
+            marginal_rate: '12.00%',
+            effective_rate: '8.03%'
+        });
+        expect(result.bracket_breakdown?.map(bracket => bracket.tax)).toEqual([1160, 2856]);
+    });
+
+    it('uses itemized deductions when they exceed the standard deduction', () => {
+        const result = calculateTax({
+            income: 50000,
+            tax_year: '2024',
+            filing_status: 'single',
+            deductions: [{ type: 'mortgage_interest', amount: 12000 }, { type: 'charity', amount: 8000 }]
+        });
+        expect(result).toMatchObject({ deduction_method: 'itemized', total_deductions: '$20000.00', taxable_income: '$30000.00' });
+    });
+
+    it('owes nothing when income is below the standard deduction', () => {
+        expect(calculateTax({ income: 10000, tax_year: '2024', filing_status: 'single' })).toMatchObject({
+            taxable_income: '$0.00',
+            estimated_tax: '$0.00',
+            effective_rate: '0.00%'
+        });
+    });
+
+    it('caps non-refundable credits at the tax owed but lets refundable credits go negative', () => {
+        const capped = calculateTax({ income: 20000, tax_year: '2024', filing_status: 'single', credits: [{ amount: 5000 }] });
+        expect(capped).toMatchObject({ tax_before_credits: '$540.00', credits_applied: '$540.00', estimated_tax: '$0.00' });
+
+        const refunded = calculateTax({ income: 20000, tax_year: '2024', filing_status: 'single', credits: [{ amount: 1000, refundable: true }] });
+        expect(refunded).toMatchObject({ estimated_tax: '$-460.00' });
+    });
+
+    it('reaches the top bracket for very high incomes', () => {
+        expect(calculateTax({ income: 2000000, tax_year: '2024', filing_status: 'married_joint' })).toMatchObject({ marginal_rate: '37.00%' });
+    });
+
+    it('returns an error for a year without a table', () => {
+        expect(calculateTax({ income: 50000, tax_year: '1999', filing_status: 'single' })).toEqual({
+            error: 'No tax table available for US-federal 1999'
+        });
+    });
+});
+
+describe('taxCalculatorTool arguments', () => {
+    it('lists the available years when the tax year is unknown', () => {
+        const validation = validateToolArgs(taxCalculatorTool, { income: 50000, tax_year: '1999', filing_status: 'single' });
+        expect(validation.valid).toBe(false);
+        if (!validation.valid) {
+            expect(validation.issues[0]).toMatchObject({ path: 'tax_year', message: expect.stringContaining('2024') });
+        }
+    });
+
+    it('reports unknown jurisdictions', () => {
+        const validation = validateToolArgs(taxCalculatorTool, { income: 50000, tax_year: '2024', filing_status: 'single', jurisdiction: 'Atlantis' });
+        expect(validation.valid).toBe(false);
+        if (!validation.valid) {
+            expect(validation.issues[0].path).toBe('jurisdiction');
+        }
+    });
+
+    it('rejects negative income', () => {
+        expect(validateToolArgs(taxCalculatorTool, { income: -1, tax_year: '2024', filing_status: 'single' }).valid).toBe(false);
+    });
+
+    it('checks the filing status against the selected table', () => {
+        const validation = validateToolArgs(taxCalculatorTool, { income: 50000, tax_year: '2024', filing_status: 'married' });
+        expect(validation.valid).toBe(false);
+        if (!validation.valid) {
+            expect(validation.issues).toEqual([{
+                path: 'filing_status',
+                message: 'Not supported for US-federal 2024; available: single, married_joint, married_separate, head_of_household'
+            }]);
+        }
+    });
+
+    it('accepts the filing statuses of any loaded table', () => {
+        registerTaxTable({
+            jurisdiction: 'UK',
+            tax_year: '2024',
+            version: 1,
+            currency: 'GBP',
+            filing_statuses: {
+                individual: { standard_deduction: 12570, brackets: [{ rate: 0.2, up_to: 37700 }, { rate: 0.4, up_to: null }] }
+            }
+        });
+        const args = { income: 50000, tax_year: '2024', filing_status: 'individual', jurisdiction: 'UK' };
+
+        expect(validateToolArgs(taxCalculatorTool, args).valid).toBe(true);
+        expect(calculateTax(args)).toMatchObject({ jurisdiction: 'UK', taxable_income: '$37430.00', marginal_rate: '20.00%' });
+    });
+});
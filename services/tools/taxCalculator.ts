@@ -0,0 +1,128 @@
+import { defineTool } from "../toolRegistry";
+import { ToolValidationIssue } from "../toolValidation";
+import { DEFAULT_JURISDICTION, getTaxTable, listFilingStatuses, listJurisdictions, listTaxYears } from "../taxTables";
+import { computeProgressiveTax, TaxCredit } from "../taxEngine";
+
+export interface TaxDeduction {
+    type?: string;
+    amount: number;
+}
+
+export interface TaxCalculatorArgs {
+    income: number;
+    deductions?: TaxDeduction[];
+    credits?: TaxCredit[];
+    tax_year: string;
+    // A key of the tax table's filing_statuses, so other jurisdictions can name their own
+    filing_status: string;
+    jurisdiction?: string;
+}
+
+const formatCurrency = (amount: number) => `$${amount.toFixed(2)}`;
+const formatRate = (rate: number) => `${(rate * 100).toFixed(2)}%`;
+
+export const calculateTax = (params: TaxCalculatorArgs) => {
+    const { income, deductions = [], credits = [], tax_year, filing_status, jurisdiction = DEFAULT_JURISDICTION } = params;
+
+    const table = getTaxTable(jurisdiction, tax_year);
+    if (!table) {
+        return { error: `No tax table available for ${jurisdiction} ${tax_year}` };
+    }
+
+    const itemized = deductions.reduce((sum: number, ded: TaxDeduction) => sum + ded.amount, 0);
+    const computation = computeProgressiveTax(table, filing_status, income, itemized, credits);
+    
+    return {
+        jurisdiction: table.jurisdiction,
+        tax_year,
+        filing_status,
+        gross_income: formatCurrency(income),
+        deduction_method: computation.deduction_method,
+        standard_deduction: formatCurrency(computation.standard_deduction),
+        itemized_deductions: formatCurrency(computation.itemized_deductions),
+        total_deductions: formatCurrency(computation.deduction_applied),
+        taxable_income: formatCurrency(computation.taxable_income),
+        bracket_breakdown: computation.brackets.map(bracket => ({
+            ...bracket,
+            description: `${formatRate(bracket.rate)} on ${formatCurrency(bracket.taxable_amount)} = ${formatCurrency(bracket.tax)}`
+        })),
+        tax_before_credits: formatCurrency(computation.tax_before_credits),
+        credits_applied: formatCurrency(computation.nonrefundable_credits_applied + computation.refundable_credits_applied),
+        estimated_tax: formatCurrency(computation.tax_after_credits),
+        marginal_rate: formatRate(computation.marginal_rate),
+        effective_rate: formatRate(computation.effective_rate),
+        table_source: table.source,
+        table_version: table.version
+    };
+};
+
+export const taxCalculatorTool = defineTool<TaxCalculatorArgs>({
+    name: "tax_calculator",
+    description: "Calculate income tax with progressive brackets, standard vs itemized deductions and credits for a tax year and jurisdiction",
+    parameters: {
+        type: "object",
+        properties: {
+            income: {
+                type: "number",
+                minimum: 0,
+                description: "Total income amount"
+            },
+            deductions: {
+                type: "array",
+                items: {
+                    type: "object",
+                    properties: {
+                        type: { type: "string" },
+                        amount: { type: "number", minimum: 0 }
+                    },
+                    required: ["amount"]
+                },
+                description: "Itemized deduction items; the standard deduction is used when it is larger"
+            },
+            credits: {
+                type: "array",
+                items: {
+                    type: "object",
+                    properties: {
+                        type: { type: "string" },
+                        amount: { type: "number", minimum: 0 },
+                        refundable: { type: "boolean" }
+                    },
+                    required: ["amount"]
+                },
+                description: "Tax credits applied after the bracket calculation (optional)"
+            },
+            tax_year: {
+                type: "string",
+                description: "Tax year for calculation (e.g., '2024')"
+            },
+            filing_status: {
+                // Checked against the selected table in validate, since tables loaded later can add statuses
+                type: "string",
+                description: `Tax filing status as named in the tax table (bundled tables: ${listFilingStatuses().join(', ')})`
+            },
+            jurisdiction: {
+                type: "string",
+                description: `Tax jurisdiction (optional, defaults to '${DEFAULT_JURISDICTION}')`
+            }
+        },
+        required: ["income", "tax_year", "filing_status"]
+    },
+    validate: ({ tax_year, filing_status, jurisdiction = DEFAULT_JURISDICTION }) => {
+        const issues: ToolValidationIssue[] = [];
+        const table = getTaxTable(jurisdiction, tax_year);
+        if (!table) {
+            const years = listTaxYears(jurisdiction);
+            issues.push(years.length > 0
+                ? { path: 'tax_year', message: `No ${jurisdiction} tax table for ${tax_year}; available years: ${years.join(', ')}` }
+                : { path: 'jurisdiction', message: `Unknown jurisdiction; available: ${listJurisdictions().join(', ')}` });
+        } else if (!table.filing_statuses[filing_status]) {
+            issues.push({
+                path: 'filing_status',
+                message: `Not supported for ${jurisdiction} ${tax_year}; available: ${Object.keys(table.filing_statuses).join(', ')}`
+            });
+        }
+        return issues;
+    },
+    handler: calculateTax
+});
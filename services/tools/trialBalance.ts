@@ -0,0 +1,50 @@
+import { defineTool } from "../toolRegistry";
+import { getAccountingApiClient } from "../accountingApiClient";
+import { computeTrialBalance } from "../accountingReports";
+import { reportContext, reportToolError, validateDateRange } from "./reportToolSupport";
+
+export interface TrialBalanceArgs {
+    date_from?: string;
+    date_to?: string;
+}
+
+export const fetchTrialBalance = async ({ date_from, date_to }: TrialBalanceArgs) => {
+    try {
+        const client = getAccountingApiClient();
+        const balances = await client.getAccountBalances({ startDate: date_from, endDate: date_to });
+        return {
+            report_type: 'Trial Balance',
+            generated_at: new Date().toISOString(),
+            date_range: {
+                from: date_from || 'All dates',
+                to: date_to || 'All dates'
+            },
+            ...reportContext(client),
+            ...computeTrialBalance(balances)
+        };
+    } catch (error) {
+        return reportToolError('Trial Balance', error);
+    }
+};
+
+export const trialBalanceTool = defineTool<TrialBalanceArgs>({
+    name: "fetch_trial_balance",
+    description: "Fetch a trial balance from the accounting system: opening balance, period debits and credits, and closing balance for every account, with a check that debits equal credits",
+    parameters: {
+        type: "object",
+        properties: {
+            date_from: {
+                type: "string",
+                description: "Start of the period (optional, format: YYYY-MM-DD)"
+            },
+            date_to: {
+                type: "string",
+                description: "End of the period (optional, format: YYYY-MM-DD)"
+            }
+        },
+        required: []
+    },
+    validate: ({ date_from, date_to }) => validateDateRange(date_from, date_to),
+    policy: 'confirm',
+    handler: fetchTrialBalance
+});
@@ -0,0 +1,32 @@
+import { StartSensitivity } from "@google/genai";
+import { describe, expect, it } from "vitest";
+import { DEFAULT_VOICE_ACTIVITY, toRealtimeInputConfig, toVadOptions } from "./voiceActivity";
+
+describe('toRealtimeInputConfig', () => {
+    it('passes the durations and sensitivity to server-side detection', () => {
+        expect(toRealtimeInputConfig({ detection: 'server', sensitivity: 'high', minSpeechMs: 100, silenceDurationMs: 800 })).toEqual({
+            automaticActivityDetection: {
+                disabled: false,
+                startOfSpeechSensitivity: StartSensitivity.START_SENSITIVITY_HIGH,
+                prefixPaddingMs: 100,
+                silenceDurationMs: 800
+            }
+        });
+        expect(toRealtimeInputConfig(DEFAULT_VOICE_ACTIVITY).automaticActivityDetection?.startOfSpeechSensitivity).toBeUndefined();
+    });
+
+    it('turns server-side detection off when this device or the user marks turns', () => {
+        expect(toRealtimeInputConfig({ ...DEFAULT_VOICE_ACTIVITY, detection: 'client' })).toEqual({ automaticActivityDetection: { disabled: true } });
+        expect(toRealtimeInputConfig({ ...DEFAULT_VOICE_ACTIVITY, detection: 'pushToTalk' })).toEqual({ automaticActivityDetection: { disabled: true } });
+    });
+});
+
+describe('toVadOptions', () => {
+    it('makes higher sensitivities accept quieter speech', () => {
+        const low = toVadOptions({ ...DEFAULT_VOICE_ACTIVITY, sensitivity: 'low' });
+        const high = toVadOptions({ ...DEFAULT_VOICE_ACTIVITY, sensitivity: 'high', silenceDurationMs: 900 });
+        expect(high.thresholdRatio).toBeLessThan(low.thresholdRatio);
+        expect(high.minLevel).toBeLessThan(low.minLevel);
+        expect(high.hangoverMs).toBe(900);
+    });
+});
@@ -0,0 +1,85 @@
+import { StartSensitivity } from "@google/genai";
+import type { RealtimeInputConfig } from "@google/genai";
+import { VadOptions } from "./audio/vad";
+
+// How the app decides when the user starts and stops talking. With 'server' detection Gemini
+// listens for turns itself; with 'client' detection this device's detector decides and sends
+// explicit activity start and end signals; with 'pushToTalk' the user holds a key or button for
+// each turn. In the first two the client detector handles barge-in; in push-to-talk pressing does.
+
+export type VoiceDetectionMode = 'server' | 'client' | 'pushToTalk';
+export type VoiceSensitivity = 'low' | 'medium' | 'high';
+
+export interface VoiceActivitySettings {
+    detection: VoiceDetectionMode;
+    // How readily speech is detected; 'high' catches soft speech but also more background noise.
+    // The end of a turn is governed by silenceDurationMs alone.
+    sensitivity: VoiceSensitivity;
+    // Speech needed before a turn starts
+    minSpeechMs: number;
+    // Silence needed before a turn ends
+    silenceDurationMs: number;
+}
+
+export const DEFAULT_VOICE_ACTIVITY: VoiceActivitySettings = {
+    detection: 'server',
+    sensitivity: 'medium',
+    minSpeechMs: 60,
+    silenceDurationMs: 500
+};
+
+export const VOICE_DETECTION_LABELS: Record<VoiceDetectionMode, string> = {
+    server: 'Automatic (Gemini)',
+    client: 'Automatic (this device)',
+    pushToTalk: 'Push to talk'
+};
+
+export const VOICE_SENSITIVITY_LABELS: Record<VoiceSensitivity, string> = {
+    low: 'Low',
+    medium: 'Medium',
+    high: 'High'
+};
+
+export interface DurationRange {
+    min: number;
+    max: number;
+    step: number;
+}
+
+// Ranges offered in settings for the two durations
+export const VOICE_DURATION_RANGES: Record<'minSpeechMs' | 'silenceDurationMs', DurationRange> = {
+    minSpeechMs: { min: 20, max: 500, step: 20 },
+    silenceDurationMs: { min: 200, max: 3000, step: 100 }
+};
+
+const THRESHOLD_RATIOS: Record<VoiceSensitivity, number> = { low: 4, medium: 2.8, high: 2 };
+const MIN_LEVELS: Record<VoiceSensitivity, number> = { low: 0.008, medium: 0.004, high: 0.002 };
+
+export const toVadOptions = (settings: VoiceActivitySettings): VadOptions => ({
+    thresholdRatio: THRESHOLD_RATIOS[settings.sensitivity],
+    minLevel: MIN_LEVELS[settings.sensitivity],
+    minSpeechMs: settings.minSpeechMs,
+    hangoverMs: settings.silenceDurationMs
+});
+
+// The Live API has only high and low sensitivities; 'medium' leaves the server's default
+const START_SENSITIVITIES: Record<VoiceSensitivity, StartSensitivity | undefined> = {
+    low: StartSensitivity.START_SENSITIVITY_LOW,
+    medium: undefined,
+    high: StartSensitivity.START_SENSITIVITY_HIGH
+};
+
+export const toRealtimeInputConfig = (settings: VoiceActivitySettings): RealtimeInputConfig => {
+    if (settings.detection !== 'server') {
+        return { automaticActivityDetection: { disabled: true } };
+    }
+    return {
+        automaticActivityDetection: {
+            disabled: false,
+            startOfSpeechSensitivity: START_SENSITIVITIES[settings.sensitivity],
+            // The server's name for the speech needed before a turn starts
+            prefixPaddingMs: settings.minSpeechMs,
+            silenceDurationMs: settings.silenceDurationMs
+        }
+    };
+};
@@ -0,0 +1,72 @@
+import type { AudioCaptureSource } from "../services/audio/audioCapture";
+import type { AudioPlaybackSink } from "../services/audio/audioPlayback";
+
+// In-memory stand-ins for the microphone and speaker, for driving LiveConversation in tests
+
+// What the capture worklet delivers: 40 ms frames, already at the Live input rate
+const CAPTURE_SAMPLE_RATE = 16000;
+const FRAME_LENGTH = 640;
+
+export class FakeCapture implements AudioCaptureSource {
+    readonly analyserNode = null;
+    started = false;
+    stopped = false;
+    private onFrame: ((samples: Float32Array, sampleRate: number) => void) | null = null;
+
+    async start(onFrame: (samples: Float32Array, sampleRate: number) => void) {
+        this.started = true;
+        this.onFrame = onFrame;
+    }
+
+    stop() {
+        this.stopped = true;
+        this.onFrame = null;
+    }
+
+    // Feeds `frames` microphone frames of a tone at `amplitude`; 0 is silence
+    emit(frames: number, amplitude = 0) {
+        for (let frame = 0; frame < frames; frame++) {
+            const samples = Float32Array.from({ length: FRAME_LENGTH }, (_, i) => amplitude * Math.sin(2 * Math.PI * 220 * i / CAPTURE_SAMPLE_RATE));
+            this.onFrame?.(samples, CAPTURE_SAMPLE_RATE);
+        }
+    }
+}
+
+export class FakePlayback implements AudioPlaybackSink {
+    onDrained: (() => void) | null = null;
+    queued: Float32Array[] = [];
+    playedSamples = 0;
+    flushCount = 0;
+    closed = false;
+    // Makes start() fail, as when the browser refuses the AudioContext or the worklet does not load
+    startError: Error | null = null;
+
+    async start() {
+        if (this.startError) throw this.startError;
+    }
+
+    enqueue(samples: Float32Array) {
+        this.queued.push(samples);
+    }
+
+    flush() {
+        this.flushCount++;
+        this.queued = [];
+    }
+
+    close() {
+        this.closed = true;
+    }
+
+    // Plays the next `chunks` queued chunks without running dry
+    play(chunks: number) {
+        this.queued.splice(0, chunks).forEach(samples => this.playedSamples += samples.length);
+    }
+
+    // Plays out everything queued, as the real sink does when its ring buffer runs dry
+    drain() {
+        if (this.queued.length === 0) return;
+        this.play(this.queued.length);
+        this.onDrained?.();
+    }
+}
@@ -0,0 +1,147 @@
+// In-memory stand-in for IndexedDB, covering what services/conversationStore.ts uses: opening with
+// an upgrade, one object store per transaction and put/get/getAll/delete/clear. Events fire on a
+// later task, as in browsers, so handlers attached after the call still run.
+
+type Handler = (() => void) | null;
+
+interface StoreData {
+    keyPath: string;
+    indexes: string[];
+    records: Map<IDBValidKey, unknown>;
+}
+
+const later = (callback: () => void) => setTimeout(callback, 0);
+
+class FakeRequest<T> {
+    result!: T;
+    error: DOMException | null = null;
+    onsuccess: Handler = null;
+    onerror: Handler = null;
+    onupgradeneeded: Handler = null;
+}
+
+class FakeObjectStore {
+    constructor(private readonly data: StoreData) {}
+
+    createIndex(name: string) {
+        this.data.indexes.push(name);
+    }
+
+    put(value: Record<string, unknown>) {
+        const key = value[this.data.keyPath] as IDBValidKey;
+        this.data.records.set(key, structuredClone(value));
+        return this.respond(key);
+    }
+
+    get(key: IDBValidKey) {
+        const value = this.data.records.get(key);
+        return this.respond(value === undefined ? undefined : structuredClone(value));
+    }
+
+    getAll() {
+        return this.respond(Array.from(this.data.records.values(), value => structuredClone(value)));
+    }
+
+    delete(key: IDBValidKey) {
+        this.data.records.delete(key);
+        return this.respond(undefined);
+    }
+
+    clear() {
+        this.data.records.clear();
+        return this.respond(undefined);
+    }
+
+    private respond<T>(result: T) {
+        const request = new FakeRequest<T>();
+        request.result = result;
+        return request;
+    }
+}
+
+class FakeTransaction {
+    error: DOMException | null = null;
+    oncomplete: Handler = null;
+    onerror: Handler = null;
+    onabort: Handler = null;
+
+    constructor(private readonly data: StoreData, failure: DOMException | null) {
+        if (failure) {
+            // Work on a copy so the aborted transaction leaves the records untouched
+            this.data = { ...data, records: new Map(data.records) };
+        }
+        later(() => {
+            if (failure) {
+                this.error = failure;
+                this.onerror?.();
+                this.onabort?.();
+            } else {
+                this.oncomplete?.();
+            }
+        });
+    }
+
+    objectStore() {
+        return new FakeObjectStore(this.data);
+    }
+}
+
+class FakeDatabase {
+    constructor(private readonly stores: Map<string, StoreData>, private readonly factory: FakeIndexedDb) {}
+
+    createObjectStore(name: string, options: { keyPath: string }) {
+        const data: StoreData = { keyPath: options.keyPath, indexes: [], records: new Map() };
+        this.stores.set(name, data);
+        return new FakeObjectStore(data);
+    }
+
+    transaction(name: string, _mode: IDBTransactionMode) {
+        const data = this.stores.get(name);
+        if (!data) {
+            throw new DOMException(`No object store named ${name}`, 'NotFoundError');
+        }
+        return new FakeTransaction(data, this.factory.transactionError);
+    }
+}
+
+export class FakeIndexedDb {
+    // Database name → object store name → store
+    readonly databases = new Map<string, Map<string, StoreData>>();
+    openCount = 0;
+    // Fails the next open, as when the browser blocks storage
+    openError: DOMException | null = null;
+    // Aborts every transaction while set, as when the storage quota is exceeded
+    transactionError: DOMException | null = null;
+
+    open(name: string, _version?: number) {
+        this.openCount++;
+        const request = new FakeRequest<FakeDatabase>();
+        const openError = this.openError;
+        this.openError = null;
+        later(() => {
+            if (openError) {
+                request.error = openError;
+                request.onerror?.();
+                return;
+            }
+            const isNew = !this.databases.has(name);
+            const stores = this.databases.get(name) ?? new Map<string, StoreData>();
+            this.databases.set(name, stores);
+            request.result = new FakeDatabase(stores, this);
+            if (isNew) {
+                request.onupgradeneeded?.();
+            }
+            request.onsuccess?.();
+        });
+        return request;
+    }
+
+    // The records of one object store, for assertions
+    records(databaseName: string, storeName: string): unknown[] {
+        return Array.from(this.databases.get(databaseName)?.get(storeName)?.records.values() ?? []);
+    }
+
+    asFactory(): IDBFactory {
+        return this as unknown as IDBFactory;
+    }
+}
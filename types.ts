@@ -3,8 +3,51 @@ export enum AssistantState {
   LISTENING,
   PROCESSING,
   SPEAKING,
+  RECONNECTING,
 }
 
+interface TranscriptEntryBase {
+  id: number;
+  // Epoch milliseconds when the entry was created
+  timestamp: number;
+}
+
+export interface UserTurnEntry extends TranscriptEntryBase {
+  kind: 'user';
+  text: string;
+  // How the turn was entered
+  source: 'voice' | 'text';
+}
+
+export interface AssistantTurnEntry extends TranscriptEntryBase {
+  kind: 'assistant';
+  text: string;
+  // Spoken answers are transcribed; text answers arrive as text
+  source: 'voice' | 'text';
+  // Set when the user cut the spoken answer short: the part of `text` that was played before that
+  heardText?: string;
+}
+
+export interface ToolCallEntry extends TranscriptEntryBase {
+  kind: 'tool_call';
+  callId?: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface ToolResultEntry extends TranscriptEntryBase {
+  kind: 'tool_result';
+  callId?: string;
+  name: string;
+  result: unknown;
+  error?: string;
+  // Time the tool's handler took; missing in conversations saved before it was recorded
+  durationMs?: number;
+}
+
+// One row of the conversation transcript, in the order it happened
+export type TranscriptEntry = UserTurnEntry | AssistantTurnEntry | ToolCallEntry | ToolResultEntry;
+
 declare global {
   interface Window {
     webkitAudioContext: typeof AudioContext;
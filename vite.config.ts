@@ -1,13 +1,37 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
+import { MOCK_ACCOUNTING_BASE_PATH, mockAccountingApi } from './mock/mockAccountingServer';
+import { LIVE_TOKEN_PATH, liveTokenApi } from './server/liveTokenServer';
+import { ACCOUNTING_PROXY_PATH, accountingAuthFromEnv, accountingProxyApi } from './server/accountingProxyServer';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    const useMockAccounting = env.MOCK_ACCOUNTING_API === 'true';
     return {
+      plugins: [
+        // GEMINI_API_KEY stays on the server; the browser only gets single-use Live tokens
+        liveTokenApi({ apiKey: env.GEMINI_API_KEY }),
+        ...(useMockAccounting
+          ? [mockAccountingApi({
+              latencyMs: Number(env.MOCK_ACCOUNTING_LATENCY_MS) || 0,
+              errorRate: Number(env.MOCK_ACCOUNTING_ERROR_RATE) || 0
+            })]
+          // Accounting credentials stay on the server too; the browser calls the proxy, which adds them
+          : [accountingProxyApi({ baseUrl: env.API_BASE_URL, auth: accountingAuthFromEnv(env) })])
+      ],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.API_BASE_URL': JSON.stringify(env.API_BASE_URL)
+        'process.env.LIVE_TOKEN_URL': JSON.stringify(env.LIVE_TOKEN_URL || LIVE_TOKEN_PATH),
+        'process.env.LIVE_TRANSPORT': JSON.stringify(env.LIVE_TRANSPORT),
+        'process.env.API_BASE_URL': JSON.stringify(useMockAccounting ? MOCK_ACCOUNTING_BASE_PATH : env.ACCOUNTING_PROXY_URL || ACCOUNTING_PROXY_PATH),
+        'process.env.ACCOUNTING_COMPANY_ID': JSON.stringify(env.ACCOUNTING_COMPANY_ID),
+        'process.env.ACCOUNTING_FISCAL_YEAR': JSON.stringify(env.ACCOUNTING_FISCAL_YEAR)
+      },
+      test: {
+        // Component and App tests opt into jsdom with a `@vitest-environment jsdom` comment
+        environment: 'node',
+        include: ['**/*.test.{ts,tsx}'],
+        exclude: ['node_modules/**', 'dist/**']
       },
       resolve: {
         alias: {